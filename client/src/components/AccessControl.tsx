@@ -10,7 +10,8 @@ import {
   CreditCard, 
   Calendar,
   UserCheck,
-  UserX
+  UserX,
+  PackageX
 } from "lucide-react";
 import { ApiError } from "@/lib/queryClient";
 
@@ -102,6 +103,34 @@ export function AccessControl({ error, children }: AccessControlProps) {
           </Card>
         );
 
+      case 'ITEM_LIMIT_REACHED':
+        return (
+          <Card className="border-blue-500 bg-blue-50 dark:bg-blue-950/20">
+            <CardHeader className="pb-3">
+              <div className="flex items-center gap-2">
+                <PackageX className="h-5 w-5 text-blue-600" />
+                <CardTitle className="text-blue-800 dark:text-blue-200">Product Limit Reached</CardTitle>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <CardDescription className="text-blue-700 dark:text-blue-300">
+                {reason || 'You have reached the maximum number of monitored products for your plan.'}
+                {apiError.itemLimit !== undefined && (
+                  <span className="block mt-2 text-sm" data-testid="text-item-limit">
+                    {apiError.currentCount ?? apiError.itemLimit} of {apiError.itemLimit} products used
+                    {apiError.planTier && ` on the ${apiError.planTier} plan`}
+                  </span>
+                )}
+              </CardDescription>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button variant="default" size="sm" data-testid="button-upgrade-plan">
+                  Upgrade Plan
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        );
+
       case 'ACCESS_DENIED':
       default:
         return (
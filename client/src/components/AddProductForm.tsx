@@ -7,12 +7,13 @@ import { Badge } from "@/components/ui/badge"
 import { Plus, Link as LinkIcon, Hash } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { useIsMobile } from "@/hooks/use-mobile"
+import type { RetailerId } from "@shared/retailers"
 
 interface AddProductFormProps {
   onAddProduct?: (product: {
     name: string
     url: string
-    platform: "amazon" | "walmart"
+    platform: RetailerId
     asin?: string
   }) => void
   isLoading?: boolean
@@ -22,10 +23,10 @@ export default function AddProductForm({ onAddProduct, isLoading }: AddProductFo
   const [url, setUrl] = useState("")
   const [asin, setAsin] = useState("")
   const [productName, setProductName] = useState("")
-  const [detectedPlatform, setDetectedPlatform] = useState<"amazon" | "walmart" | null>(null)
+  const [detectedPlatform, setDetectedPlatform] = useState<RetailerId | null>(null)
   const isMobile = useIsMobile()
 
-  const detectPlatform = (inputUrl: string): "amazon" | "walmart" | null => {
+  const detectPlatform = (inputUrl: string): RetailerId | null => {
     if (inputUrl.includes('amazon.com')) return "amazon"
     if (inputUrl.includes('walmart.com')) return "walmart"
     return null
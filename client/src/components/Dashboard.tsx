@@ -20,7 +20,10 @@ import { useNotifications } from "@/contexts/NotificationsContext"
 import { useDataProvider } from "@/contexts/DataProviderContext"
 import { Product, ProductInput, AppSettings } from "@/lib/dataProvider"
 import { WebDemoDataProvider } from "@/lib/webDemoDataProvider"
+import type { ApiError } from "@/lib/queryClient"
+import type { ProductNotificationSettings } from "./NotificationSettingsModal"
 import { useIsMobile } from "@/hooks/use-mobile"
+import { useToast } from "@/hooks/use-toast"
 import { cn } from "@/lib/utils"
 
 
@@ -40,6 +43,7 @@ export default function Dashboard() {
   const [showNotifications, setShowNotifications] = useState(false)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [accessError, setAccessError] = useState<ApiError | null>(null)
   
   // State for Edit and History modals
   const [editProduct, setEditProduct] = useState<Product | null>(null)
@@ -103,10 +107,32 @@ export default function Dashboard() {
   }, [dataProvider, isReady])
 
   // Use shared notifications context
-  const { notifications, addNotification, markAsRead, markAllAsRead } = useNotifications()
+  const { notifications, addNotification, markAsRead, markAllAsRead, subscribe } = useNotifications()
+  const { toast } = useToast()
   
   const unreadNotificationCount = notifications.filter(n => !n.read).length
 
+  // Tell the user when a retailer blocking checks pauses all of its products, and when they resume
+  useEffect(() => subscribe((event) => {
+    if (event.type !== 'circuit_breaker') return
+    const retailer = event.platform.charAt(0).toUpperCase() + event.platform.slice(1)
+    const products = `${event.products} ${event.products === 1 ? 'product' : 'products'}`
+
+    if (event.state === 'open') {
+      const retry = event.retryAt ? ` Checks will be retried at ${new Date(event.retryAt).toLocaleTimeString()}.` : ''
+      toast({
+        title: `${retailer} Checks Paused`,
+        description: `${retailer} is blocking requests, so checks for your ${products} are paused.${retry}`,
+        variant: "destructive",
+      })
+    } else if (event.state === 'closed') {
+      toast({
+        title: `${retailer} Checks Resumed`,
+        description: `${retailer} is answering again; checks for your ${products} have resumed.`,
+      })
+    }
+  }), [subscribe, toast])
+
   // Update filtered products when products change
   useEffect(() => {
     filterProducts(searchQuery, {})
@@ -130,7 +156,14 @@ export default function Dashboard() {
       console.log('[Dashboard] Product added successfully')
     } catch (err) {
       console.error('[Dashboard] Failed to add product:', err)
-      setError(err instanceof Error ? err.message : 'Failed to add product')
+      // Plan limits and account restrictions come back as structured 402/403 errors
+      const apiError = err as ApiError
+      if (apiError?.status === 402 || apiError?.status === 403) {
+        setShowAddForm(false)
+        setAccessError(apiError)
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to add product')
+      }
     } finally {
       setLoading(false)
     }
@@ -306,7 +339,7 @@ export default function Dashboard() {
     }
   }
 
-  const handleNotificationSettingsChange = async (productId: string, notificationSettings: { notifyForStock: boolean; notifyForPrice: boolean }) => {
+  const handleNotificationSettingsChange = async (productId: string, notificationSettings: ProductNotificationSettings) => {
     console.log('Updating notification settings for product:', productId, notificationSettings)
     await handleUpdateProduct(productId, notificationSettings)
   }
@@ -464,6 +497,18 @@ export default function Dashboard() {
           </Suspense>
         )}
 
+        {/* Plan limit / access restriction */}
+        {accessError && (
+          <Dialog open={!!accessError} onOpenChange={(open) => { if (!open) setAccessError(null) }}>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>Unable to Add Product</DialogTitle>
+              </DialogHeader>
+              <AccessControl error={accessError} />
+            </DialogContent>
+          </Dialog>
+        )}
+
         {/* Stock Alert Modal */}
         {stockAlert && (
           <Suspense fallback={null}>
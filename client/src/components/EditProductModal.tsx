@@ -7,12 +7,13 @@ import { Switch } from "@/components/ui/switch"
 import { Badge } from "@/components/ui/badge"
 import { ExternalLink, Save, X } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import type { RetailerId } from "@shared/retailers"
 
 interface Product {
   id: string
   name: string
   url: string
-  platform: "amazon" | "walmart"
+  platform: RetailerId
   currentPrice?: number
   previousPrice?: number
   status: "in-stock" | "out-of-stock" | "low-stock" | "unknown"
@@ -168,7 +168,7 @@ export default function NotificationHistory({
             <Button
               variant="outline"
               size="sm"
-              onClick={markAllAsRead}
+              onClick={() => markAllAsRead()}
               className="mt-2 w-fit"
             >
               Mark All Read
@@ -4,28 +4,54 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent, CardHeader } from "@/components/ui/card"
-import { Settings, Bell, DollarSign, Package } from "lucide-react"
+import { Settings, Bell, DollarSign, Package, Timer } from "lucide-react"
 import { cn } from "@/lib/utils"
+import type { RetailerId } from "@shared/retailers"
+import type { AlertRules } from "@shared/schema"
 
 interface Product {
   id: string
   name: string
   url: string
-  platform: "amazon" | "walmart"
+  platform: RetailerId
   currentPrice?: number
   previousPrice?: number
   status: "in-stock" | "out-of-stock" | "low-stock" | "unknown"
   lastChecked: Date
   notifyForStock: boolean
   notifyForPrice: boolean
+  alertRules?: AlertRules
+}
+
+export interface ProductNotificationSettings {
+  notifyForStock: boolean
+  notifyForPrice: boolean
+  alertRules: AlertRules
 }
 
 interface NotificationSettingsModalProps {
   isOpen: boolean
   product: Product | null
   onClose: () => void
-  onSave: (productId: string, settings: { notifyForStock: boolean; notifyForPrice: boolean }) => void
+  onSave: (productId: string, settings: ProductNotificationSettings) => void
+}
+
+const COOLDOWN_OPTIONS = [
+  { minutes: 0, label: "No cooldown" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 6 * 60, label: "6 hours" },
+  { minutes: 24 * 60, label: "24 hours" },
+  { minutes: 7 * 24 * 60, label: "1 week" }
+]
+
+// Empty input means "no rule"; anything else must be a positive number
+function parseRuleNumber(value: string): number | undefined | null {
+  if (!value.trim()) return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
 }
 
 export default function NotificationSettingsModal({ 
@@ -36,26 +62,49 @@ export default function NotificationSettingsModal({
 }: NotificationSettingsModalProps) {
   const [notifyForStock, setNotifyForStock] = useState(false)
   const [notifyForPrice, setNotifyForPrice] = useState(false)
+  const [targetPrice, setTargetPrice] = useState("")
+  const [minDropPercent, setMinDropPercent] = useState("")
+  const [restockSellerOnly, setRestockSellerOnly] = useState(false)
+  const [cooldownMinutes, setCooldownMinutes] = useState(0)
+
+  const resetFromProduct = (source: Product) => {
+    const rules = source.alertRules ?? {}
+    setNotifyForStock(source.notifyForStock)
+    setNotifyForPrice(source.notifyForPrice)
+    setTargetPrice(rules.targetPrice?.toString() ?? "")
+    setMinDropPercent(rules.minDropPercent?.toString() ?? "")
+    setRestockSellerOnly(rules.restockSellerOnly ?? false)
+    setCooldownMinutes(rules.cooldownMinutes ?? 0)
+  }
 
   // Synchronize state when product changes or modal opens
   useEffect(() => {
     if (product) {
-      setNotifyForStock(product.notifyForStock)
-      setNotifyForPrice(product.notifyForPrice)
+      resetFromProduct(product)
     }
-  }, [product?.id, product?.notifyForStock, product?.notifyForPrice, isOpen])
+  }, [product?.id, product?.notifyForStock, product?.notifyForPrice, product?.alertRules, isOpen])
 
   if (!product) return null
 
+  const parsedTargetPrice = parseRuleNumber(targetPrice)
+  const parsedDropPercent = parseRuleNumber(minDropPercent)
+  const targetPriceInvalid = parsedTargetPrice === null
+  const dropPercentInvalid = parsedDropPercent === null || (parsedDropPercent !== undefined && (parsedDropPercent < 1 || parsedDropPercent > 100))
+
   const handleSave = () => {
-    onSave(product.id, { notifyForStock, notifyForPrice })
+    const alertRules: AlertRules = {}
+    if (parsedTargetPrice) alertRules.targetPrice = parsedTargetPrice
+    if (parsedDropPercent) alertRules.minDropPercent = parsedDropPercent
+    if (restockSellerOnly) alertRules.restockSellerOnly = true
+    if (cooldownMinutes > 0) alertRules.cooldownMinutes = cooldownMinutes
+
+    onSave(product.id, { notifyForStock, notifyForPrice, alertRules })
     onClose()
   }
 
   const handleCancel = () => {
     // Reset to original values
-    setNotifyForStock(product.notifyForStock)
-    setNotifyForPrice(product.notifyForPrice)
+    resetFromProduct(product)
     onClose()
   }
 
@@ -122,6 +171,19 @@ export default function NotificationSettingsModal({
                   data-testid="switch-notify-stock"
                 />
               </div>
+              {notifyForStock && (
+                <div className="flex items-center justify-between pl-6">
+                  <Label htmlFor="restock-seller-only" className="text-sm text-muted-foreground font-normal">
+                    Only when sold by {config.label}
+                  </Label>
+                  <Switch
+                    id="restock-seller-only"
+                    checked={restockSellerOnly}
+                    onCheckedChange={setRestockSellerOnly}
+                    data-testid="switch-restock-seller-only"
+                  />
+                </div>
+              )}
             </div>
 
             {/* Price Notifications */}
@@ -145,6 +207,73 @@ export default function NotificationSettingsModal({
                   data-testid="switch-notify-price"
                 />
               </div>
+              {notifyForPrice && (
+                <div className="space-y-3 pl-6">
+                  <div className="flex items-center justify-between gap-3">
+                    <Label htmlFor="target-price" className="text-sm text-muted-foreground font-normal">
+                      Price at or below ($)
+                    </Label>
+                    <Input
+                      id="target-price"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Any price"
+                      value={targetPrice}
+                      onChange={(e) => setTargetPrice(e.target.value)}
+                      className={cn("w-28", targetPriceInvalid && "border-destructive")}
+                      data-testid="input-target-price"
+                    />
+                  </div>
+                  <div className="flex items-center justify-between gap-3">
+                    <Label htmlFor="min-drop-percent" className="text-sm text-muted-foreground font-normal">
+                      Drop from 30-day low (%)
+                    </Label>
+                    <Input
+                      id="min-drop-percent"
+                      type="number"
+                      min="1"
+                      max="100"
+                      step="1"
+                      placeholder="Any drop"
+                      value={minDropPercent}
+                      onChange={(e) => setMinDropPercent(e.target.value)}
+                      className={cn("w-28", dropPercentInvalid && "border-destructive")}
+                      data-testid="input-min-drop-percent"
+                    />
+                  </div>
+                  {(targetPriceInvalid || dropPercentInvalid) && (
+                    <p className="text-xs text-destructive">
+                      Enter a positive price and a drop between 1 and 100%
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Cooldown */}
+            <div className="space-y-3">
+              <div className="flex items-center space-x-2">
+                <Timer className="w-4 h-4 text-muted-foreground" />
+                <Label htmlFor="alert-cooldown" className="text-sm font-medium">
+                  Alert Cooldown
+                </Label>
+              </div>
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-sm text-muted-foreground flex-1">
+                  Minimum time between alerts for this product
+                </p>
+                <Select value={String(cooldownMinutes)} onValueChange={(value) => setCooldownMinutes(Number(value))}>
+                  <SelectTrigger id="alert-cooldown" className="w-32" data-testid="select-alert-cooldown">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COOLDOWN_OPTIONS.map(option => (
+                      <SelectItem key={option.minutes} value={String(option.minutes)}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
             {/* Notification Status */}
@@ -172,6 +301,7 @@ export default function NotificationSettingsModal({
           </Button>
           <Button 
             onClick={handleSave}
+            disabled={targetPriceInvalid || dropPercentInvalid}
             data-testid="button-save-settings"
           >
             Save Settings
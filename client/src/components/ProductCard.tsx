@@ -5,16 +5,18 @@ import { Badge } from "@/components/ui/badge"
 import { ExternalLink, Edit, Trash2, Clock, TrendingDown, Settings } from "lucide-react"
 import StatusBadge from "./StatusBadge"
 import PriceDisplay from "./PriceDisplay"
-import NotificationSettingsModal from "./NotificationSettingsModal"
+import NotificationSettingsModal, { type ProductNotificationSettings } from "./NotificationSettingsModal"
 import { cn } from "@/lib/utils"
 import { formatTimeAgo } from "@/utils/timeUtils"
 import { useIsMobile } from "@/hooks/use-mobile"
+import type { RetailerId } from "@shared/retailers"
+import type { AlertRules } from "@shared/schema"
 
 interface ProductCardProps {
   id: string
   name: string
   url: string
-  platform: "amazon" | "walmart"
+  platform: RetailerId
   currentPrice?: number
   previousPrice?: number
   status: "in-stock" | "out-of-stock" | "low-stock" | "unknown"
@@ -22,10 +24,11 @@ interface ProductCardProps {
   priceHistory?: Array<{ price: number; date: Date }>
   notifyForStock: boolean
   notifyForPrice: boolean
+  alertRules?: AlertRules
   onEdit?: (id: string) => void
   onDelete?: (id: string) => void
   onViewHistory?: (id: string) => void
-  onNotificationSettingsChange?: (id: string, settings: { notifyForStock: boolean; notifyForPrice: boolean }) => void
+  onNotificationSettingsChange?: (id: string, settings: ProductNotificationSettings) => void
 }
 
 export default function ProductCard({
@@ -39,6 +42,7 @@ export default function ProductCard({
   lastChecked,
   notifyForStock,
   notifyForPrice,
+  alertRules,
   onEdit,
   onDelete,
   onViewHistory,
@@ -88,7 +92,7 @@ export default function ProductCard({
     setShowNotificationSettings(true)
   }
   
-  const handleNotificationSettingsChange = (productId: string, settings: { notifyForStock: boolean; notifyForPrice: boolean }) => {
+  const handleNotificationSettingsChange = (productId: string, settings: ProductNotificationSettings) => {
     console.log(`Updating notification settings for ${productId}:`, settings)
     onNotificationSettingsChange?.(productId, settings)
   }
@@ -104,7 +108,8 @@ export default function ProductCard({
     status,
     lastChecked: lastChecked || new Date(),
     notifyForStock,
-    notifyForPrice
+    notifyForPrice,
+    alertRules
   }
 
   // Platform-specific styling
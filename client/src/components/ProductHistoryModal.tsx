@@ -1,3 +1,4 @@
+import { useEffect, useState } from "react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -5,17 +6,23 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
 import { TrendingDown, TrendingUp, Minus, ExternalLink, Calendar, DollarSign, Package } from "lucide-react"
 import { format, isToday, isYesterday, differenceInDays } from "date-fns"
+import { ResponsiveContainer, ComposedChart, Area, Line, XAxis, YAxis, Tooltip, CartesianGrid } from "recharts"
+import { useDataProvider } from "@/contexts/DataProviderContext"
+import { useDesktopAuth } from "@/contexts/DesktopAuthContext"
+import type { ProductHistory } from "@/lib/dataProvider"
+import { fetchProductHistory } from "@/lib/productHistory"
+import type { ApiError } from "@/lib/queryClient"
+import type { RetailerId } from "@shared/retailers"
 
 interface Product {
   id: string
   name: string
   url: string
-  platform: "amazon" | "walmart"
+  platform: RetailerId
   currentPrice?: number
   previousPrice?: number
   status: "in-stock" | "out-of-stock" | "low-stock" | "unknown"
   lastChecked: Date
-  priceHistory?: Array<{ price: number; date: Date }>
   notifyForStock: boolean
   notifyForPrice: boolean
 }
@@ -26,7 +33,54 @@ interface ProductHistoryModalProps {
   product: Product | null
 }
 
+const HISTORY_RANGES = {
+  "24h": { label: "24 Hours", days: 1 },
+  "7d": { label: "7 Days", days: 7 },
+  "30d": { label: "30 Days", days: 30 }
+} as const
+
+type HistoryRange = keyof typeof HISTORY_RANGES
+
 export default function ProductHistoryModal({ isOpen, onClose, product }: ProductHistoryModalProps) {
+  const { dataProvider } = useDataProvider()
+  const { isAuthenticated } = useDesktopAuth()
+  const [range, setRange] = useState<HistoryRange>("7d")
+  const [history, setHistory] = useState<ProductHistory | null>(null)
+  const [historyLoading, setHistoryLoading] = useState(false)
+  const [historyError, setHistoryError] = useState<string | null>(null)
+
+  // Load history whenever the product or selected range changes
+  useEffect(() => {
+    if (!isOpen || !product || !dataProvider) return
+
+    let cancelled = false
+    const to = new Date()
+    const from = new Date(to.getTime() - HISTORY_RANGES[range].days * 24 * 60 * 60 * 1000)
+
+    setHistoryLoading(true)
+    setHistoryError(null)
+    // Signed in, the history is what the server recorded; products it doesn't monitor
+    // (local or demo ones) keep the data provider's history
+    const request = isAuthenticated
+      ? fetchProductHistory(product.id, { from, to }).catch(err => {
+          if ((err as ApiError).status === 404) return dataProvider.getProductHistory(product.id, { from, to })
+          throw err
+        })
+      : dataProvider.getProductHistory(product.id, { from, to })
+    request
+      .then(result => {
+        if (!cancelled) setHistory(result)
+      })
+      .catch(err => {
+        console.error('[ProductHistoryModal] Failed to load history:', err)
+        if (!cancelled) setHistoryError(err instanceof Error ? err.message : 'Failed to load history')
+      })
+      .finally(() => {
+        if (!cancelled) setHistoryLoading(false)
+      })
+
+    return () => { cancelled = true }
+  }, [isOpen, product?.id, dataProvider, range, isAuthenticated])
   
   const formatRelativeDate = (date: Date) => {
     if (isToday(date)) {
@@ -95,13 +149,18 @@ export default function ProductHistoryModal({ isOpen, onClose, product }: Produc
 
   if (!product) return null
 
-  // Generate mock history data if not available
-  const mockHistory = [
-    { price: product.currentPrice || 89.99, date: new Date(), status: product.status },
-    { price: product.previousPrice || 119.99, date: new Date(Date.now() - 24 * 60 * 60 * 1000), status: 'in-stock' },
-    { price: 109.99, date: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000), status: 'in-stock' },
-    { price: 129.99, date: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), status: 'in-stock' }
-  ].filter(item => item.price)
+  // Timeline shows successful checks with a known price, newest first
+  const timeline = (history?.entries || [])
+    .filter((entry): entry is typeof entry & { price: number } => entry.success && entry.price !== null)
+    .slice(0, 20)
+
+  const chartData = (history?.buckets || [])
+    .filter(bucket => bucket.avgPrice !== null)
+    .map(bucket => ({
+      label: format(bucket.bucketStart, history?.bucket === 'hour' ? 'MMM d, ha' : 'MMM d'),
+      avg: bucket.avgPrice,
+      range: [bucket.minPrice, bucket.maxPrice]
+    }))
 
   const currentPrice = product.currentPrice || 0
   const previousPrice = product.previousPrice || 0
@@ -185,6 +244,55 @@ export default function ProductHistoryModal({ isOpen, onClose, product }: Produc
             </CardContent>
           </Card>
 
+          {/* Price Chart */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <TrendingDown className="w-5 h-5" />
+                  Price Trend
+                </CardTitle>
+                <div className="flex gap-1">
+                  {(Object.keys(HISTORY_RANGES) as HistoryRange[]).map(key => (
+                    <Button
+                      key={key}
+                      variant={range === key ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setRange(key)}
+                      data-testid={`button-history-range-${key}`}
+                    >
+                      {HISTORY_RANGES[key].label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {historyLoading ? (
+                <p className="text-sm text-muted-foreground text-center py-8">Loading history...</p>
+              ) : historyError ? (
+                <p className="text-sm text-destructive text-center py-8">{historyError}</p>
+              ) : chartData.length > 1 ? (
+                <div className="h-48" data-testid="chart-price-history">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                      <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                      <YAxis tick={{ fontSize: 11 }} domain={['auto', 'auto']} tickFormatter={(value: number) => `$${value}`} />
+                      <Tooltip formatter={(value: number | number[]) => Array.isArray(value) ? `$${value[0]} - $${value[1]}` : `$${value}`} />
+                      <Area type="monotone" dataKey="range" name="Min / Max" fill="#3b82f6" fillOpacity={0.15} stroke="none" />
+                      <Line type="monotone" dataKey="avg" name="Average" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  Not enough data to chart this range yet.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
           {/* History Timeline */}
           <Card>
             <CardHeader>
@@ -194,17 +302,17 @@ export default function ProductHistoryModal({ isOpen, onClose, product }: Produc
               </CardTitle>
             </CardHeader>
             <CardContent>
-              {mockHistory.length > 0 ? (
+              {timeline.length > 0 ? (
                 <div className="space-y-4">
-                  {mockHistory.map((entry, index) => (
-                    <div key={index}>
+                  {timeline.map((entry, index) => (
+                    <div key={entry.id}>
                       <div className="flex items-center justify-between py-3">
                         <div className="flex items-center gap-3">
                           <div className="w-2 h-2 bg-blue-500 rounded-full" />
                           <div>
                             <p className="font-medium">${entry.price.toFixed(2)}</p>
                             <p className="text-sm text-muted-foreground">
-                              {formatRelativeDate(entry.date)}
+                              {formatRelativeDate(entry.timestamp)}
                             </p>
                           </div>
                         </div>
@@ -212,12 +320,12 @@ export default function ProductHistoryModal({ isOpen, onClose, product }: Produc
                           <Badge className={getStatusColor(entry.status)}>
                             {entry.status}
                           </Badge>
-                          {index < mockHistory.length - 1 && (
+                          {index < timeline.length - 1 && (
                             <div className="flex items-center gap-1">
-                              {getPriceChangeIcon(entry.price, mockHistory[index + 1].price)}
+                              {getPriceChangeIcon(entry.price, timeline[index + 1].price)}
                               <span className="text-xs text-muted-foreground">
                                 {(() => {
-                                  const { change } = getPriceChange(entry.price, mockHistory[index + 1].price)
+                                  const { change } = getPriceChange(entry.price, timeline[index + 1].price)
                                   return `${change > 0 ? '+' : ''}$${change.toFixed(2)}`
                                 })()}
                               </span>
@@ -225,7 +333,7 @@ export default function ProductHistoryModal({ isOpen, onClose, product }: Produc
                           )}
                         </div>
                       </div>
-                      {index < mockHistory.length - 1 && <Separator />}
+                      {index < timeline.length - 1 && <Separator />}
                     </div>
                   ))}
                 </div>
@@ -14,7 +14,7 @@ import { Separator } from "@/components/ui/separator"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Settings as SettingsIcon, Volume2, Mail, Shield, HelpCircle, Play, Send, Loader2, Download, Minus, AlertTriangle, Info, FolderOpen, Cog, Clock, Bot, Zap, RotateCcw, Timer, Globe, Shuffle } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
-import { apiRequest, queryClient } from "@/lib/queryClient"
+import { apiRequest, queryClient, type ApiError } from "@/lib/queryClient"
 import { audioPlayer } from "@/utils/audioPlayer"
 import { isDesktopApp } from "@/utils/env"
 import { Settings as SettingsData, UpdateSettings } from "@shared/schema"
@@ -89,6 +89,7 @@ export default function Settings({ isOpen, onClose, onDemoStock, onDemoPrice }:
     gmailAppPassword: '',
     // Application Behavior Settings
     enableTaskTray: false,
+    enableWorkerThreads: false,
     // Proxy Settings
     enableProxy: false,
     proxyUrl: '',
@@ -109,6 +110,7 @@ export default function Settings({ isOpen, onClose, onDemoStock, onDemoPrice }:
     maxRequestDelay: 5000,
     enableExponentialBackoff: true,
     maxBackoffDelay: 300000,
+    requestBudgetRpm: 30,
     // Header Randomization Settings
     enableHeaderRandomization: true,
     enableAcceptLanguageVariation: true,
@@ -200,34 +202,21 @@ export default function Settings({ isOpen, onClose, onDemoStock, onDemoPrice }:
     setEmailTestResult(null)
     
     try {
-      // No need to send credentials - the API will use stored encrypted settings
-      const response = await fetch('/api/test-email', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({}) // Empty body - API uses stored settings
-      })
-      
-      const result = await response.json()
+      // No need to send credentials - the API uses the signed-in user's stored encrypted settings
+      await apiRequest('POST', '/api/test-email', {})
       
-      if (response.ok) {
-        setEmailTestResult("Test email sent successfully!")
-        toast({
-          title: "Email test successful",
-          description: "Check your inbox for the test email.",
-        })
-      } else {
-        setEmailTestResult(`Error: ${result.error}`)
-        toast({
-          title: "Email test failed",
-          description: result.error,
-          variant: "destructive",
-        })
-      }
+      setEmailTestResult("Test email sent successfully!")
+      toast({
+        title: "Email test successful",
+        description: "Check your inbox for the test email.",
+      })
     } catch (error) {
-      setEmailTestResult("Failed to test email settings")
+      // apiRequest errors carry the HTTP status; anything else is a network failure
+      const apiError = error as ApiError
+      setEmailTestResult(apiError.status ? `Error: ${apiError.message}` : "Failed to test email settings")
       toast({
         title: "Email test failed",
-        description: "Network error while testing email.",
+        description: apiError.status ? apiError.message : "Network error while testing email.",
         variant: "destructive",
       })
     } finally {
@@ -1116,6 +1105,20 @@ export default function Settings({ isOpen, onClose, onDemoStock, onDemoPrice }:
                       data-testid="switch-task-tray"
                     />
                   </div>
+
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-1">
+                      <Label className="text-sm font-medium">Use Worker Threads</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Parse product pages in background threads (falls back to the main thread if workers are unhealthy)
+                      </p>
+                    </div>
+                    <Switch
+                      checked={settings.enableWorkerThreads || false}
+                      onCheckedChange={(checked) => handleSettingChange('enableWorkerThreads', checked)}
+                      data-testid="switch-worker-threads"
+                    />
+                  </div>
                   
                   <div className="space-y-2">
                     <h4 className="font-medium text-sm">Data Storage</h4>
@@ -1216,6 +1219,35 @@ export default function Settings({ isOpen, onClose, onDemoStock, onDemoPrice }:
                             </Select>
                           </div>
                         </div>
+
+                        <div className="space-y-3">
+                          <div className="flex items-center justify-between">
+                            <Label htmlFor="request-budget-rpm" className="text-sm font-medium">
+                              Retailer Requests per Minute
+                            </Label>
+                            <Badge variant="secondary" className="text-xs">
+                              {settings?.requestBudgetRpm || 30}/min
+                            </Badge>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Most requests sent to one retailer per minute (per proxy), shared by checks and searches. Extra requests wait their turn.
+                          </p>
+                          <Select 
+                            value={settings?.requestBudgetRpm?.toString() || "30"} 
+                            onValueChange={(value) => handleSettingChange('requestBudgetRpm', parseInt(value))}
+                          >
+                            <SelectTrigger id="request-budget-rpm" data-testid="select-request-budget-rpm">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="10">10 per minute (Conservative)</SelectItem>
+                              <SelectItem value="20">20 per minute (Safe)</SelectItem>
+                              <SelectItem value="30">30 per minute (Normal)</SelectItem>
+                              <SelectItem value="60">60 per minute (Fast)</SelectItem>
+                              <SelectItem value="120">120 per minute (Aggressive)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
                       </div>
 
                       <Separator />
@@ -4,12 +4,13 @@ import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardHeader } from "@/components/ui/card"
 import { ExternalLink, Package, X } from "lucide-react"
 import { cn } from "@/lib/utils"
+import type { RetailerId } from "@shared/retailers"
 
 interface Product {
   id: string
   name: string
   url: string
-  platform: "amazon" | "walmart"
+  platform: RetailerId
   currentPrice?: number
 }
 
@@ -1,4 +1,10 @@
-import { createContext, useContext, useState, ReactNode } from 'react'
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react'
+import type { RetailerId } from '@shared/retailers'
+import type { MonitoringEvent } from '@shared/monitoring-events'
+import { connectMonitoringEvents, type EventStreamStatus } from '@/lib/monitoringEvents'
+import { fetchNotifications, markAllNotificationsRead, markNotificationRead, NOTIFICATIONS_URL } from '@/lib/notifications'
+import { queryClient } from '@/lib/queryClient'
+import { useDesktopAuth } from '@/contexts/DesktopAuthContext'
 
 // Shared Notification interface
 export interface Notification {
@@ -6,7 +12,7 @@ export interface Notification {
   type: "price_drop" | "stock_alert"
   productId: string
   productName: string
-  platform: "amazon" | "walmart"
+  platform: RetailerId
   timestamp: Date
   data: {
     // For price drops
@@ -24,11 +30,17 @@ export interface Notification {
   read: boolean
 }
 
+type MonitoringEventListener = (event: MonitoringEvent) => void
+
 interface NotificationsContextType {
   notifications: Notification[]
+  connectionStatus: EventStreamStatus
   addNotification: (notification: Notification) => void
-  markAsRead: (notificationId: string) => void
-  markAllAsRead: () => void
+  // stored: the notification is a server row, even if it isn't among the recent ones held here
+  markAsRead: (notificationId: string, stored?: boolean) => void
+  markAllAsRead: (stored?: boolean) => void
+  // Listen to every pushed event, including check failures and anti-bot detections
+  subscribe: (listener: MonitoringEventListener) => () => void
 }
 
 const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined)
@@ -41,112 +53,156 @@ export const useNotifications = () => {
   return context
 }
 
-// Initial mock notifications for demo
-const initialNotifications: Notification[] = [
-  {
-    id: "1",
-    type: "price_drop",
-    productId: "1",
-    productName: "Wireless Bluetooth Headphones",
-    platform: "amazon",
-    timestamp: new Date(Date.now() - 30 * 60 * 1000),
-    data: {
-      currentPrice: 89.99,
-      previousPrice: 119.99,
-      savings: 30,
-      discountPercent: 25,
-      productUrl: "https://amazon.com/product/123"
-    },
-    read: false
-  },
-  {
-    id: "2",
-    type: "stock_alert",
-    productId: "6",
-    productName: "Wireless Phone Charger",
-    platform: "walmart",
-    timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000),
-    data: {
-      inStock: true,
-      productUrl: "https://walmart.com/product/303"
-    },
+// Turn a pushed monitoring event into a notification history entry.
+// Only price drops and restocks are user-facing notifications.
+function toNotification(event: MonitoringEvent): Notification | null {
+  // Paused/resumed platform checks are shown as toasts, not kept in the history
+  if (event.type === 'circuit_breaker') return null
+  // The product's alert rules filtered this event out
+  if ('alert' in event && event.alert === false) return null
+
+  const base = {
+    // Prefer the stored row's id so read state can be synced with the server
+    id: ('notificationId' in event && event.notificationId) || event.id,
+    productId: event.productId,
+    productName: event.productName,
+    platform: event.platform,
+    timestamp: new Date(event.timestamp),
     read: false
-  },
-  {
-    id: "3",
-    type: "price_drop",
-    productId: "2",
-    productName: "Smart Fitness Tracker",
-    platform: "amazon", 
-    timestamp: new Date(Date.now() - 5 * 60 * 60 * 1000),
-    data: {
-      currentPrice: 79.99,
-      previousPrice: 99.99,
-      savings: 20,
-      discountPercent: 20,
-      productUrl: "https://amazon.com/product/456"
-    },
-    read: true
-  },
-  {
-    id: "4",
-    type: "stock_alert",
-    productId: "7",
-    productName: "Portable Bluetooth Speaker",
-    platform: "walmart",
-    timestamp: new Date(Date.now() - 8 * 60 * 60 * 1000),
-    data: {
-      inStock: true,
-      productUrl: "https://walmart.com/product/789"
-    },
-    read: true
-  },
-  {
-    id: "5",
-    type: "price_drop",
-    productId: "3",
-    productName: "USB-C Cable 3-Pack",
-    platform: "amazon",
-    timestamp: new Date(Date.now() - 12 * 60 * 60 * 1000),
-    data: {
-      currentPrice: 19.99,
-      previousPrice: 29.99,
-      savings: 10,
-      discountPercent: 33,
-      productUrl: "https://amazon.com/product/789"
-    },
-    read: true
   }
-]
+
+  if (event.type === 'price_drop') {
+    return {
+      ...base,
+      type: 'price_drop',
+      data: {
+        currentPrice: event.currentPrice,
+        previousPrice: event.previousPrice,
+        savings: event.savings,
+        discountPercent: event.discountPercent,
+        productUrl: event.productUrl
+      }
+    }
+  }
+
+  if (event.type === 'stock_change' && event.inStock && event.previousStatus === 'out-of-stock') {
+    return {
+      ...base,
+      type: 'stock_alert',
+      data: {
+        inStock: true,
+        productUrl: event.productUrl
+      }
+    }
+  }
+
+  return null
+}
+
+// How many recent notifications are kept in memory; older ones are paged in by the history page
+const SYNC_LIMIT = 50
 
 interface NotificationsProviderProps {
   children: ReactNode
 }
 
 export const NotificationsProvider = ({ children }: NotificationsProviderProps) => {
-  const [notifications, setNotifications] = useState<Notification[]>(initialNotifications)
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [connectionStatus, setConnectionStatus] = useState<EventStreamStatus>('closed')
+  const listenersRef = useRef(new Set<MonitoringEventListener>())
+  // Ids of notifications stored on the server; everything else is local-only (demo alerts)
+  const serverIdsRef = useRef(new Set<string>())
+  const { isAuthenticated } = useDesktopAuth()
+
+  // Replace server-backed entries with the latest page from the server, keeping local-only ones
+  const syncFromServer = useCallback(async () => {
+    try {
+      const page = await fetchNotifications({ limit: SYNC_LIMIT })
+      page.notifications.forEach(n => serverIdsRef.current.add(n.id))
+      setNotifications(prev => {
+        const localOnly = prev.filter(n => !serverIdsRef.current.has(n.id))
+        return [...page.notifications, ...localOnly].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      })
+    } catch (error) {
+      // Signed out or offline: keep whatever is held locally
+      console.warn('[Notifications] Could not load notification history:', error)
+    }
+  }, [])
+
+  // Subscribe to server-pushed monitoring events; reconnects when the user signs in or out
+  useEffect(() => {
+    const disconnect = connectMonitoringEvents({
+      onEvent: (event) => {
+        const notification = toNotification(event)
+        if (notification) {
+          if ('notificationId' in event && event.notificationId) {
+            serverIdsRef.current.add(event.notificationId)
+            queryClient.invalidateQueries({ queryKey: [NOTIFICATIONS_URL] })
+          }
+          setNotifications(prev => prev.some(n => n.id === notification.id) ? prev : [notification, ...prev])
+        }
+        listenersRef.current.forEach(listener => listener(event))
+      },
+      onStatusChange: (status) => {
+        setConnectionStatus(status)
+        // (Re)connected: pick up anything missed and read state changed on other devices
+        if (status === 'open') {
+          syncFromServer()
+        }
+      }
+    })
+    return disconnect
+  }, [isAuthenticated, syncFromServer])
+
+  // Read state may have changed on another device while this window was in the background
+  useEffect(() => {
+    if (connectionStatus !== 'open') return
+    window.addEventListener('focus', syncFromServer)
+    return () => window.removeEventListener('focus', syncFromServer)
+  }, [connectionStatus, syncFromServer])
+
+  const subscribe = useCallback((listener: MonitoringEventListener) => {
+    listenersRef.current.add(listener)
+    return () => {
+      listenersRef.current.delete(listener)
+    }
+  }, [])
 
   const addNotification = (notification: Notification) => {
     setNotifications(prev => [notification, ...prev])
   }
 
-  const markAsRead = (notificationId: string) => {
+  const markAsRead = (notificationId: string, stored = false) => {
     setNotifications(prev => prev.map(n => 
       n.id === notificationId ? { ...n, read: true } : n
     ))
+
+    if (stored || serverIdsRef.current.has(notificationId)) {
+      markNotificationRead(notificationId)
+        .then(() => queryClient.invalidateQueries({ queryKey: [NOTIFICATIONS_URL] }))
+        .catch(error => console.warn('[Notifications] Failed to mark notification as read:', error))
+    }
   }
 
-  const markAllAsRead = () => {
+  const markAllAsRead = (stored = false) => {
     setNotifications(prev => prev.map(n => ({ ...n, read: true })))
+
+    if (stored || serverIdsRef.current.size > 0) {
+      markAllNotificationsRead()
+        .then(() => queryClient.invalidateQueries({ queryKey: [NOTIFICATIONS_URL] }))
+        .catch(error => console.warn('[Notifications] Failed to mark notifications as read:', error))
+    }
   }
 
   return (
     <NotificationsContext.Provider
       value={{
         notifications,
+        connectionStatus,
         addNotification,
         markAsRead,
-        markAllAsRead
+        markAllAsRead,
+        subscribe
       }}
     >
       {children}
@@ -1,26 +1,64 @@
+import type { RetailerId } from "@shared/retailers"
+import type { AlertRules } from "@shared/schema"
+
 // Data Provider Interface - defines common operations for both web demo and desktop app
 
 export interface Product {
   id: string
   name: string
   url: string
-  platform: "amazon" | "walmart"
+  platform: RetailerId
   currentPrice?: number
   previousPrice?: number
   status: "in-stock" | "out-of-stock" | "low-stock" | "unknown"
   lastChecked: Date
   notifyForStock: boolean
   notifyForPrice: boolean
+  alertRules?: AlertRules
   asin?: string
 }
 
 export interface ProductInput {
   name: string
   url: string
-  platform: "amazon" | "walmart"
+  platform: RetailerId
   asin?: string
 }
 
+export type HistoryBucket = "hour" | "day"
+
+export interface ProductHistoryQuery {
+  from?: Date
+  to?: Date
+  bucket?: HistoryBucket
+}
+
+// A single monitoring check
+export interface ProductHistoryEntry {
+  id: string
+  timestamp: Date
+  price: number | null
+  status: Product["status"]
+  success: boolean
+}
+
+// Min/max/avg price over one hour or day
+export interface ProductHistoryBucket {
+  bucketStart: Date
+  minPrice: number | null
+  maxPrice: number | null
+  avgPrice: number | null
+  checks: number
+  inStockChecks: number
+}
+
+export interface ProductHistory {
+  productId: string
+  bucket: HistoryBucket
+  buckets: ProductHistoryBucket[]
+  entries: ProductHistoryEntry[] // newest first
+}
+
 export interface AppSettings {
   amazonCheckInterval: number // minutes
   walmartCheckInterval: number // minutes
@@ -67,9 +105,9 @@ export interface IDataProvider {
   updateSettings(settings: Partial<AppSettings>): Promise<AppSettings>
 
   /**
-   * Get product price history
+   * Get product price/stock history, aggregated into hourly or daily buckets
    */
-  getProductHistory(productId: string, days?: number): Promise<any[]>
+  getProductHistory(productId: string, query?: ProductHistoryQuery): Promise<ProductHistory>
 
   /**
    * Check if provider is ready/available
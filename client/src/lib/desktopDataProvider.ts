@@ -8,6 +8,17 @@ interface IPCResponse<T = any> {
   error?: string;
 }
 
+// A monitoring_checks row; SQLite returns booleans as 0/1
+interface MonitoringCheckRow {
+  id: string;
+  productId: string;
+  price: number | null;
+  isInStock: number | boolean;
+  success: number | boolean;
+  errorMessage: string | null;
+  checkedAt: string;
+}
+
 interface DesktopAPI {
   database: {
     products: {
@@ -20,7 +31,7 @@ interface DesktopAPI {
     };
     monitoring: {
       addCheck: (productId: string, price: number, isInStock: boolean, success: boolean, errorMessage?: string) => Promise<IPCResponse<{ id: string }>>;
-      getHistory: (productId: string, days?: number) => Promise<IPCResponse<any[]>>;
+      getHistory: (productId: string, days?: number) => Promise<IPCResponse<MonitoringCheckRow[]>>;
       getAllChecks: (limit?: number) => Promise<IPCResponse<any[]>>;
     };
     settings: {
@@ -46,24 +57,21 @@ interface DesktopAPI {
   };
 }
 
-declare global {
-  interface Window {
-    electronAPI?: DesktopAPI;
-  }
-}
-
 /**
  * Check if we're running in desktop environment
  * Note: This function has been moved to @/utils/env for centralized environment detection
  */
 // DEPRECATED: Use isDesktopApp from @/utils/env instead
 import { isDesktopApp } from "@/utils/env";
+import type { ProductHistory, ProductHistoryEntry, ProductHistoryQuery } from "./dataProvider";
+import { aggregateHistory, resolveHistoryQuery } from "./productHistory";
 
 /**
  * Get the desktop API if available
  */
 export function getDesktopAPI(): DesktopAPI | null {
-  return window.electronAPI || null;
+  // Window.electronAPI is declared in @/types/electron; the database bridge is exposed on the same object
+  return (window.electronAPI as unknown as DesktopAPI | undefined) || null;
 }
 
 /**
@@ -134,8 +142,20 @@ export class DesktopDataProvider {
    */
   
   // GET /api/products/:id/history
-  async getProductHistory(productId: string, days: number = 30): Promise<any[]> {
-    return this.safeCall(() => this.api.database.monitoring.getHistory(productId, days));
+  async getProductHistory(productId: string, query?: ProductHistoryQuery): Promise<ProductHistory> {
+    const { from } = resolveHistoryQuery(query);
+    const days = Math.max(1, Math.ceil((Date.now() - from.getTime()) / (24 * 60 * 60 * 1000)));
+    const rows = await this.safeCall(() => this.api.database.monitoring.getHistory(productId, days));
+
+    const entries: ProductHistoryEntry[] = (rows || []).map(row => ({
+      id: String(row.id),
+      timestamp: new Date(row.checkedAt),
+      price: typeof row.price === 'number' ? row.price : null,
+      status: row.success ? (row.isInStock ? 'in-stock' : 'out-of-stock') : 'unknown',
+      success: !!row.success
+    }));
+
+    return aggregateHistory(productId, entries, query);
   }
 
   // POST /api/monitoring/check
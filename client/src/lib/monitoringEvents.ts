@@ -0,0 +1,95 @@
+// Client for the server's /api/events stream of monitoring events.
+// Uses fetch rather than EventSource so desktop clients can send their bearer token.
+
+import type { MonitoringEvent } from '@shared/monitoring-events'
+import { streamRequest } from './queryClient'
+
+export type EventStreamStatus = 'connecting' | 'open' | 'reconnecting' | 'unauthorized' | 'closed'
+
+interface EventStreamHandlers {
+  onEvent: (event: MonitoringEvent) => void
+  onStatusChange?: (status: EventStreamStatus) => void
+}
+
+const EVENTS_URL = '/api/events'
+const MAX_RECONNECT_DELAY = 60 * 1000
+
+// Parse one "event:/data:" frame; comment lines (heartbeats) and retry hints are ignored
+function parseFrame(frame: string): MonitoringEvent | null {
+  const data = frame
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n')
+  if (!data) return null
+
+  try {
+    return JSON.parse(data) as MonitoringEvent
+  } catch {
+    console.warn('[Events] Ignoring malformed event frame')
+    return null
+  }
+}
+
+/**
+ * Connect to the monitoring event stream, reconnecting with exponential backoff
+ * until the returned function is called. Stops for good on 401 (not signed in).
+ */
+export function connectMonitoringEvents({ onEvent, onStatusChange }: EventStreamHandlers): () => void {
+  const controller = new AbortController()
+  let attempt = 0
+
+  const run = async () => {
+    while (!controller.signal.aborted) {
+      onStatusChange?.(attempt === 0 ? 'connecting' : 'reconnecting')
+
+      try {
+        const res = await streamRequest(EVENTS_URL, controller.signal)
+        if (res.status === 401) {
+          onStatusChange?.('unauthorized')
+          return
+        }
+        if (!res.ok || !res.body) {
+          throw new Error(`HTTP ${res.status}`)
+        }
+
+        attempt = 0
+        onStatusChange?.('open')
+
+        const reader = res.body.getReader()
+        const decoder = new TextDecoder()
+        let buffer = ''
+
+        while (true) {
+          const { done, value } = await reader.read()
+          if (done) break
+
+          buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n')
+          let boundary = buffer.indexOf('\n\n')
+          while (boundary !== -1) {
+            const event = parseFrame(buffer.slice(0, boundary))
+            buffer = buffer.slice(boundary + 2)
+            if (event) onEvent(event)
+            boundary = buffer.indexOf('\n\n')
+          }
+        }
+      } catch (error) {
+        if (controller.signal.aborted) break
+        console.warn('[Events] Event stream error:', error)
+      }
+
+      if (controller.signal.aborted) break
+
+      // Stream ended or failed: back off before reconnecting
+      attempt++
+      const delay = Math.min(MAX_RECONNECT_DELAY, 1000 * Math.pow(2, attempt))
+      await new Promise(resolve => setTimeout(resolve, delay))
+    }
+
+    onStatusChange?.('closed')
+  }
+
+  run()
+
+  return () => controller.abort()
+}
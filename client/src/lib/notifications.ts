@@ -0,0 +1,85 @@
+// Client for the server-persisted notification history (GET/PUT /api/notifications).
+// Read state lives on the server so it is shared by every device the user signs in on.
+
+import type { NotificationListResponse, NotificationType, UserNotification } from '@shared/schema'
+import type { RetailerId } from '@shared/retailers'
+import type { Notification } from '@/contexts/NotificationsContext'
+import { apiRequest } from './queryClient'
+
+export const NOTIFICATIONS_URL = '/api/notifications'
+
+export interface NotificationFilters {
+  type?: NotificationType
+  platform?: RetailerId
+  from?: Date
+  to?: Date
+  page?: number
+  limit?: number
+}
+
+export interface NotificationPage {
+  notifications: Notification[]
+  total: number
+  unreadCount: number
+  page: number
+  limit: number
+}
+
+// JSON form of a stored row: timestamps arrive as ISO strings
+type SerializedNotification = Omit<UserNotification, 'createdAt' | 'readAt'> & {
+  createdAt: string
+  readAt: string | null
+}
+
+function fromServer(row: SerializedNotification): Notification {
+  return {
+    id: row.id,
+    type: row.type as NotificationType,
+    productId: row.productId ?? '',
+    productName: row.productName,
+    platform: row.platform as RetailerId,
+    timestamp: new Date(row.createdAt),
+    data: (row.data ?? {}) as Notification['data'],
+    read: row.read
+  }
+}
+
+export async function fetchNotifications(filters: NotificationFilters = {}): Promise<NotificationPage> {
+  const params = new URLSearchParams()
+  if (filters.type) params.set('type', filters.type)
+  if (filters.platform) params.set('platform', filters.platform)
+  if (filters.from) params.set('from', filters.from.toISOString())
+  if (filters.to) params.set('to', filters.to.toISOString())
+  if (filters.page) params.set('page', String(filters.page))
+  if (filters.limit) params.set('limit', String(filters.limit))
+
+  const query = params.toString()
+  const res = await apiRequest('GET', query ? `${NOTIFICATIONS_URL}?${query}` : NOTIFICATIONS_URL)
+  const body = await res.json() as Omit<NotificationListResponse, 'notifications'> & { notifications: SerializedNotification[] }
+
+  return {
+    ...body,
+    notifications: body.notifications.map(fromServer)
+  }
+}
+
+export async function markNotificationRead(notificationId: string): Promise<void> {
+  await apiRequest('PUT', `${NOTIFICATIONS_URL}/${encodeURIComponent(notificationId)}/read`)
+}
+
+export async function markAllNotificationsRead(): Promise<void> {
+  await apiRequest('PUT', `${NOTIFICATIONS_URL}/read-all`)
+}
+
+/**
+ * Apply the same filters the server does, for notifications that only exist
+ * locally (signed-out sessions and demo alerts)
+ */
+export function filterNotifications(notifications: Notification[], filters: NotificationFilters): Notification[] {
+  return notifications.filter(notification =>
+    (!filters.type || notification.type === filters.type) &&
+    (!filters.platform || notification.platform === filters.platform) &&
+    (!filters.from || notification.timestamp >= filters.from) &&
+    (!filters.to || notification.timestamp <= filters.to)
+  )
+}
@@ -0,0 +1,103 @@
+// Product price/stock history: the client for GET /api/products/:id/history, and
+// client-side aggregation mirroring it for providers without a server-side history
+// (web demo and desktop SQLite).
+
+import type { PriceHistoryBucket, ProductHistoryResponse } from '@shared/schema'
+import { HistoryBucket, ProductHistory, ProductHistoryBucket, ProductHistoryEntry, ProductHistoryQuery } from './dataProvider'
+import { apiRequest } from './queryClient'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Resolve from/to/bucket defaults the same way the server does:
+ * last 30 days, hourly buckets for ranges of two days or less
+ */
+export function resolveHistoryQuery(query: ProductHistoryQuery = {}): { from: Date; to: Date; bucket: HistoryBucket } {
+  const to = query.to ?? new Date()
+  const from = query.from ?? new Date(to.getTime() - 30 * DAY_MS)
+  const bucket = query.bucket ?? (to.getTime() - from.getTime() <= 2 * DAY_MS ? 'hour' : 'day')
+  return { from, to, bucket }
+}
+
+function bucketStart(date: Date, bucket: HistoryBucket): number {
+  const start = new Date(date)
+  start.setMinutes(0, 0, 0)
+  if (bucket === 'day') {
+    start.setHours(0)
+  }
+  return start.getTime()
+}
+
+export function aggregateHistory(productId: string, entries: ProductHistoryEntry[], query?: ProductHistoryQuery): ProductHistory {
+  const { from, to, bucket } = resolveHistoryQuery(query)
+
+  const inRange = entries
+    .filter(entry => entry.timestamp >= from && entry.timestamp <= to)
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+
+  const groups = new Map<number, ProductHistoryEntry[]>()
+  for (const entry of inRange) {
+    const key = bucketStart(entry.timestamp, bucket)
+    const group = groups.get(key) || []
+    group.push(entry)
+    groups.set(key, group)
+  }
+
+  const buckets: ProductHistoryBucket[] = Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([start, group]) => {
+      const prices = group.map(e => e.price).filter((p): p is number => p !== null)
+      return {
+        bucketStart: new Date(start),
+        minPrice: prices.length ? Math.min(...prices) : null,
+        maxPrice: prices.length ? Math.max(...prices) : null,
+        avgPrice: prices.length ? Math.round(prices.reduce((sum, p) => sum + p, 0) / prices.length * 100) / 100 : null,
+        checks: group.length,
+        inStockChecks: group.filter(e => e.status === 'in-stock' || e.status === 'low-stock').length
+      }
+    })
+
+  return { productId, bucket, buckets, entries: inRange }
+}
+
+// JSON form of the history response: dates arrive as ISO strings
+type SerializedProductHistory = Omit<ProductHistoryResponse, 'buckets' | 'entries'> & {
+  buckets: Array<Omit<PriceHistoryBucket, 'bucketStart'> & { bucketStart: string }>
+  entries: Array<Omit<ProductHistoryResponse['entries'][number], 'timestamp'> & { timestamp: string }>
+}
+
+/**
+ * History the server recorded for one of the signed-in user's monitored products.
+ * Rejects with status 404 for products the server doesn't know (local or demo ones).
+ */
+export async function fetchProductHistory(productId: string, query: ProductHistoryQuery = {}): Promise<ProductHistory> {
+  const params = new URLSearchParams()
+  if (query.from) params.set('from', query.from.toISOString())
+  if (query.to) params.set('to', query.to.toISOString())
+  if (query.bucket) params.set('bucket', query.bucket)
+
+  const url = `/api/products/${encodeURIComponent(productId)}/history`
+  const search = params.toString()
+  const res = await apiRequest('GET', search ? `${url}?${search}` : url)
+  const body = await res.json() as SerializedProductHistory
+
+  return {
+    productId: body.productId,
+    bucket: body.bucket,
+    buckets: body.buckets.map(bucket => ({
+      bucketStart: new Date(bucket.bucketStart),
+      minPrice: bucket.minPrice,
+      maxPrice: bucket.maxPrice,
+      avgPrice: bucket.avgPrice,
+      checks: bucket.checks,
+      inStockChecks: bucket.inStockChecks
+    })),
+    entries: body.entries.map(entry => ({
+      id: entry.id,
+      timestamp: new Date(entry.timestamp),
+      price: entry.price,
+      status: entry.status as ProductHistoryEntry['status'],
+      success: entry.success
+    }))
+  }
+}
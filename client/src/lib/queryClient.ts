@@ -9,6 +9,10 @@ export interface ApiError extends Error {
   code?: string;
   reason?: string;
   userId?: string;
+  // Present on ITEM_LIMIT_REACHED errors
+  itemLimit?: number;
+  currentCount?: number;
+  planTier?: string;
 }
 
 async function throwIfResNotOk(res: Response) {
@@ -26,6 +30,9 @@ async function throwIfResNotOk(res: Response) {
     error.code = errorData.code;
     error.reason = errorData.reason;
     error.userId = errorData.userId;
+    error.itemLimit = errorData.itemLimit;
+    error.currentCount = errorData.currentCount;
+    error.planTier = errorData.planTier;
     
     throw error;
   }
@@ -74,6 +81,22 @@ export async function apiRequest(
   return res;
 }
 
+// Open a long-lived GET whose body is read as a stream (server-sent events),
+// authenticated the same way as apiRequest. The caller checks the status.
+export async function streamRequest(url: string, signal: AbortSignal): Promise<Response> {
+  const headers = { Accept: "text/event-stream" };
+
+  if (isDesktopApp() && desktopApiRequest) {
+    return desktopApiRequest(url, { method: "GET", headers, signal });
+  }
+
+  return fetch(url, {
+    headers,
+    credentials: "include",
+    signal,
+  });
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
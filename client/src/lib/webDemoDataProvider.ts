@@ -1,7 +1,8 @@
 // Web Demo Data Provider - implements IDataProvider using in-memory state
 // Resets on page refresh, no persistence, no API calls
 
-import { IDataProvider, Product, ProductInput, AppSettings } from './dataProvider'
+import { IDataProvider, Product, ProductInput, AppSettings, ProductHistory, ProductHistoryEntry, ProductHistoryQuery } from './dataProvider'
+import { aggregateHistory, resolveHistoryQuery } from './productHistory'
 import { mockProducts, mockSettings } from './mockData'
 
 export class WebDemoDataProvider implements IDataProvider {
@@ -88,29 +89,29 @@ export class WebDemoDataProvider implements IDataProvider {
     return { ...this.settings }
   }
 
-  async getProductHistory(productId: string, days: number = 30): Promise<any[]> {
+  async getProductHistory(productId: string, query?: ProductHistoryQuery): Promise<ProductHistory> {
     console.log('[WebDemoDataProvider] Getting product history for:', productId)
     // Return mock history data for demo purposes
     const product = this.products.find(p => p.id === productId)
     if (!product) {
-      return []
+      return aggregateHistory(productId, [], query)
     }
 
-    // Generate some demo history data
-    const history = []
-    for (let i = 0; i < Math.min(days, 10); i++) {
-      const date = new Date(Date.now() - i * 24 * 60 * 60 * 1000)
-      history.push({
+    // Generate some demo history data, one check every 6 hours
+    const { from, to } = resolveHistoryQuery(query)
+    const entries: ProductHistoryEntry[] = []
+    for (let time = to.getTime(), i = 0; time >= from.getTime() && i < 200; time -= 6 * 60 * 60 * 1000, i++) {
+      const inStock = Math.random() > 0.2 // 80% chance of being in stock
+      entries.push({
         id: `history-${productId}-${i}`,
-        productId,
-        timestamp: date,
-        price: product.currentPrice ? product.currentPrice + (Math.random() - 0.5) * 20 : null,
-        isInStock: Math.random() > 0.2, // 80% chance of being in stock
+        timestamp: new Date(time),
+        price: product.currentPrice ? Math.round((product.currentPrice + (Math.random() - 0.5) * 20) * 100) / 100 : null,
+        status: inStock ? 'in-stock' : 'out-of-stock',
         success: true
       })
     }
     
-    return history
+    return aggregateHistory(productId, entries, query)
   }
 
   isReady(): boolean {
@@ -26,11 +26,14 @@ import {
   Calendar,
   Award,
   UserCheck,
-  UserX
+  UserX,
+  Activity
 } from "lucide-react";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { PlatformSelectorHealth, SelectorHealthReport } from "@shared/selector-health";
+import type { FingerprintProfileReport } from "@shared/fingerprint-profiles";
 
 interface User {
   id: string;
@@ -254,6 +257,20 @@ export default function AdminDashboard() {
     refetchInterval: 60000, // Refresh every minute
   });
 
+  // Fetch scraper selector health
+  const { data: selectorHealth, isLoading: selectorHealthLoading } = useQuery<SelectorHealthReport>({
+    queryKey: ['/api/admin/selector-health'],
+    refetchInterval: 60000, // Refresh every minute
+  });
+
+  const activeSelectorAlerts = selectorHealth?.alerts.filter(alert => !alert.resolvedAt) ?? [];
+
+  // Fetch browser fingerprint profile block rates
+  const { data: fingerprintProfiles } = useQuery<FingerprintProfileReport>({
+    queryKey: ['/api/admin/fingerprint-profiles'],
+    refetchInterval: 60000, // Refresh every minute
+  });
+
   // User status update mutation
   const updateUserStatusMutation = useMutation({
     mutationFn: async ({ userId, status, reason }: { userId: string; status: string; reason?: string }) => {
@@ -540,6 +557,21 @@ export default function AdminDashboard() {
     }
   };
 
+  const formatRate = (rate: number | null) => rate === null ? '—' : `${Math.round(rate * 100)}%`;
+
+  const getHealthBadge = (status: PlatformSelectorHealth['status']) => {
+    switch (status) {
+      case 'healthy':
+        return <Badge variant="default" data-testid={`badge-health-healthy`}><CheckCircle className="w-3 h-3 mr-1" />Healthy</Badge>;
+      case 'degraded':
+        return <Badge variant="secondary" data-testid={`badge-health-degraded`}><AlertTriangle className="w-3 h-3 mr-1" />Degraded</Badge>;
+      case 'broken':
+        return <Badge variant="destructive" data-testid={`badge-health-broken`}><XCircle className="w-3 h-3 mr-1" />Broken</Badge>;
+      default:
+        return <Badge variant="outline" data-testid={`badge-health-no-data`}>No Data</Badge>;
+    }
+  };
+
   const getBetaActionButtons = (user: User) => {
     const hasBetaAccess = user.betaAccess?.betaTester && user.betaAccess?.status === 'active';
     
@@ -696,12 +728,34 @@ export default function AdminDashboard() {
           </Card>
         </div>
 
+        {/* Selector Breakage Alerts */}
+        {activeSelectorAlerts.map(alert => (
+          <div
+            key={alert.id}
+            className="flex items-start gap-3 rounded border border-red-300 bg-red-50 p-4 text-red-800 dark:border-red-800 dark:bg-red-950 dark:text-red-100"
+            data-testid={`alert-selector-breakage-${alert.platform}`}
+          >
+            <AlertTriangle className="h-5 w-5 mt-0.5 shrink-0" />
+            <div>
+              <div className="font-medium">Possible selector breakage on {alert.platform}</div>
+              <div className="text-sm">{alert.message}</div>
+              <div className="text-xs mt-1">Raised {new Date(alert.raisedAt).toLocaleString()}</div>
+            </div>
+          </div>
+        ))}
+
         {/* Main Content Tabs */}
         <Tabs defaultValue="users" className="space-y-4">
           <TabsList>
             <TabsTrigger value="users" data-testid="tab-users">User Management</TabsTrigger>
             <TabsTrigger value="subscriptions" data-testid="tab-subscriptions">Subscriptions</TabsTrigger>
             <TabsTrigger value="beta-testers" data-testid="tab-beta-testers">Beta Testers</TabsTrigger>
+            <TabsTrigger value="scraper-health" data-testid="tab-scraper-health">
+              Scraper Health
+              {activeSelectorAlerts.length > 0 && (
+                <Badge variant="destructive" className="ml-2 text-xs">{activeSelectorAlerts.length}</Badge>
+              )}
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="users" className="space-y-4">
@@ -1116,6 +1170,171 @@ export default function AdminDashboard() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="scraper-health" className="space-y-4">
+            {selectorHealthLoading ? (
+              <div className="text-center py-8" data-testid="loading-selector-health">Loading scraper health...</div>
+            ) : (
+              <>
+                {selectorHealth?.platforms.map(platform => (
+                  <Card key={platform.platform} data-testid={`card-selector-health-${platform.platform}`}>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                      <CardTitle className="flex items-center gap-2 capitalize">
+                        <Activity className="h-4 w-4" />
+                        {platform.platform}
+                      </CardTitle>
+                      {getHealthBadge(platform.status)}
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                        <div>
+                          <div className="text-muted-foreground">Parse rate (last hour)</div>
+                          <div className="text-xl font-bold" data-testid={`text-recent-parse-rate-${platform.platform}`}>
+                            {formatRate(platform.recentParseRate)}
+                          </div>
+                        </div>
+                        <div>
+                          <div className="text-muted-foreground">Parse rate (previous day)</div>
+                          <div className="text-xl font-bold">{formatRate(platform.baselineParseRate)}</div>
+                        </div>
+                        <div>
+                          <div className="text-muted-foreground">HTTP 200 pages / checks</div>
+                          <div className="text-xl font-bold">{platform.okResponses} / {platform.checks}</div>
+                        </div>
+                        <div>
+                          <div className="text-muted-foreground">Low confidence parses</div>
+                          <div className="text-xl font-bold">{platform.lowConfidence}</div>
+                        </div>
+                      </div>
+
+                      {/* Parse rate per 15 minutes over the report window */}
+                      {platform.history.length > 0 && (
+                        <div className="flex items-end gap-px h-16" data-testid={`chart-parse-rate-${platform.platform}`}>
+                          {platform.history.map(point => (
+                            <div
+                              key={point.bucketStart}
+                              className={`flex-1 ${point.rate === null ? 'bg-muted' : point.rate < 0.5 ? 'bg-red-500' : point.rate < 0.8 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                              style={{ height: `${point.rate === null ? 4 : Math.max(point.rate * 100, 4)}%` }}
+                              title={`${new Date(point.bucketStart).toLocaleTimeString()}: ${point.parsed}/${point.okResponses} parsed`}
+                            />
+                          ))}
+                        </div>
+                      )}
+
+                      {platform.selectors.length > 0 ? (
+                        <div className="space-y-1">
+                          <div className="text-sm font-medium">Selectors (last {selectorHealth.windowHours}h)</div>
+                          {platform.selectors.map(selector => (
+                            <div
+                              key={`${selector.field} ${selector.selector}`}
+                              className="flex justify-between gap-4 text-sm border-b py-1"
+                              data-testid={`row-selector-${platform.platform}-${selector.field}`}
+                            >
+                              <span className="font-mono text-xs truncate">
+                                <span className="text-muted-foreground">{selector.field}:</span> {selector.selector}
+                              </span>
+                              <span className="whitespace-nowrap">
+                                {formatRate(selector.rate)} ({selector.hits})
+                                {selector.previousRate !== null && (
+                                  <span className="text-muted-foreground"> • was {formatRate(selector.previousRate)}</span>
+                                )}
+                              </span>
+                            </div>
+                          ))}
+                          {platform.fieldMisses.filter(miss => miss.misses > 0).map(miss => (
+                            <div key={miss.field} className="flex justify-between gap-4 text-sm border-b py-1 text-red-600">
+                              <span className="font-mono text-xs">{miss.field}: no selector matched</span>
+                              <span>{formatRate(miss.rate)} ({miss.misses})</span>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="text-sm text-muted-foreground">No HTTP 200 pages checked in the last {selectorHealth.windowHours}h</div>
+                      )}
+
+                      {platform.strategies.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {platform.strategies.map(strategy => (
+                            <Badge key={`${strategy.strategy} ${strategy.field}`} variant="outline" className="text-xs">
+                              {strategy.strategy} → {strategy.field}: {formatRate(strategy.rate)}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+
+                {/* Alert History */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Breakage Alerts</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {selectorHealth?.alerts.length ? (
+                      <div className="space-y-3">
+                        {selectorHealth.alerts.map(alert => (
+                          <div key={alert.id} className="border rounded p-3" data-testid={`selector-alert-${alert.id}`}>
+                            <div className="flex justify-between items-start gap-4">
+                              <div className="text-sm">{alert.message}</div>
+                              <Badge variant={alert.resolvedAt ? 'secondary' : 'destructive'}>
+                                {alert.resolvedAt ? 'resolved' : 'active'}
+                              </Badge>
+                            </div>
+                            <div className="text-xs text-muted-foreground mt-1">
+                              Raised {new Date(alert.raisedAt).toLocaleString()}
+                              {alert.resolvedAt && ` • Resolved ${new Date(alert.resolvedAt).toLocaleString()}`}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="text-sm text-muted-foreground">No selector breakage detected</div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* Block rates per browser fingerprint profile */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Browser Profiles</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {fingerprintProfiles?.profiles.some(profile => profile.checks > 0) ? (
+                      <div className="space-y-1">
+                        {fingerprintProfiles.profiles.map(profile => (
+                          <div
+                            key={profile.id}
+                            className="flex justify-between gap-4 text-sm border-b py-1"
+                            data-testid={`row-fingerprint-profile-${profile.id}`}
+                          >
+                            <span title={profile.userAgent}>
+                              {profile.name}
+                              <span className="text-muted-foreground"> • {profile.device}</span>
+                            </span>
+                            <span className="whitespace-nowrap">
+                              {profile.platforms.filter(stats => stats.checks > 0).map(stats => (
+                                <span key={stats.platform} className="capitalize text-muted-foreground mr-3">
+                                  {stats.platform} {formatRate(stats.blockRate)}
+                                </span>
+                              ))}
+                              <span className={profile.blockRate !== null && profile.blockRate >= 0.5 ? 'text-red-600' : ''}>
+                                {formatRate(profile.blockRate)} blocked ({profile.blocks}/{profile.checks})
+                              </span>
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="text-sm text-muted-foreground">
+                        No scheduled checks in the last {fingerprintProfiles?.windowHours ?? 24}h
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </TabsContent>
         </Tabs>
       </div>
 
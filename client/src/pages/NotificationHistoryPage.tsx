@@ -1,21 +1,70 @@
 import { useState } from "react"
 import { Link } from "wouter"
-import { ArrowLeft, Bell, TrendingDown, Package } from "lucide-react"
+import { useQuery } from "@tanstack/react-query"
+import { ArrowLeft, Bell, TrendingDown, Package, Filter, CheckCheck, ChevronLeft, ChevronRight } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { cn } from "@/lib/utils"
 import { useNotifications, Notification } from "@/contexts/NotificationsContext"
+import { fetchNotifications, filterNotifications, NOTIFICATIONS_URL, type NotificationFilters } from "@/lib/notifications"
+import type { NotificationType } from "@shared/schema"
+import type { RetailerId } from "@shared/retailers"
+
+const PAGE_SIZE = 20
+
+// <input type="date"> values are local calendar days; "to" covers the whole day
+function parseDay(value: string, endOfDay: boolean): Date | undefined {
+  if (!value) return undefined
+  return new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`)
+}
 
 export default function NotificationHistoryPage() {
   // Use shared notifications context
-  const { notifications } = useNotifications()
-  
-  // Filter notifications to show only those from the last 24 hours
-  const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000)
-  const last24HoursNotifications = notifications.filter(
-    notification => notification.timestamp >= twentyFourHoursAgo
-  )
+  const { notifications: localNotifications, markAsRead, markAllAsRead } = useNotifications()
+
+  const [typeFilter, setTypeFilter] = useState<NotificationType | "all">("all")
+  const [platformFilter, setPlatformFilter] = useState<RetailerId | "all">("all")
+  const [fromDay, setFromDay] = useState("")
+  const [toDay, setToDay] = useState("")
+  const [page, setPage] = useState(1)
+
+  const filters: NotificationFilters = {
+    type: typeFilter === "all" ? undefined : typeFilter,
+    platform: platformFilter === "all" ? undefined : platformFilter,
+    from: parseDay(fromDay, false),
+    to: parseDay(toDay, true)
+  }
+
+  // Server history; when it can't be loaded (signed out) fall back to notifications held locally
+  const { data: serverPage, isLoading, isError } = useQuery({
+    queryKey: [NOTIFICATIONS_URL, typeFilter, platformFilter, fromDay, toDay, page],
+    queryFn: () => fetchNotifications({ ...filters, page, limit: PAGE_SIZE }),
+    staleTime: 0
+  })
+
+  const localMatches = isError ? filterNotifications(localNotifications, filters) : []
+  const total = serverPage?.total ?? localMatches.length
+  const notifications = serverPage?.notifications ?? localMatches.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE)
+  const unreadCount = serverPage?.unreadCount ?? localNotifications.filter(n => !n.read).length
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
+  const hasFilters = typeFilter !== "all" || platformFilter !== "all" || !!fromDay || !!toDay
+
+  // Any filter change starts again from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value)
+    setPage(1)
+  }
+
+  const clearFilters = () => {
+    setTypeFilter("all")
+    setPlatformFilter("all")
+    setFromDay("")
+    setToDay("")
+    setPage(1)
+  }
 
   const formatTimestamp = (date: Date) => {
     const now = new Date()
@@ -50,9 +99,15 @@ export default function NotificationHistoryPage() {
   const NotificationCard = ({ notification }: { notification: Notification }) => {
     const config = platformConfig[notification.platform]
     const isPriceDrop = notification.type === "price_drop"
+    // Rows paged in from the server aren't necessarily among those the notifications context holds
+    const markRead = () => markAsRead(notification.id, !!serverPage)
     
     return (
-      <Card className={cn("transition-all duration-200", !notification.read && "border-primary/30 bg-primary/5")}>
+      <Card
+        className={cn("transition-all duration-200", !notification.read && "border-primary/30 bg-primary/5 cursor-pointer")}
+        onClick={() => !notification.read && markRead()}
+        data-testid={`notification-${notification.id}`}
+      >
         <CardContent className="p-4">
           <div className="flex items-start justify-between gap-3">
             <div className="flex items-start gap-3 flex-1 min-w-0">
@@ -125,8 +180,6 @@ export default function NotificationHistoryPage() {
     )
   }
 
-  const unreadCount = last24HoursNotifications.filter(n => !n.read).length
-
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -149,9 +202,16 @@ export default function NotificationHistoryPage() {
                 )}
               </div>
             </div>
-            <div className="text-sm text-muted-foreground">
-              Last 24 Hours
-            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => markAllAsRead(!!serverPage)}
+              disabled={unreadCount === 0}
+              data-testid="button-mark-all-read"
+            >
+              <CheckCheck className="w-4 h-4 mr-2" />
+              Mark all read
+            </Button>
           </div>
         </div>
       </div>
@@ -159,25 +219,113 @@ export default function NotificationHistoryPage() {
       {/* Content */}
       <div className="container max-w-4xl mx-auto px-4 py-6">
         <div className="space-y-4">
-          {last24HoursNotifications.length > 0 ? (
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-2">
+            <Filter className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+            <Select value={typeFilter} onValueChange={(value) => updateFilter(setTypeFilter)(value as NotificationType | "all")}>
+              <SelectTrigger className="w-36" data-testid="filter-notification-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Types</SelectItem>
+                <SelectItem value="price_drop">Price Drops</SelectItem>
+                <SelectItem value="stock_alert">Back In Stock</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select value={platformFilter} onValueChange={(value) => updateFilter(setPlatformFilter)(value as RetailerId | "all")}>
+              <SelectTrigger className="w-36" data-testid="filter-notification-platform">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Platforms</SelectItem>
+                {(Object.keys(platformConfig) as RetailerId[]).map(platform => (
+                  <SelectItem key={platform} value={platform}>{platformConfig[platform].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Input
+              type="date"
+              className="w-40"
+              value={fromDay}
+              max={toDay || undefined}
+              onChange={(e) => updateFilter(setFromDay)(e.target.value)}
+              aria-label="From date"
+              data-testid="filter-notification-from"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="date"
+              className="w-40"
+              value={toDay}
+              min={fromDay || undefined}
+              onChange={(e) => updateFilter(setToDay)(e.target.value)}
+              aria-label="To date"
+              data-testid="filter-notification-to"
+            />
+
+            {hasFilters && (
+              <Button variant="ghost" size="sm" onClick={clearFilters} data-testid="button-clear-filters">
+                Clear
+              </Button>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div className="text-center py-12 text-sm text-muted-foreground">
+              Loading notifications...
+            </div>
+          ) : notifications.length > 0 ? (
             <>
               <div className="flex items-center justify-between">
                 <p className="text-sm text-muted-foreground">
-                  {last24HoursNotifications.length} notification{last24HoursNotifications.length !== 1 ? 's' : ''} in the last 24 hours
+                  {total} notification{total !== 1 ? 's' : ''}{hasFilters ? ' matching filters' : ''}
                 </p>
+                {isError && (
+                  <p className="text-xs text-muted-foreground">Showing notifications from this device only</p>
+                )}
               </div>
               
               <div className="space-y-3">
-                {last24HoursNotifications.map((notification) => (
+                {notifications.map((notification) => (
                   <NotificationCard key={notification.id} notification={notification} />
                 ))}
               </div>
+
+              {totalPages > 1 && (
+                <div className="flex items-center justify-center gap-3 pt-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(p => p - 1)}
+                    disabled={page <= 1}
+                    data-testid="button-previous-page"
+                  >
+                    <ChevronLeft className="w-4 h-4 mr-1" />
+                    Previous
+                  </Button>
+                  <span className="text-sm text-muted-foreground">
+                    Page {page} of {totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(p => p + 1)}
+                    disabled={page >= totalPages}
+                    data-testid="button-next-page"
+                  >
+                    Next
+                    <ChevronRight className="w-4 h-4 ml-1" />
+                  </Button>
+                </div>
+              )}
             </>
           ) : (
             <div className="text-center py-12">
               <Bell className="w-12 h-12 mx-auto text-muted-foreground/50 mb-4" />
               <h3 className="text-lg font-medium text-muted-foreground mb-2">
-                No notifications in the last 24 hours
+                {hasFilters ? "No notifications match these filters" : "No notifications yet"}
               </h3>
               <p className="text-sm text-muted-foreground">
                 When you receive price drop or stock alerts, they'll appear here.
@@ -0,0 +1,72 @@
+import { storage } from './storage';
+import { getRetailer } from './retailers';
+import type { AlertRules } from '@shared/schema';
+import type { MonitoringEventInput } from '@shared/monitoring-events';
+import type { RetailerId } from '@shared/retailers';
+
+/**
+ * Alert Rule Service
+ * Decides whether a price drop or restock seen by the scheduler should alert
+ * the user, based on the product's notification toggles and alert rules
+ */
+
+// Snapshot of the product the event is about
+export interface AlertSubject {
+  id: string;
+  platform: RetailerId;
+  notifyForStock: boolean;
+  notifyForPrice: boolean;
+  alertRules: AlertRules;
+  lastAlertedAt?: Date;
+  seller?: string;
+  checkStartedAt?: Date; // history recorded from this point on belongs to the current check
+}
+
+export type AlertDecision = { alert: true } | { alert: false; reason: string };
+
+const LOW_PRICE_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+export class AlertRuleService {
+  async evaluate(subject: AlertSubject, event: MonitoringEventInput, now = new Date()): Promise<AlertDecision> {
+    const rules = subject.alertRules;
+
+    if (event.type === 'price_drop') {
+      if (!subject.notifyForPrice) {
+        return { alert: false, reason: 'price notifications are off' };
+      }
+      if (rules.targetPrice !== undefined && event.currentPrice > rules.targetPrice) {
+        return { alert: false, reason: `price ${event.currentPrice} is above target ${rules.targetPrice}` };
+      }
+      if (rules.minDropPercent !== undefined) {
+        // Compare against the 30-day low before this check; fall back to the previous price without history
+        const lowest = await storage.getLowestPrice(subject.id, new Date(now.getTime() - LOW_PRICE_WINDOW_MS), subject.checkStartedAt ?? now);
+        const baseline = lowest ?? event.previousPrice;
+        const dropPercent = ((baseline - event.currentPrice) / baseline) * 100;
+        if (dropPercent < rules.minDropPercent) {
+          return { alert: false, reason: `${Math.max(0, Math.round(dropPercent * 10) / 10)}% below 30-day low ${baseline}, needs ${rules.minDropPercent}%` };
+        }
+      }
+    } else if (event.type === 'stock_change') {
+      if (!subject.notifyForStock) {
+        return { alert: false, reason: 'stock notifications are off' };
+      }
+      if (rules.restockSellerOnly && !(subject.seller && getRetailer(subject.platform).firstPartySeller.test(subject.seller))) {
+        return { alert: false, reason: `sold by ${subject.seller ?? 'an unknown seller'}, not ${getRetailer(subject.platform).displayName}` };
+      }
+    } else {
+      return { alert: false, reason: `${event.type} events are not alerts` };
+    }
+
+    if (rules.cooldownMinutes && subject.lastAlertedAt) {
+      const elapsedMs = now.getTime() - subject.lastAlertedAt.getTime();
+      if (elapsedMs < rules.cooldownMinutes * 60 * 1000) {
+        return { alert: false, reason: `cooling down (last alert ${Math.round(elapsedMs / 60000)}m ago)` };
+      }
+    }
+
+    return { alert: true };
+  }
+}
+
+// Export singleton instance
+export const alertRuleService = new AlertRuleService();
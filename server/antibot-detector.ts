@@ -0,0 +1,73 @@
+import { evaluateAntiBotRules, getAntiBotRules } from './antibot-rules';
+import type { RetailerId } from '@shared/retailers';
+
+/**
+ * Anti-Bot Detector
+ * Scores a retailer response against the signature rules in antibot-rules.json
+ * (Cloudflare, AWS WAF, rate limits, IP blocks, JS challenges, platform pages and
+ * response anomalies). Kept free of worker state so fixture tests can run it directly.
+ */
+
+export interface AntiBotDetectionResult {
+  isBlocked: boolean;
+  detectionType: 'cloudflare' | 'aws_waf' | 'rate_limit' | 'ip_block' | 'captcha' | 'js_challenge' | 'redirect_loop' | 'platform_specific' | 'none';
+  confidence: number; // 0-1 scale
+  platform: RetailerId;
+  responseCode: number;
+  responseTime: number;
+  rawResponse?: string;
+  timestamp: number;
+  suggestedAction: string;
+  details: Record<string, any>;
+}
+
+// platform is the retailer the request was made for; the URL may be a proxy or simulator address
+export function detectAntiBot(html: string, url: string, responseCode: number, responseTime: number, headers: Record<string, string>, platform: RetailerId): AntiBotDetectionResult {
+  const timestamp = Date.now();
+  const ruleSet = getAntiBotRules();
+
+  // Start with no detection
+  let result: AntiBotDetectionResult = {
+    isBlocked: false,
+    detectionType: 'none',
+    confidence: 0,
+    platform,
+    responseCode,
+    responseTime,
+    timestamp,
+    suggestedAction: 'continue',
+    details: { rulesVersion: ruleSet.version }
+  };
+
+  const lowerCaseHeaders: Record<string, string> = {};
+  Object.entries(headers).forEach(([name, value]) => {
+    lowerCaseHeaders[name.toLowerCase()] = value;
+  });
+
+  // Detectors run in rule set order; a later one only wins with a strictly higher confidence
+  const evaluations = evaluateAntiBotRules({ html, headers: lowerCaseHeaders, responseCode, responseTime, platform }, ruleSet);
+  evaluations.forEach(evaluation => {
+    if (!evaluation.blocked || evaluation.confidence <= result.confidence) return;
+
+    const patterns = evaluation.matches.flatMap(match => match.patterns ?? []);
+    result = {
+      ...result,
+      isBlocked: true,
+      detectionType: evaluation.detectionType,
+      confidence: evaluation.confidence,
+      suggestedAction: evaluation.suggestedAction,
+      details: {
+        rulesVersion: ruleSet.version,
+        matchedRules: evaluation.matches.map(match => match.id),
+        ...(patterns.length > 0 ? { patterns } : {})
+      }
+    };
+  });
+
+  // Store raw response for high-confidence detections
+  if (result.confidence > 0.7) {
+    result.rawResponse = html.substring(0, 5000); // Limit size
+  }
+
+  return result;
+}
@@ -3,6 +3,7 @@ import DailyRotateFile from 'winston-daily-rotate-file';
 import path from 'path';
 import fs from 'fs';
 import os from 'os';
+import type { RetailerId } from '@shared/retailers';
 
 // Create anti-bot logs directory
 const antiBotLogsDir = path.join(process.cwd(), 'logs', 'antibot');
@@ -12,7 +13,7 @@ if (!fs.existsSync(antiBotLogsDir)) {
 
 // Request rate tracking
 interface RequestRateTracker {
-  platform: 'amazon' | 'walmart';
+  platform: RetailerId;
   successCount: number;
   failureCount: number;
   blockCount: number;
@@ -265,7 +266,7 @@ class AntiBotLogger {
     });
   }
 
-  logRequestAttempt(platform: 'amazon' | 'walmart', success: boolean, responseTime: number, responseCode: number, userAgent: string): void {
+  logRequestAttempt(platform: RetailerId, success: boolean, responseTime: number, responseCode: number, userAgent: string): void {
     // Update request tracker
     if (!this.requestTracker.has(platform)) {
       this.requestTracker.set(platform, {
@@ -395,7 +396,7 @@ export function logAntiBotEvent(antiBot: any, url: string, userAgent: string, he
   getAntiBotLogger().logDetectionEvent(antiBot, url, userAgent, headers);
 }
 
-export function logScrapingRequest(platform: 'amazon' | 'walmart', success: boolean, responseTime: number, responseCode: number, userAgent: string): void {
+export function logScrapingRequest(platform: RetailerId, success: boolean, responseTime: number, responseCode: number, userAgent: string): void {
   getAntiBotLogger().logRequestAttempt(platform, success, responseTime, responseCode, userAgent);
 }
 
@@ -0,0 +1,258 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import bundledRules from './antibot-rules.json';
+import type { RetailerId } from '@shared/retailers';
+
+/**
+ * Anti-Bot Signature Rules
+ * Block page signatures live in a versioned JSON rule set (antibot-rules.json)
+ * instead of detector code. Set ANTIBOT_RULES_PATH to a rule file of the same
+ * shape to use it instead; the file is re-read when it changes, so new block
+ * pages can be recognised without a release.
+ */
+
+// How often a rule file from ANTIBOT_RULES_PATH is checked for changes
+const RULES_RECHECK_MS = 30000;
+
+const rangeSchema = z.object({
+  lt: z.number().optional(),
+  gt: z.number().optional()
+}).refine(range => range.lt !== undefined || range.gt !== undefined, 'A range needs lt or gt');
+
+/**
+ * One check against the response. Exactly one of body, header, status,
+ * responseTime or bodyLength is set:
+ *   body          page contains the text (case-insensitive unless caseSensitive)
+ *   header        header is present, or equals / contains a value
+ *   status        response code is one of the list
+ *   responseTime  milliseconds, compared with lt / gt
+ *   bodyLength    trimmed page length, optionally with scripts removed first
+ * `not` inverts the check.
+ */
+const conditionSchema = z.object({
+  body: z.string().min(1).optional(),
+  caseSensitive: z.boolean().optional(),
+  header: z.string().min(1).optional(),
+  equals: z.string().optional(),
+  contains: z.string().optional(),
+  status: z.array(z.number().int()).min(1).optional(),
+  responseTime: rangeSchema.optional(),
+  bodyLength: rangeSchema.optional(),
+  withoutScripts: z.boolean().optional(),
+  not: z.boolean().optional()
+}).refine(
+  condition => [condition.body, condition.header, condition.status, condition.responseTime, condition.bodyLength]
+    .filter(value => value !== undefined).length === 1,
+  'A condition needs exactly one of body, header, status, responseTime or bodyLength'
+);
+
+/**
+ * A rule matches when all of allOf and at least one of anyOf hold. With
+ * patterns, the weight counts once for every pattern found in the page.
+ */
+const ruleSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().optional(),
+  weight: z.number().min(0).max(1),
+  platforms: z.array(z.string()).optional(),
+  allOf: z.array(conditionSchema).optional(),
+  anyOf: z.array(conditionSchema).optional(),
+  patterns: z.array(z.string().min(1)).optional()
+}).refine(rule => rule.allOf?.length || rule.anyOf?.length || rule.patterns?.length, 'A rule needs allOf, anyOf or patterns');
+
+const detectorSchema = z.object({
+  detectionType: z.enum(['cloudflare', 'aws_waf', 'rate_limit', 'ip_block', 'captcha', 'js_challenge', 'redirect_loop', 'platform_specific']),
+  threshold: z.number().min(0).max(1),
+  // {platform} and {header:name|fallback} are filled in from the response
+  suggestedAction: z.string(),
+  rules: z.array(ruleSchema).min(1)
+});
+
+export const antiBotRuleSetSchema = z.object({
+  version: z.string().min(1),
+  description: z.string().optional(),
+  detectors: z.array(detectorSchema).min(1)
+}).superRefine((ruleSet, ctx) => {
+  const seen = new Set<string>();
+  ruleSet.detectors.forEach(detector => detector.rules.forEach(rule => {
+    if (seen.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate rule id: ${rule.id}` });
+    }
+    seen.add(rule.id);
+  }));
+});
+
+export type AntiBotRuleCondition = z.infer<typeof conditionSchema>;
+export type AntiBotRule = z.infer<typeof ruleSchema>;
+export type AntiBotDetector = z.infer<typeof detectorSchema>;
+export type AntiBotRuleSet = z.infer<typeof antiBotRuleSetSchema>;
+
+// Response a rule set is evaluated against; header names are lower case
+export interface RuleResponse {
+  html: string;
+  headers: Record<string, string>;
+  responseCode: number;
+  responseTime: number;
+  platform: RetailerId;
+}
+
+export interface RuleMatch {
+  id: string;
+  weight: number;
+  hits: number;         // 1, or the number of patterns found for pattern rules
+  patterns?: string[];
+}
+
+export interface DetectorEvaluation {
+  detectionType: AntiBotDetector['detectionType'];
+  confidence: number;
+  threshold: number;
+  blocked: boolean;
+  suggestedAction: string;
+  matches: RuleMatch[];
+}
+
+interface LoadedRules {
+  ruleSet: AntiBotRuleSet;
+  source: string;
+  mtimeMs?: number;
+  checkedAt: number;
+}
+
+const defaultRuleSet = antiBotRuleSetSchema.parse(bundledRules);
+let loaded: LoadedRules | null = null;
+
+function readRuleFile(file: string): AntiBotRuleSet {
+  return antiBotRuleSetSchema.parse(JSON.parse(fs.readFileSync(file, 'utf8')));
+}
+
+function ruleCount(ruleSet: AntiBotRuleSet): number {
+  return ruleSet.detectors.reduce((sum, detector) => sum + detector.rules.length, 0);
+}
+
+/**
+ * Active rule set: the file from ANTIBOT_RULES_PATH when set and valid, the
+ * bundled rules otherwise. An invalid file never replaces working rules.
+ */
+export function getAntiBotRules(): AntiBotRuleSet {
+  const configured = process.env.ANTIBOT_RULES_PATH?.trim();
+  if (!configured) {
+    if (loaded?.source !== 'bundled') {
+      loaded = { ruleSet: defaultRuleSet, source: 'bundled', checkedAt: Date.now() };
+    }
+    return loaded.ruleSet;
+  }
+
+  const file = path.resolve(configured);
+  const now = Date.now();
+  if (loaded?.source === file && now - loaded.checkedAt < RULES_RECHECK_MS) {
+    return loaded.ruleSet;
+  }
+
+  try {
+    const { mtimeMs } = fs.statSync(file);
+    if (loaded?.source === file && loaded.mtimeMs === mtimeMs) {
+      loaded.checkedAt = now;
+      return loaded.ruleSet;
+    }
+
+    const ruleSet = readRuleFile(file);
+    loaded = { ruleSet, source: file, mtimeMs, checkedAt: now };
+    console.log(`[AntiBotRules] Loaded rule set ${ruleSet.version} from ${file} (${ruleCount(ruleSet)} rules)`);
+  } catch (error) {
+    const current = loaded ?? { ruleSet: defaultRuleSet, source: 'bundled', checkedAt: now };
+    const reason = error instanceof z.ZodError ? fromZodError(error).message : error instanceof Error ? error.message : error;
+    console.error(`[AntiBotRules] Invalid rule file ${file}, keeping rule set ${current.ruleSet.version}:`, reason);
+    // Remember the failure against the file so it isn't re-parsed on every response
+    loaded = { ...current, source: file, mtimeMs: undefined, checkedAt: now };
+  }
+
+  return loaded.ruleSet;
+}
+
+function inRange(value: number, range: { lt?: number; gt?: number }): boolean {
+  return (range.lt === undefined || value < range.lt) && (range.gt === undefined || value > range.gt);
+}
+
+function conditionHolds(condition: AntiBotRuleCondition, response: RuleResponse, lowerHtml: string): boolean {
+  let holds: boolean;
+
+  if (condition.body !== undefined) {
+    holds = condition.caseSensitive
+      ? response.html.includes(condition.body)
+      : lowerHtml.includes(condition.body.toLowerCase());
+  } else if (condition.header !== undefined) {
+    const raw = response.headers[condition.header.toLowerCase()];
+    const value = raw == null ? '' : String(raw);
+    holds = !!value &&
+      (condition.equals === undefined || value === condition.equals) &&
+      (condition.contains === undefined || value.includes(condition.contains));
+  } else if (condition.status) {
+    holds = condition.status.includes(response.responseCode);
+  } else if (condition.responseTime) {
+    holds = inRange(response.responseTime, condition.responseTime);
+  } else if (condition.bodyLength) {
+    const html = condition.withoutScripts
+      ? response.html.replace(/<script[^>]*>[\s\S]*?<\/script>/g, '')
+      : response.html;
+    holds = inRange(html.trim().length, condition.bodyLength);
+  } else {
+    holds = false;
+  }
+
+  return condition.not ? !holds : holds;
+}
+
+function evaluateRule(rule: AntiBotRule, response: RuleResponse, lowerHtml: string): RuleMatch | null {
+  if (rule.platforms && !rule.platforms.includes(response.platform)) return null;
+  if (rule.allOf && !rule.allOf.every(condition => conditionHolds(condition, response, lowerHtml))) return null;
+  if (rule.anyOf?.length && !rule.anyOf.some(condition => conditionHolds(condition, response, lowerHtml))) return null;
+
+  if (!rule.patterns) {
+    return { id: rule.id, weight: rule.weight, hits: 1 };
+  }
+
+  const found = rule.patterns.filter(pattern => lowerHtml.includes(pattern.toLowerCase()));
+  return found.length > 0 ? { id: rule.id, weight: rule.weight, hits: found.length, patterns: found } : null;
+}
+
+function fillAction(template: string, response: RuleResponse): string {
+  return template
+    .replace(/\{platform\}/g, response.platform)
+    .replace(/\{header:([^|}]+)(?:\|([^}]*))?\}/g, (_match, name: string, fallback = '') =>
+      response.headers[name.toLowerCase()] || fallback
+    );
+}
+
+/**
+ * Score the response with every detector in the rule set. Each detector reports
+ * the rules that matched, whether or not it crossed its threshold.
+ */
+export function evaluateAntiBotRules(response: RuleResponse, ruleSet: AntiBotRuleSet = getAntiBotRules()): DetectorEvaluation[] {
+  const lowerHtml = response.html.toLowerCase();
+
+  return ruleSet.detectors.map(detector => {
+    const matches = detector.rules
+      .map(rule => evaluateRule(rule, response, lowerHtml))
+      .filter((match): match is RuleMatch => match !== null);
+
+    // Summed one hit at a time so scores near a threshold land where they always have
+    let confidence = 0;
+    matches.forEach(match => {
+      for (let hit = 0; hit < match.hits; hit++) {
+        confidence += match.weight;
+      }
+    });
+
+    return {
+      detectionType: detector.detectionType,
+      confidence: Math.min(confidence, 1.0),
+      threshold: detector.threshold,
+      blocked: confidence > detector.threshold,
+      suggestedAction: fillAction(detector.suggestedAction, response),
+      matches
+    };
+  });
+}
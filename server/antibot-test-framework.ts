@@ -21,6 +21,10 @@ export const TEST_CONFIG = {
   baseUrl: 'http://localhost:5000',
   timeout: 60000, // 60 seconds for scraping tests
   maxRetries: 3,
+
+  // Set RETAILER_HOST_OVERRIDE (e.g. http://localhost:4010 from `npm run simulator`) to run
+  // against the offline retailer simulator; workers inherit it and rewrite the URLs below
+  hostOverride: process.env.RETAILER_HOST_OVERRIDE || null,
   
   // Real URLs for testing different scenarios
   testUrls: {
@@ -318,6 +322,9 @@ export class AntiBotIntegrationTester {
    */
   async runComprehensiveTests(): Promise<ScenarioResults[]> {
     console.log('🔍 Starting Comprehensive Anti-Bot Detection Tests');
+    console.log(TEST_CONFIG.hostOverride
+      ? `🧪 Using retailer simulator at ${TEST_CONFIG.hostOverride}`
+      : '🌐 Using live retailer sites');
     console.log('=' * 60);
     
     await this.initializeWorkers();
@@ -0,0 +1,131 @@
+import path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { detectAntiBot } from './antibot-detector';
+import { extractProductDetails, extractSearchResults } from './product-extractor';
+import { getCassetteDir, listCassettes, readCassette, writeCassette, type Cassette, type CassetteExpectation } from './http-cassettes';
+
+/**
+ * Cassette Fixture Runner
+ * Runs the product/search extractors and anti-bot detection over every recorded
+ * cassette and compares title, price, stock and detection with the cassette's
+ * golden expectations. Exits non-zero on any mismatch so selector breakage shows
+ * up before it reaches users.
+ *
+ *   npm run test:cassettes                 check every cassette
+ *   npm run test:cassettes -- --update     (re)write golden expectations from the current code
+ *   npm run test:cassettes -- walmart      only cassettes whose file name contains "walmart"
+ */
+
+// Null for pages from unknown hosts: without a retailer there is nothing to check them against
+function evaluate(cassette: Cassette): CassetteExpectation | null {
+  const { request, response } = cassette;
+  if (!request.platform) return null;
+
+  const detection = detectAntiBot(response.body, request.url, response.status, response.responseTime, response.headers, request.platform);
+  const actual: CassetteExpectation = {
+    detection: { isBlocked: detection.isBlocked, detectionType: detection.detectionType }
+  };
+
+  if (request.page === 'product') {
+    const details = extractProductDetails(response.body, request.platform);
+    actual.product = {
+      title: details?.name ?? null,
+      price: details?.price ?? null,
+      currency: details?.currency ?? null,
+      availability: details?.availability ?? null
+    };
+  } else {
+    const results = extractSearchResults(response.body, request.platform, 5);
+    actual.search = {
+      count: results.length,
+      firstName: results[0]?.name ?? null,
+      firstPrice: results[0]?.price ?? null
+    };
+  }
+
+  return actual;
+}
+
+// Field-by-field differences, as "path: expected -> actual"
+function diff(expected: unknown, actual: unknown, prefix = ''): string[] {
+  if (isDeepStrictEqual(expected, actual)) return [];
+  if (expected && actual && typeof expected === 'object' && typeof actual === 'object') {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    return Array.from(keys).flatMap(key =>
+      diff((expected as Record<string, unknown>)[key], (actual as Record<string, unknown>)[key], prefix ? `${prefix}.${key}` : key)
+    );
+  }
+  return [`${prefix}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+}
+
+function run(): number {
+  const args = process.argv.slice(2);
+  const update = args.includes('--update');
+  const filters = args.filter(arg => !arg.startsWith('--'));
+
+  const files = listCassettes().filter(file => filters.every(filter => path.basename(file).includes(filter)));
+  if (files.length === 0) {
+    console.log(`[Cassettes] No cassettes found in ${getCassetteDir()}`);
+    console.log('[Cassettes] Record some with HTTP_CASSETTE_MODE=record (see replit.md)');
+    return 0;
+  }
+
+  let passed = 0;
+  let failed = 0;
+  let skipped = 0;
+  let updated = 0;
+
+  files.forEach(file => {
+    const name = path.basename(file);
+    let cassette: Cassette;
+    try {
+      cassette = readCassette(file);
+    } catch (error) {
+      failed++;
+      console.log(`✗ ${name}: unreadable cassette (${(error as Error).message})`);
+      return;
+    }
+
+    const actual = evaluate(cassette);
+    if (!actual) {
+      skipped++;
+      console.log(`- ${name}: not a retailer page, skipped`);
+      return;
+    }
+
+    if (update) {
+      if (!isDeepStrictEqual(cassette.expected, actual)) {
+        writeCassette(file, { ...cassette, expected: actual });
+        updated++;
+        console.log(`↻ ${name}: golden expectations updated`);
+      }
+      return;
+    }
+
+    if (!cassette.expected) {
+      failed++;
+      console.log(`✗ ${name}: no golden expectations (run with --update after checking the page)`);
+      return;
+    }
+
+    const differences = diff(cassette.expected, actual);
+    if (differences.length === 0) {
+      passed++;
+      console.log(`✓ ${name}`);
+    } else {
+      failed++;
+      console.log(`✗ ${name} (${cassette.request.url})`);
+      differences.forEach(line => console.log(`    ${line}`));
+    }
+  });
+
+  if (update) {
+    console.log(`\n${updated} of ${files.length} cassettes updated`);
+    return 0;
+  }
+
+  console.log(`\n${passed} passed, ${failed} failed${skipped > 0 ? `, ${skipped} skipped` : ''} (${files.length} cassettes)`);
+  return failed > 0 ? 1 : 0;
+}
+
+process.exit(run());
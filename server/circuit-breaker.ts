@@ -0,0 +1,151 @@
+import type { CircuitState, PlatformCircuitStatus } from '@shared/circuit-breaker';
+import type { RetailerId } from '@shared/retailers';
+
+/**
+ * Circuit Breaker
+ * Counts how many scheduled checks on a retailer the anti-bot rules engine
+ * (antibot-detector.ts) flagged as blocked, whether a worker or the main thread
+ * ran them. Once blocks cross the threshold the circuit opens and the scheduler
+ * holds back every check on that retailer instead of letting each product hit
+ * it again on its own backoff. After a cool-down a single probe check is let
+ * through (half-open): a page closes the circuit, another block reopens it
+ * with twice the cool-down.
+ */
+
+const WINDOW_MS = 10 * 60 * 1000;
+// Open once this many checks in the window were blocked...
+const MIN_BLOCKS = 5;
+// ...and blocks are at least this share of the checks that reached the retailer
+const OPEN_BLOCK_RATE = 0.5;
+const INITIAL_COOLDOWN_MS = 5 * 60 * 1000;
+const MAX_COOLDOWN_MS = 60 * 60 * 1000;
+// While the probe is out, held back checks look again this often
+const PROBE_WAIT_MS = 30 * 1000;
+
+// run: check normally; probe: this check decides whether the circuit closes; wait: hold it back
+export type CircuitAdmission = 'run' | 'probe' | 'wait';
+
+export interface CircuitTransition {
+  platform: RetailerId;
+  from: CircuitState;
+  to: CircuitState;
+}
+
+interface CheckRecord {
+  at: number;
+  blocked: boolean;
+}
+
+function rate(part: number, total: number): number | null {
+  return total > 0 ? Math.round((part / total) * 1000) / 1000 : null;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private checks: CheckRecord[] = [];
+  private cooldownMs = INITIAL_COOLDOWN_MS;
+  private openedAt?: number;
+  private retryAt?: number;
+  private probing = false;
+  private trips = 0;
+
+  constructor(readonly platform: RetailerId) {}
+
+  // Whether a check may run now; the first one after the cool-down becomes the probe
+  admit(now = Date.now()): CircuitAdmission {
+    if (this.state === 'closed') return 'run';
+
+    if (this.state === 'open') {
+      if (now < this.retryAt!) return 'wait';
+      this.state = 'half_open';
+      console.log(`[CircuitBreaker] ${this.platform} cool-down over, letting a probe check through`);
+    }
+
+    if (this.probing) return 'wait';
+    this.probing = true;
+    return 'probe';
+  }
+
+  // How long a held back check should wait before asking again
+  retryDelay(now = Date.now()): number {
+    if (this.state === 'open') return Math.max(0, this.retryAt! - now);
+    return PROBE_WAIT_MS;
+  }
+
+  /**
+   * Record a check's outcome: blocked by anti-bot protection, not blocked, or
+   * null when it never reached the retailer (says nothing about blocking).
+   * Returns the state change it caused, if any.
+   */
+  record(blocked: boolean | null, probe: boolean, now = Date.now()): CircuitTransition | null {
+    if (probe) {
+      this.probing = false;
+      // A network failure is no answer; the next check becomes the probe
+      if (blocked === null) return null;
+
+      if (blocked) {
+        this.cooldownMs = Math.min(this.cooldownMs * 2, MAX_COOLDOWN_MS);
+        return this.open(now);
+      }
+
+      // Blocks from before the pause shouldn't trip the circuit again right away
+      this.checks = [];
+      this.cooldownMs = INITIAL_COOLDOWN_MS;
+      this.openedAt = undefined;
+      this.retryAt = undefined;
+      console.log(`[CircuitBreaker] ${this.platform} probe got through, resuming checks`);
+      return this.transition('closed');
+    }
+
+    if (blocked === null) return null;
+    this.checks.push({ at: now, blocked });
+    this.prune(now);
+
+    // Checks started before the circuit opened can still finish while it is open
+    if (this.state !== 'closed') return null;
+
+    const blocks = this.checks.filter(check => check.blocked).length;
+    if (blocks >= MIN_BLOCKS && blocks / this.checks.length >= OPEN_BLOCK_RATE) {
+      return this.open(now);
+    }
+    return null;
+  }
+
+  private open(now: number): CircuitTransition {
+    this.trips++;
+    this.openedAt = this.openedAt ?? now;
+    this.retryAt = now + this.cooldownMs;
+    console.warn(`[CircuitBreaker] ${this.platform} is blocking checks, pausing them for ${Math.round(this.cooldownMs / 1000)}s`);
+    return this.transition('open');
+  }
+
+  private transition(to: CircuitState): CircuitTransition {
+    const from = this.state;
+    this.state = to;
+    return { platform: this.platform, from, to };
+  }
+
+  private prune(now: number): void {
+    while (this.checks.length > 0 && this.checks[0].at <= now - WINDOW_MS) {
+      this.checks.shift();
+    }
+  }
+
+  getStatus(now = Date.now()): PlatformCircuitStatus {
+    this.prune(now);
+    const blocks = this.checks.filter(check => check.blocked).length;
+
+    return {
+      platform: this.platform,
+      state: this.state,
+      checks: this.checks.length,
+      blocks,
+      blockRate: rate(blocks, this.checks.length),
+      windowMinutes: WINDOW_MS / (60 * 1000),
+      cooldownSeconds: Math.round(this.cooldownMs / 1000),
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : undefined,
+      retryAt: this.state === 'open' && this.retryAt ? new Date(this.retryAt).toISOString() : undefined,
+      trips: this.trips
+    };
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Cookie Jar
+ * A small browser-like cookie jar for scraper requests: stores the cookies a
+ * retailer sets (Domain, Path, Secure, Expires and Max-Age are honoured) and
+ * builds the Cookie header for the next request to it. Plain data in and out
+ * so a jar can be handed to a scraping worker and saved by the cookie store.
+ * Free of @shared imports so workers can load it.
+ */
+
+// A cookie without Expires/Max-Age lives as long as the browser; ours never closes, so cap it
+const SESSION_COOKIE_TTL_MS = 24 * 60 * 60 * 1000;
+// Retailers set tracking cookies for decades; rotate the identity well before that
+const MAX_COOKIE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_COOKIES = 100;
+
+export interface StoredCookie {
+  name: string;
+  value: string;
+  domain: string;     // lowercase, without a leading dot
+  hostOnly: boolean;  // no Domain attribute: sent to this exact host only
+  path: string;
+  secure: boolean;
+  httpOnly: boolean;
+  expiresAt: number;  // ms since epoch
+}
+
+function domainMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) return true;
+  if (!requestPath.startsWith(cookiePath)) return false;
+  return cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/';
+}
+
+// RFC 6265 default-path: the request path up to (not including) its last slash
+function defaultPath(requestPath: string): string {
+  const lastSlash = requestPath.lastIndexOf('/');
+  return lastSlash <= 0 ? '/' : requestPath.slice(0, lastSlash);
+}
+
+/**
+ * Parse one Set-Cookie header received for requestUrl. Returns null for malformed
+ * cookies and for cookies whose Domain doesn't cover the request host.
+ * An already expired cookie is returned with expiresAt <= now (a deletion).
+ */
+export function parseSetCookie(header: string, requestUrl: URL, now = Date.now()): StoredCookie | null {
+  const [pair, ...attributes] = header.split(';');
+  const separator = pair.indexOf('=');
+  if (separator <= 0) return null;
+
+  const host = requestUrl.hostname.toLowerCase();
+  const cookie: StoredCookie = {
+    name: pair.slice(0, separator).trim(),
+    value: pair.slice(separator + 1).trim(),
+    domain: host,
+    hostOnly: true,
+    path: defaultPath(requestUrl.pathname),
+    secure: false,
+    httpOnly: false,
+    expiresAt: now + SESSION_COOKIE_TTL_MS
+  };
+  if (!cookie.name) return null;
+
+  let expires: number | undefined;
+  let maxAge: number | undefined;
+
+  for (const attribute of attributes) {
+    const [rawKey, ...rest] = attribute.split('=');
+    const key = rawKey.trim().toLowerCase();
+    const value = rest.join('=').trim();
+
+    switch (key) {
+      case 'expires': {
+        const parsed = Date.parse(value);
+        if (!isNaN(parsed)) expires = parsed;
+        break;
+      }
+      case 'max-age':
+        if (/^-?\d+$/.test(value)) maxAge = Number(value);
+        break;
+      case 'domain': {
+        const domain = value.replace(/^\./, '').toLowerCase();
+        if (!domain) break;
+        if (!domainMatches(host, domain)) return null;
+        cookie.domain = domain;
+        cookie.hostOnly = false;
+        break;
+      }
+      case 'path':
+        if (value.startsWith('/')) cookie.path = value;
+        break;
+      case 'secure':
+        cookie.secure = true;
+        break;
+      case 'httponly':
+        cookie.httpOnly = true;
+        break;
+    }
+  }
+
+  // Max-Age wins over Expires
+  if (maxAge !== undefined) {
+    cookie.expiresAt = maxAge <= 0 ? 0 : now + maxAge * 1000;
+  } else if (expires !== undefined) {
+    cookie.expiresAt = expires;
+  }
+  cookie.expiresAt = Math.min(cookie.expiresAt, now + MAX_COOKIE_TTL_MS);
+
+  return cookie;
+}
+
+export class CookieJar {
+  private cookies: StoredCookie[];
+  private changes = 0;
+
+  constructor(cookies: StoredCookie[] = []) {
+    this.cookies = cookies.map(cookie => ({ ...cookie }));
+  }
+
+  // Bumped on every change so the store knows which jars need saving
+  get version(): number {
+    return this.changes;
+  }
+
+  get size(): number {
+    return this.cookies.length;
+  }
+
+  // When the last cookie expires (0 for an empty jar)
+  get expiresAt(): number {
+    return this.cookies.reduce((latest, cookie) => Math.max(latest, cookie.expiresAt), 0);
+  }
+
+  /**
+   * Store the Set-Cookie headers of a response to requestUrl (axios gives them
+   * as an array). Returns true when the jar changed.
+   */
+  setCookies(headers: string | string[] | undefined, requestUrl: string, now = Date.now()): boolean {
+    if (!headers) return false;
+    const url = new URL(requestUrl);
+    let changed = false;
+
+    for (const header of Array.isArray(headers) ? headers : [headers]) {
+      const cookie = parseSetCookie(header, url, now);
+      if (!cookie) continue;
+
+      const existing = this.cookies.findIndex(c => c.name === cookie.name && c.domain === cookie.domain && c.path === cookie.path);
+      if (existing >= 0) {
+        this.cookies.splice(existing, 1);
+        changed = true;
+      }
+      if (cookie.expiresAt > now) {
+        this.cookies.push(cookie);
+        changed = true;
+      }
+    }
+
+    if (this.cookies.length > MAX_COOKIES) {
+      // Keep the longest lived cookies
+      this.cookies.sort((a, b) => b.expiresAt - a.expiresAt);
+      this.cookies.length = MAX_COOKIES;
+    }
+
+    if (changed) this.changes++;
+    return changed;
+  }
+
+  // The Cookie header for a request to requestUrl, or undefined when no cookie applies
+  getCookieHeader(requestUrl: string, now = Date.now()): string | undefined {
+    const url = new URL(requestUrl);
+    const host = url.hostname.toLowerCase();
+    const secure = url.protocol === 'https:';
+
+    const matching = this.cookies
+      .filter(cookie =>
+        cookie.expiresAt > now &&
+        (cookie.hostOnly ? host === cookie.domain : domainMatches(host, cookie.domain)) &&
+        pathMatches(url.pathname, cookie.path) &&
+        (!cookie.secure || secure)
+      )
+      // More specific paths first, as browsers send them
+      .sort((a, b) => b.path.length - a.path.length);
+
+    return matching.length > 0 ? matching.map(cookie => `${cookie.name}=${cookie.value}`).join('; ') : undefined;
+  }
+
+  // Drop expired cookies; returns true when any were removed
+  removeExpired(now = Date.now()): boolean {
+    const before = this.cookies.length;
+    this.cookies = this.cookies.filter(cookie => cookie.expiresAt > now);
+    if (this.cookies.length === before) return false;
+    this.changes++;
+    return true;
+  }
+
+  toJSON(): StoredCookie[] {
+    return this.cookies.map(cookie => ({ ...cookie }));
+  }
+}
@@ -0,0 +1,190 @@
+import { createHash } from 'crypto';
+import { CookieJar, type StoredCookie } from './cookie-jar';
+import { cryptoService } from './crypto';
+import { storage } from './storage';
+import { getRetailer } from './retailers';
+import { getFingerprintProfile, matchesFingerprintFilter, type FingerprintFilter, type FingerprintProfile } from './fingerprint-profiles';
+import { fingerprintRotator } from './fingerprint-rotator';
+import type { Settings } from '@shared/schema';
+import type { RetailerId } from '@shared/retailers';
+
+/**
+ * Cookie Store
+ * Keeps a cookie jar per user, retailer and identity (the proxy a check goes
+ * through plus a fingerprint profile pinned to the jar), so scheduled checks look like
+ * one returning browser instead of a new visitor every time. Jars are saved
+ * encrypted with CryptoService and restored at startup. Encryption is slow
+ * (PBKDF2), so changed jars are written in batches rather than after every check.
+ */
+
+const FLUSH_INTERVAL_MS = 60 * 1000;
+
+// A jar and the browser profile requests using it must present
+export interface CookieSession {
+  jar: CookieJar;
+  profile: FingerprintProfile;
+}
+
+interface JarEntry extends CookieSession {
+  userId: string;
+  platform: RetailerId;
+  identity: string;
+  proxyId: string | null;
+  lastUsedAt: number;
+  savedVersion: number;
+}
+
+// Cookies are kept when the user turned cookie management on and, for retailers
+// with their own workaround switch, left that on too
+export function cookiesEnabled(settings: Settings, platform: RetailerId): boolean {
+  const workaroundSetting = getRetailer(platform).workaroundSetting;
+  return settings.enableCookieManagement && (!workaroundSetting || settings[workaroundSetting]);
+}
+
+function identityOf(proxyId: string | null, profileId: string): string {
+  return createHash('sha256').update(`${proxyId ?? 'direct'}|${profileId}`).digest('hex').slice(0, 16);
+}
+
+function jarKey(userId: string, platform: string, identity: string): string {
+  return `${userId}:${platform}:${identity}`;
+}
+
+class CookieStore {
+  private jars = new Map<string, JarEntry>();
+  private flushInterval: NodeJS.Timeout;
+  private flushing: Promise<void> | null = null;
+
+  constructor() {
+    this.flushInterval = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    this.flushInterval.unref();
+  }
+
+  // Restore saved jars; expired ones are deleted, unreadable ones and those of retired profiles skipped
+  loadPersisted(): Promise<void> {
+    return this.load().catch(error => {
+      console.error('[CookieStore] Failed to restore cookie jars:', error);
+    });
+  }
+
+  private async load(): Promise<void> {
+    const now = Date.now();
+    const removed = await storage.deleteExpiredScraperCookieJars(new Date(now));
+    const rows = await storage.getScraperCookieJars();
+
+    for (const row of rows) {
+      const profile = getFingerprintProfile(row.profileId);
+      if (!profile) continue;
+
+      let cookies: StoredCookie[];
+      try {
+        cookies = JSON.parse(cryptoService.decrypt(row.cookies));
+      } catch {
+        console.warn(`[CookieStore] Skipping unreadable ${row.platform} cookie jar for user ${row.userId}`);
+        continue;
+      }
+
+      const jar = new CookieJar(cookies);
+      jar.removeExpired(now);
+      this.jars.set(jarKey(row.userId, row.platform, row.identity), {
+        userId: row.userId,
+        platform: row.platform as RetailerId,
+        identity: row.identity,
+        proxyId: row.proxyId,
+        profile,
+        jar,
+        lastUsedAt: row.updatedAt.getTime(),
+        savedVersion: jar.version
+      });
+    }
+
+    console.log(`[CookieStore] Restored ${this.jars.size} cookie jars` + (removed > 0 ? `, deleted ${removed} expired` : ''));
+  }
+
+  /**
+   * The cookie session for a user's checks on a retailer through a proxy (null
+   * for direct requests). The most recently used jar for that proxy whose profile
+   * the filter still allows is reused; a new one pins a profile from the rotator.
+   */
+  getSession(userId: string, platform: RetailerId, proxyId: string | null, filter: FingerprintFilter): CookieSession {
+    let entry: JarEntry | undefined;
+    this.jars.forEach(candidate => {
+      if (candidate.userId === userId && candidate.platform === platform && candidate.proxyId === proxyId &&
+          matchesFingerprintFilter(candidate.profile, filter) &&
+          (!entry || candidate.lastUsedAt > entry.lastUsedAt)) {
+        entry = candidate;
+      }
+    });
+
+    if (!entry) {
+      const profile = fingerprintRotator.pick(filter, platform);
+      const identity = identityOf(proxyId, profile.id);
+      entry = { userId, platform, identity, proxyId, profile, jar: new CookieJar(), lastUsedAt: 0, savedVersion: 0 };
+      this.jars.set(jarKey(userId, platform, identity), entry);
+    }
+
+    entry.lastUsedAt = Date.now();
+    return entry;
+  }
+
+  // Forget all of a user's cookies (the clear_cache_cookies solution)
+  async clear(userId: string): Promise<number> {
+    let cleared = 0;
+    Array.from(this.jars.entries()).forEach(([key, entry]) => {
+      if (entry.userId === userId) {
+        this.jars.delete(key);
+        cleared++;
+      }
+    });
+    await storage.deleteScraperCookieJars(userId);
+    console.log(`[CookieStore] Cleared ${cleared} cookie jars for user ${userId}`);
+    return cleared;
+  }
+
+  // Save every jar that changed since it was last saved; empty jars are dropped from memory
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.saveChanged()
+        .catch(error => console.error('[CookieStore] Failed to save cookie jars:', error))
+        .finally(() => {
+          this.flushing = null;
+        });
+    }
+    return this.flushing;
+  }
+
+  private async saveChanged(): Promise<void> {
+    const now = Date.now();
+    const entries = Array.from(this.jars.entries());
+
+    for (const [key, entry] of entries) {
+      // Cleared while an earlier jar was being saved
+      if (this.jars.get(key) !== entry) continue;
+      entry.jar.removeExpired(now);
+      if (entry.jar.version === entry.savedVersion) continue;
+
+      const version = entry.jar.version;
+      await storage.saveScraperCookieJar({
+        userId: entry.userId,
+        platform: entry.platform,
+        identity: entry.identity,
+        proxyId: entry.proxyId,
+        profileId: entry.profile.id,
+        cookies: cryptoService.encrypt(JSON.stringify(entry.jar.toJSON())),
+        // An emptied jar is saved already expired and deleted at the next startup
+        expiresAt: new Date(entry.jar.expiresAt || now)
+      });
+      entry.savedVersion = version;
+
+      if (entry.jar.size === 0 && this.jars.get(key) === entry) {
+        this.jars.delete(key);
+      }
+    }
+  }
+
+  destroy(): void {
+    clearInterval(this.flushInterval);
+  }
+}
+
+// Export singleton instance
+export const cookieStore = new CookieStore();
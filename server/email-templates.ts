@@ -0,0 +1,179 @@
+import { getRetailer } from './retailers';
+import type { UserNotification } from '@shared/schema';
+import type { RetailerId } from '@shared/retailers';
+import type { SelectorBreakageAlert } from '@shared/selector-health';
+
+/**
+ * Alert email templates
+ * Renders price-drop and stock alerts as HTML and plain-text messages; several
+ * alerts are rendered as one digest. Selector breakage alerts go to admins.
+ */
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Shape of notifications.data for the two alert types
+interface AlertData {
+  currentPrice?: number;
+  previousPrice?: number;
+  currency?: string;
+  savings?: number;
+  discountPercent?: number;
+  inStock?: boolean;
+  productUrl?: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatPrice(amount: number, currency = 'USD'): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    // Unknown currency code from a scraped page
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+function retailerName(platform: string): string {
+  try {
+    return getRetailer(platform as RetailerId).displayName;
+  } catch {
+    return platform;
+  }
+}
+
+// One-line summary used in subjects and the text body
+function headline(notification: UserNotification): string {
+  const data = notification.data as AlertData;
+  if (notification.type === 'price_drop' && data.currentPrice !== undefined) {
+    return `Price drop: ${notification.productName} is now ${formatPrice(data.currentPrice, data.currency)}`;
+  }
+  return `Back in stock: ${notification.productName}`;
+}
+
+function renderTextItem(notification: UserNotification): string {
+  const data = notification.data as AlertData;
+  const lines = [`${headline(notification)} (${retailerName(notification.platform)})`];
+
+  if (notification.type === 'price_drop' && data.previousPrice !== undefined && data.savings !== undefined) {
+    lines.push(`  Was ${formatPrice(data.previousPrice, data.currency)}, save ${formatPrice(data.savings, data.currency)} (${data.discountPercent}% off)`);
+  }
+  if (data.productUrl) {
+    lines.push(`  ${data.productUrl}`);
+  }
+  lines.push(`  ${notification.createdAt.toLocaleString()}`);
+
+  return lines.join('\n');
+}
+
+function renderHtmlItem(notification: UserNotification): string {
+  const data = notification.data as AlertData;
+  const isPriceDrop = notification.type === 'price_drop';
+  const accent = isPriceDrop ? '#4CAF50' : '#2196F3';
+  const label = isPriceDrop ? 'Price Drop' : 'Back In Stock';
+
+  let detail = '<p style="margin: 4px 0;">This product is back in stock.</p>';
+  if (isPriceDrop && data.currentPrice !== undefined) {
+    detail = `
+      <p style="margin: 4px 0;">
+        <strong style="color: ${accent}; font-size: 18px;">${escapeHtml(formatPrice(data.currentPrice, data.currency))}</strong>
+        ${data.previousPrice !== undefined ? `<span style="color: #999; text-decoration: line-through; margin-left: 8px;">${escapeHtml(formatPrice(data.previousPrice, data.currency))}</span>` : ''}
+      </p>
+      ${data.savings !== undefined ? `<p style="margin: 4px 0; color: ${accent};">Save ${escapeHtml(formatPrice(data.savings, data.currency))} (${data.discountPercent}% off)</p>` : ''}`;
+  }
+
+  const link = data.productUrl
+    ? `<a href="${escapeHtml(data.productUrl)}" style="display: inline-block; margin-top: 8px; color: ${accent};">View on ${escapeHtml(retailerName(notification.platform))}</a>`
+    : '';
+
+  return `
+    <div style="border-left: 4px solid ${accent}; padding: 12px 16px; margin: 16px 0; background: #fafafa;">
+      <div style="font-size: 12px; text-transform: uppercase; color: ${accent}; font-weight: bold;">${label} &middot; ${escapeHtml(retailerName(notification.platform))}</div>
+      <h3 style="margin: 6px 0;">${escapeHtml(notification.productName)}</h3>
+      ${detail}
+      ${link}
+    </div>`;
+}
+
+/**
+ * Render one alert, or a digest when several alerts are batched together
+ */
+export function renderAlertEmail(notifications: UserNotification[]): RenderedEmail {
+  if (notifications.length === 0) {
+    throw new Error('Cannot render an alert email without notifications');
+  }
+
+  const isDigest = notifications.length > 1;
+  const subject = isDigest
+    ? `Stock Monitor - ${notifications.length} new alerts`
+    : `Stock Monitor - ${headline(notifications[0])}`;
+  const intro = isDigest
+    ? `You have ${notifications.length} new alerts for products you're monitoring.`
+    : 'A product you\'re monitoring has a new alert.';
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #333;">${isDigest ? 'Your Stock Monitor Alerts' : 'Stock Monitor Alert'}</h2>
+      <p>${intro}</p>
+      ${notifications.map(renderHtmlItem).join('')}
+      <hr style="margin: 20px 0; border: none; border-top: 1px solid #ddd;">
+      <small style="color: #666;">
+        You're receiving this because email alerts are enabled in your Stock Monitor settings.
+      </small>
+    </div>
+  `;
+
+  const text = [
+    intro,
+    ...notifications.map(renderTextItem),
+    '--\nYou\'re receiving this because email alerts are enabled in your Stock Monitor settings.'
+  ].join('\n\n');
+
+  return { subject, html, text };
+}
+
+/**
+ * Render a selector breakage alert for admins
+ */
+export function renderSelectorAlertEmail(alert: SelectorBreakageAlert): RenderedEmail {
+  const name = retailerName(alert.platform);
+  const subject = `Stock Monitor - ${name} selectors may be broken`;
+  const footer = 'You\'re receiving this because you are a Stock Monitor admin with email alerts enabled.';
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #333;">Selector Breakage Alert</h2>
+      <p>${escapeHtml(alert.message)}</p>
+      <div style="border-left: 4px solid #F44336; padding: 12px 16px; margin: 16px 0; background: #fafafa;">
+        <div style="font-size: 12px; text-transform: uppercase; color: #F44336; font-weight: bold;">Parse Rate &middot; ${escapeHtml(name)}</div>
+        <p style="margin: 4px 0;">Last hour: <strong>${Math.round(alert.recentRate * 100)}%</strong> (previous day: ${Math.round(alert.baselineRate * 100)}%) over ${alert.okResponses} normal responses</p>
+        ${alert.failingSelectors.length > 0
+          ? `<p style="margin: 4px 0;">Failing selectors:</p><ul>${alert.failingSelectors.map(selector => `<li><code>${escapeHtml(selector)}</code></li>`).join('')}</ul>`
+          : ''}
+      </div>
+      <p>Check the Scraper Health tab of the Admin Dashboard.</p>
+      <hr style="margin: 20px 0; border: none; border-top: 1px solid #ddd;">
+      <small style="color: #666;">
+        ${footer}
+      </small>
+    </div>
+  `;
+
+  const text = [
+    alert.message,
+    'Check the Scraper Health tab of the Admin Dashboard.',
+    `--\n${footer}`
+  ].join('\n\n');
+
+  return { subject, html, text };
+}
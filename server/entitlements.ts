@@ -0,0 +1,168 @@
+import { storage } from './storage';
+import { authService } from './auth';
+import { logger } from './logger';
+import { getRetailer } from './retailers';
+import { retailerIntervalSetting, type RetailerId } from '@shared/retailers';
+
+/**
+ * Plan Entitlement Service
+ * Resolves a user's plan limits (item count, minimum check interval) and
+ * enforces them when products are added or scheduled
+ */
+
+export interface Entitlements {
+  authorized: boolean;
+  accessType: 'subscription' | 'beta' | null;
+  planTier: 'beta' | 'free' | 'pro';
+  itemLimit: number;
+  checkInterval: number; // minimum minutes between checks
+  status: 'active' | 'restricted';
+  reason?: string;
+}
+
+// Structured denial body, same shape the authorize middleware returns
+export interface EntitlementDenial {
+  status: 402 | 403;
+  body: {
+    error: string;
+    reason: string;
+    code: 'ACCOUNT_BANNED' | 'ACCOUNT_SUSPENDED' | 'ITEM_LIMIT_REACHED';
+    userId: string;
+    itemLimit?: number;
+    currentCount?: number;
+    planTier?: string;
+  };
+}
+
+export type EntitlementCheck = { allowed: true; entitlements: Entitlements } | { allowed: false; denial: EntitlementDenial };
+
+// Limits for users without a paid plan and for beta testers
+const FREE_LIMITS = { itemLimit: 5, checkInterval: 30 };
+const BETA_LIMITS = { itemLimit: 500, checkInterval: 5 };
+
+export class EntitlementService {
+  /**
+   * Resolve plan tier, item limit and minimum check interval for a user
+   */
+  async getEntitlements(userId: string): Promise<Entitlements> {
+    const authResult = await authService.checkUserAuthorization(userId);
+
+    let planTier: Entitlements['planTier'] = 'free';
+    let itemLimit = FREE_LIMITS.itemLimit;
+    let checkInterval = FREE_LIMITS.checkInterval;
+
+    if (authResult.authorized) {
+      if (authResult.accessType === 'beta') {
+        planTier = 'beta';
+        itemLimit = BETA_LIMITS.itemLimit;
+        checkInterval = BETA_LIMITS.checkInterval;
+      } else {
+        const subscription = await storage.getUserSubscription(userId);
+        if (subscription && subscription.planId) {
+          const plans = await storage.getSubscriptionPlans();
+          const plan = plans.find(p => p.id === subscription.planId);
+          if (plan) {
+            const features = plan.features;
+
+            // Derive tier from itemLimit for deterministic behavior - map to valid PlanTier values
+            planTier = (features?.itemLimit ?? 0) >= 50 ? 'pro' : 'free';
+            itemLimit = features?.itemLimit || FREE_LIMITS.itemLimit;
+            checkInterval = features?.checkInterval || FREE_LIMITS.checkInterval;
+          }
+        }
+      }
+    }
+
+    return {
+      authorized: authResult.authorized,
+      accessType: authResult.accessType || null,
+      planTier,
+      itemLimit,
+      checkInterval,
+      status: authResult.authorized ? 'active' : 'restricted',
+      reason: authResult.reason
+    };
+  }
+
+  /**
+   * Check whether the user may add another product.
+   * Banned/suspended accounts get 403; reaching the plan item limit gets 402 (upgrade required).
+   */
+  async checkCanAddProduct(userId: string): Promise<EntitlementCheck> {
+    const entitlements = await this.getEntitlements(userId);
+
+    const accountDenial = this.getAccountDenial(userId, entitlements);
+    if (accountDenial) {
+      return { allowed: false, denial: accountDenial };
+    }
+
+    const currentCount = (await storage.getProducts(userId)).length;
+    if (currentCount >= entitlements.itemLimit) {
+      logger.info(`User ${userId} reached item limit (${currentCount}/${entitlements.itemLimit})`);
+      return {
+        allowed: false,
+        denial: {
+          status: 402,
+          body: {
+            error: 'Item limit reached',
+            reason: `Your ${entitlements.planTier} plan allows monitoring up to ${entitlements.itemLimit} products. Upgrade your plan to add more.`,
+            code: 'ITEM_LIMIT_REACHED',
+            userId,
+            itemLimit: entitlements.itemLimit,
+            currentCount,
+            planTier: entitlements.planTier
+          }
+        }
+      };
+    }
+
+    return { allowed: true, entitlements };
+  }
+
+  /**
+   * Check whether the user may have products monitored at all
+   */
+  async checkCanMonitor(userId: string): Promise<EntitlementCheck> {
+    const entitlements = await this.getEntitlements(userId);
+    const accountDenial = this.getAccountDenial(userId, entitlements);
+    return accountDenial ? { allowed: false, denial: accountDenial } : { allowed: true, entitlements };
+  }
+
+  /**
+   * Scheduling interval (ms) for a platform: the user's configured interval,
+   * clamped so it is never shorter than the plan's minimum check interval
+   */
+  async getScheduleInterval(userId: string, platform: RetailerId, entitlements?: Entitlements): Promise<number> {
+    const resolved = entitlements ?? await this.getEntitlements(userId);
+    const userSettings = await storage.getSettingsOrDefaults(userId);
+
+    const retailer = getRetailer(platform);
+    const configured = userSettings?.[retailerIntervalSetting(platform)] ?? retailer.defaultCheckInterval;
+
+    const minutes = Math.max(configured, resolved.checkInterval);
+    if (minutes !== configured) {
+      logger.debug(`Clamped ${platform} interval for user ${userId} from ${configured} to ${minutes} minutes (plan: ${resolved.planTier})`);
+    }
+
+    return minutes * 60 * 1000;
+  }
+
+  private getAccountDenial(userId: string, entitlements: Entitlements): EntitlementDenial | null {
+    if (entitlements.reason?.includes('banned')) {
+      return {
+        status: 403,
+        body: { error: 'Access denied', reason: entitlements.reason, code: 'ACCOUNT_BANNED', userId }
+      };
+    }
+    if (entitlements.reason?.includes('suspended')) {
+      return {
+        status: 403,
+        body: { error: 'Access denied', reason: entitlements.reason, code: 'ACCOUNT_SUSPENDED', userId }
+      };
+    }
+    return null;
+  }
+}
+
+// Export singleton instance
+export const entitlementService = new EntitlementService();
@@ -0,0 +1,88 @@
+import type { Response } from 'express';
+import { randomUUID } from 'crypto';
+import type { MonitoringEvent, MonitoringEventInput } from '@shared/monitoring-events';
+
+/**
+ * Per-user server-sent event stream for monitoring events
+ * (price drops, stock changes, failed checks, anti-bot detections, paused platforms)
+ */
+export class MonitoringEventStream {
+  private clients = new Map<string, Set<Response>>();
+  private heartbeatInterval: NodeJS.Timeout;
+  private eventsPublished = 0;
+
+  constructor() {
+    // Comment lines keep proxies from closing idle connections
+    this.heartbeatInterval = setInterval(() => {
+      this.clients.forEach(connections => {
+        connections.forEach(res => res.write(': ping\n\n'));
+      });
+    }, 25000);
+    this.heartbeatInterval.unref();
+  }
+
+  /**
+   * Attach an HTTP response as an event stream for a user. The connection is
+   * removed automatically when the client disconnects.
+   */
+  addClient(userId: string, res: Response): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    // Ask EventSource clients to wait 5s before reconnecting
+    res.write('retry: 5000\n\n');
+
+    let connections = this.clients.get(userId);
+    if (!connections) {
+      connections = new Set();
+      this.clients.set(userId, connections);
+    }
+    connections.add(res);
+    console.log(`[Events] Client connected for user ${userId} (${connections.size} open)`);
+
+    res.on('close', () => {
+      const open = this.clients.get(userId);
+      if (!open) return;
+      open.delete(res);
+      if (open.size === 0) {
+        this.clients.delete(userId);
+      }
+    });
+  }
+
+  /**
+   * Send an event to every open connection of a user
+   */
+  publish(userId: string, input: MonitoringEventInput): MonitoringEvent {
+    const event = { ...input, id: randomUUID(), timestamp: new Date().toISOString() } as MonitoringEvent;
+    this.eventsPublished++;
+
+    const connections = this.clients.get(userId);
+    if (connections) {
+      const frame = `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+      connections.forEach(res => res.write(frame));
+    }
+
+    return event;
+  }
+
+  getStats(): { users: number; connections: number; eventsPublished: number } {
+    let connections = 0;
+    this.clients.forEach(open => { connections += open.size; });
+    return { users: this.clients.size, connections, eventsPublished: this.eventsPublished };
+  }
+
+  destroy(): void {
+    clearInterval(this.heartbeatInterval);
+    this.clients.forEach(connections => {
+      connections.forEach(res => res.end());
+    });
+    this.clients.clear();
+  }
+}
+
+// Export singleton instance
+export const monitoringEvents = new MonitoringEventStream();
@@ -0,0 +1,217 @@
+import type { FingerprintBrowser, FingerprintDevice } from '@shared/fingerprint-profiles';
+import type { UserAgentPool } from '@shared/solution-types';
+
+/**
+ * Browser Fingerprint Profiles
+ * Each profile is one real browser: its user agent, client hints, Accept values
+ * and the order it sends request headers in. Requests take every browser-specific
+ * header from a single profile so retailers never see combinations no browser
+ * sends (Safari with Chrome client hints, Firefox with Chrome's Accept header).
+ * Free of @shared runtime imports so workers can load it.
+ */
+
+export interface FingerprintProfile {
+  id: string;
+  name: string;
+  browser: FingerprintBrowser;
+  device: FingerprintDevice;
+  os: UserAgentPool['platform'];
+  userAgent: string;
+  headerOrder: string[];            // every header the browser may send on a page navigation, in its order
+  headers: Record<string, string>;  // fixed values; Referer, Sec-Fetch-Site and Cookie are filled per request
+}
+
+// Which profiles may be used, from the user agent toggles in settings.
+// Without rotation only the default profile is used; Edge is Chromium and counts as Chrome.
+export interface FingerprintFilter {
+  rotate: boolean;
+  desktop: boolean;
+  mobile: boolean;
+  chrome: boolean;
+  firefox: boolean;
+  safari: boolean;
+}
+
+export interface FingerprintRequestOptions {
+  referer?: string;
+  acceptLanguage?: string;          // replaces the profile's own
+  cookie?: string;
+  extraHeaders?: Record<string, string>;
+}
+
+const CHROMIUM_ORDER = [
+  'Connection', 'sec-ch-ua', 'sec-ch-ua-mobile', 'sec-ch-ua-platform', 'Upgrade-Insecure-Requests', 'User-Agent',
+  'Accept', 'Sec-Fetch-Site', 'Sec-Fetch-Mode', 'Sec-Fetch-User', 'Sec-Fetch-Dest', 'Referer',
+  'Accept-Encoding', 'Accept-Language', 'Cookie'
+];
+
+const FIREFOX_ORDER = [
+  'User-Agent', 'Accept', 'Accept-Language', 'Accept-Encoding', 'Referer', 'Connection', 'Cookie',
+  'Upgrade-Insecure-Requests', 'Sec-Fetch-Dest', 'Sec-Fetch-Mode', 'Sec-Fetch-Site', 'Sec-Fetch-User'
+];
+
+const SAFARI_ORDER = [
+  'Accept', 'Sec-Fetch-Site', 'Cookie', 'Sec-Fetch-Dest', 'Accept-Language', 'Sec-Fetch-Mode',
+  'User-Agent', 'Referer', 'Accept-Encoding', 'Connection'
+];
+
+function chromium(brand: string, mobile: boolean, platform: string, userAgent: string): Record<string, string> {
+  return {
+    'Connection': 'keep-alive',
+    'sec-ch-ua': `"Not_A Brand";v="8", "Chromium";v="120", "${brand}";v="120"`,
+    'sec-ch-ua-mobile': mobile ? '?1' : '?0',
+    'sec-ch-ua-platform': `"${platform}"`,
+    'Upgrade-Insecure-Requests': '1',
+    'User-Agent': userAgent,
+    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7',
+    'Sec-Fetch-Mode': 'navigate',
+    'Sec-Fetch-User': '?1',
+    'Sec-Fetch-Dest': 'document',
+    'Accept-Encoding': 'gzip, deflate, br',
+    'Accept-Language': 'en-US,en;q=0.9'
+  };
+}
+
+function firefox(userAgent: string): Record<string, string> {
+  return {
+    'User-Agent': userAgent,
+    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
+    'Accept-Language': 'en-US,en;q=0.5',
+    'Accept-Encoding': 'gzip, deflate, br',
+    'Connection': 'keep-alive',
+    'Upgrade-Insecure-Requests': '1',
+    'Sec-Fetch-Dest': 'document',
+    'Sec-Fetch-Mode': 'navigate',
+    'Sec-Fetch-User': '?1'
+  };
+}
+
+function safari(userAgent: string): Record<string, string> {
+  return {
+    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+    'Sec-Fetch-Dest': 'document',
+    'Accept-Language': 'en-US,en;q=0.9',
+    'Sec-Fetch-Mode': 'navigate',
+    'User-Agent': userAgent,
+    'Accept-Encoding': 'gzip, deflate, br',
+    'Connection': 'keep-alive'
+  };
+}
+
+const CHROME_WINDOWS_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const CHROME_MAC_UA = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const CHROME_LINUX_UA = 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const CHROME_ANDROID_UA = 'Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36';
+const EDGE_WINDOWS_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0';
+const FIREFOX_WINDOWS_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:121.0) Gecko/20100101 Firefox/121.0';
+const FIREFOX_MAC_UA = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10.15; rv:121.0) Gecko/20100101 Firefox/121.0';
+const FIREFOX_ANDROID_UA = 'Mozilla/5.0 (Android 14; Mobile; rv:121.0) Gecko/121.0 Firefox/121.0';
+const SAFARI_MAC_UA = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Safari/605.1.15';
+const SAFARI_IOS_UA = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1';
+
+export const FINGERPRINT_PROFILES: FingerprintProfile[] = [
+  {
+    id: 'chrome-120-windows', name: 'Chrome 120 on Windows', browser: 'chrome', device: 'desktop', os: 'windows',
+    userAgent: CHROME_WINDOWS_UA, headerOrder: CHROMIUM_ORDER, headers: chromium('Google Chrome', false, 'Windows', CHROME_WINDOWS_UA)
+  },
+  {
+    id: 'chrome-120-macos', name: 'Chrome 120 on macOS', browser: 'chrome', device: 'desktop', os: 'macos',
+    userAgent: CHROME_MAC_UA, headerOrder: CHROMIUM_ORDER, headers: chromium('Google Chrome', false, 'macOS', CHROME_MAC_UA)
+  },
+  {
+    id: 'chrome-120-linux', name: 'Chrome 120 on Linux', browser: 'chrome', device: 'desktop', os: 'linux',
+    userAgent: CHROME_LINUX_UA, headerOrder: CHROMIUM_ORDER, headers: chromium('Google Chrome', false, 'Linux', CHROME_LINUX_UA)
+  },
+  {
+    id: 'edge-120-windows', name: 'Edge 120 on Windows', browser: 'edge', device: 'desktop', os: 'windows',
+    userAgent: EDGE_WINDOWS_UA, headerOrder: CHROMIUM_ORDER, headers: chromium('Microsoft Edge', false, 'Windows', EDGE_WINDOWS_UA)
+  },
+  {
+    id: 'firefox-121-windows', name: 'Firefox 121 on Windows', browser: 'firefox', device: 'desktop', os: 'windows',
+    userAgent: FIREFOX_WINDOWS_UA, headerOrder: FIREFOX_ORDER, headers: firefox(FIREFOX_WINDOWS_UA)
+  },
+  {
+    id: 'firefox-121-macos', name: 'Firefox 121 on macOS', browser: 'firefox', device: 'desktop', os: 'macos',
+    userAgent: FIREFOX_MAC_UA, headerOrder: FIREFOX_ORDER, headers: firefox(FIREFOX_MAC_UA)
+  },
+  {
+    id: 'safari-17-macos', name: 'Safari 17 on macOS', browser: 'safari', device: 'desktop', os: 'macos',
+    userAgent: SAFARI_MAC_UA, headerOrder: SAFARI_ORDER, headers: safari(SAFARI_MAC_UA)
+  },
+  {
+    id: 'chrome-120-android', name: 'Chrome 120 on Android', browser: 'chrome', device: 'mobile', os: 'android',
+    userAgent: CHROME_ANDROID_UA, headerOrder: CHROMIUM_ORDER, headers: chromium('Google Chrome', true, 'Android', CHROME_ANDROID_UA)
+  },
+  {
+    id: 'firefox-121-android', name: 'Firefox 121 on Android', browser: 'firefox', device: 'mobile', os: 'android',
+    userAgent: FIREFOX_ANDROID_UA, headerOrder: FIREFOX_ORDER, headers: firefox(FIREFOX_ANDROID_UA)
+  },
+  {
+    id: 'safari-17-ios', name: 'Safari 17 on iPhone', browser: 'safari', device: 'mobile', os: 'ios',
+    userAgent: SAFARI_IOS_UA, headerOrder: SAFARI_ORDER, headers: safari(SAFARI_IOS_UA)
+  }
+];
+
+// Used when user agent rotation is off or the filter leaves nothing
+export const DEFAULT_FINGERPRINT_PROFILE = FINGERPRINT_PROFILES[0];
+
+// Matches the user agent columns' defaults in settings
+export const DEFAULT_FINGERPRINT_FILTER: FingerprintFilter = {
+  rotate: true,
+  desktop: true,
+  mobile: false,
+  chrome: true,
+  firefox: true,
+  safari: false
+};
+
+export function getFingerprintProfile(id: string): FingerprintProfile | undefined {
+  return FINGERPRINT_PROFILES.find(profile => profile.id === id);
+}
+
+export function matchesFingerprintFilter(profile: FingerprintProfile, filter: FingerprintFilter): boolean {
+  if (!filter.rotate) return profile === DEFAULT_FINGERPRINT_PROFILE;
+  const browserAllowed = profile.browser === 'edge' ? filter.chrome : filter[profile.browser];
+  return browserAllowed && filter[profile.device];
+}
+
+export function selectFingerprintProfiles(filter: FingerprintFilter): FingerprintProfile[] {
+  const profiles = FINGERPRINT_PROFILES.filter(profile => matchesFingerprintFilter(profile, filter));
+  return profiles.length > 0 ? profiles : [DEFAULT_FINGERPRINT_PROFILE];
+}
+
+// Sec-Fetch-Site for a navigation from referer to requestUrl
+function fetchSite(requestUrl: string, referer?: string): string {
+  if (!referer) return 'none';
+  const target = new URL(requestUrl);
+  const source = new URL(referer);
+  if (source.origin === target.origin) return 'same-origin';
+  const site = (host: string) => host.split('.').slice(-2).join('.');
+  return site(source.hostname) === site(target.hostname) ? 'same-site' : 'cross-site';
+}
+
+/**
+ * Headers for a page navigation to requestUrl as the profile's browser sends
+ * them, in its order. Retailer extra headers go last.
+ */
+export function buildFingerprintHeaders(profile: FingerprintProfile, requestUrl: string, options: FingerprintRequestOptions = {}): Record<string, string> {
+  const values: Record<string, string | undefined> = {
+    ...profile.headers,
+    'Referer': options.referer,
+    'Cookie': options.cookie
+  };
+  if (options.acceptLanguage) {
+    values['Accept-Language'] = options.acceptLanguage;
+  }
+  // Only browsers that send the other Sec-Fetch headers send this one
+  if (profile.headers['Sec-Fetch-Mode']) {
+    values['Sec-Fetch-Site'] = fetchSite(requestUrl, options.referer);
+  }
+
+  const headers: Record<string, string> = {};
+  profile.headerOrder.forEach(name => {
+    const value = values[name];
+    if (value) headers[name] = value;
+  });
+  return Object.assign(headers, options.extraHeaders);
+}
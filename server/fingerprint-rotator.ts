@@ -0,0 +1,150 @@
+import { getRetailers } from './retailers';
+import {
+  FINGERPRINT_PROFILES,
+  selectFingerprintProfiles,
+  type FingerprintFilter,
+  type FingerprintProfile
+} from './fingerprint-profiles';
+import type { FingerprintPlatformStats, FingerprintProfileReport, FingerprintProfileSummary } from '@shared/fingerprint-profiles';
+import type { WorkerSolutionConfig } from './worker-solution-config';
+import type { Settings } from '@shared/schema';
+import type { RetailerId } from '@shared/retailers';
+
+/**
+ * Fingerprint Rotator
+ * Picks the browser profile for each scheduled check from the profiles the
+ * user's user agent toggles allow, and counts per profile and platform how
+ * often retailers blocked it. Profiles blocked often on a platform are picked
+ * less there until their block rate recovers.
+ */
+
+const BUCKET_MS = 60 * 60 * 1000;
+const WINDOW_MS = 24 * 60 * 60 * 1000;
+// Checks on a platform before a profile's block rate affects how often it is picked
+const MIN_WEIGHTED_CHECKS = 5;
+// A profile that is always blocked still gets the occasional check, so it can recover
+const MIN_WEIGHT = 0.05;
+
+interface StatsBucket {
+  start: number;
+  checks: number;
+  blocks: number;
+}
+
+interface ProfileUsage {
+  buckets: Map<RetailerId, StatsBucket[]>;
+  lastUsedAt?: number;
+  lastBlockedAt?: number;
+}
+
+function rate(part: number, total: number): number | null {
+  return total > 0 ? Math.round((part / total) * 1000) / 1000 : null;
+}
+
+// The profiles a user's user agent settings allow, as changed by the user agent
+// solutions applied for them (rotate_user_agents, enable_mobile_agents)
+export function fingerprintFilter(settings: Settings, solution: WorkerSolutionConfig = {}): FingerprintFilter {
+  return {
+    rotate: solution.enableUserAgentRotation ?? settings.enableUserAgentRotation,
+    desktop: solution.userAgentTypes ? solution.userAgentTypes !== 'mobile_only' : settings.enableDesktopUserAgents,
+    mobile: solution.userAgentTypes ? solution.userAgentTypes !== 'desktop_only' : settings.enableMobileUserAgents,
+    chrome: settings.enableChromeUserAgents,
+    firefox: settings.enableFirefoxUserAgents,
+    safari: settings.enableSafariUserAgents
+  };
+}
+
+export class FingerprintRotator {
+  private usage = new Map<string, ProfileUsage>();
+
+  pick(filter: FingerprintFilter, platform: RetailerId, now = Date.now()): FingerprintProfile {
+    const profiles = selectFingerprintProfiles(filter);
+
+    const weights = profiles.map(profile => {
+      const { checks, blocks } = this.totals(profile.id, platform, now);
+      return checks >= MIN_WEIGHTED_CHECKS ? Math.max(MIN_WEIGHT, 1 - blocks / checks) : 1;
+    });
+
+    let roll = Math.random() * weights.reduce((sum, weight) => sum + weight, 0);
+    for (let i = 0; i < profiles.length; i++) {
+      roll -= weights[i];
+      if (roll < 0) return profiles[i];
+    }
+    return profiles[profiles.length - 1];
+  }
+
+  // Record a check that reached the retailer (network failures say nothing about the profile)
+  recordCheck(profileId: string, platform: RetailerId, blocked: boolean, now = Date.now()): void {
+    let usage = this.usage.get(profileId);
+    if (!usage) {
+      usage = { buckets: new Map() };
+      this.usage.set(profileId, usage);
+    }
+
+    let buckets = usage.buckets.get(platform);
+    if (!buckets) {
+      buckets = [];
+      usage.buckets.set(platform, buckets);
+    }
+
+    const start = now - (now % BUCKET_MS);
+    let bucket = buckets[buckets.length - 1];
+    if (!bucket || bucket.start !== start) {
+      bucket = { start, checks: 0, blocks: 0 };
+      buckets.push(bucket);
+      while (buckets.length > 0 && buckets[0].start <= now - WINDOW_MS) {
+        buckets.shift();
+      }
+    }
+
+    bucket.checks++;
+    usage.lastUsedAt = now;
+    if (blocked) {
+      bucket.blocks++;
+      usage.lastBlockedAt = now;
+    }
+  }
+
+  private totals(profileId: string, platform: RetailerId, now: number): { checks: number; blocks: number } {
+    const buckets = this.usage.get(profileId)?.buckets.get(platform) ?? [];
+    return buckets
+      .filter(bucket => bucket.start > now - WINDOW_MS)
+      .reduce((totals, bucket) => ({ checks: totals.checks + bucket.checks, blocks: totals.blocks + bucket.blocks }), { checks: 0, blocks: 0 });
+  }
+
+  getReport(now = Date.now()): FingerprintProfileReport {
+    const profiles: FingerprintProfileSummary[] = FINGERPRINT_PROFILES.map(profile => {
+      const usage = this.usage.get(profile.id);
+      const platforms: FingerprintPlatformStats[] = getRetailers().map(adapter => {
+        const { checks, blocks } = this.totals(profile.id, adapter.id, now);
+        return { platform: adapter.id, checks, blocks, blockRate: rate(blocks, checks) };
+      });
+      const checks = platforms.reduce((sum, stats) => sum + stats.checks, 0);
+      const blocks = platforms.reduce((sum, stats) => sum + stats.blocks, 0);
+
+      return {
+        id: profile.id,
+        name: profile.name,
+        browser: profile.browser,
+        device: profile.device,
+        os: profile.os,
+        userAgent: profile.userAgent,
+        checks,
+        blocks,
+        blockRate: rate(blocks, checks),
+        lastUsedAt: usage?.lastUsedAt ? new Date(usage.lastUsedAt).toISOString() : undefined,
+        lastBlockedAt: usage?.lastBlockedAt ? new Date(usage.lastBlockedAt).toISOString() : undefined,
+        platforms
+      };
+    });
+
+    return {
+      generatedAt: new Date(now).toISOString(),
+      windowHours: WINDOW_MS / (60 * 60 * 1000),
+      profiles
+    };
+  }
+}
+
+// Export singleton instance
+export const fingerprintRotator = new FingerprintRotator();
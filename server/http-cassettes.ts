@@ -0,0 +1,263 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { AxiosError, AxiosHeaders, type AxiosInstance, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { findRetailerByUrl, originalRetailerUrl } from './retailers';
+import type { RetailerId } from '@shared/retailers';
+
+/**
+ * HTTP Cassettes
+ * Records retailer responses as sanitized fixture files and serves them back, so
+ * scraper selectors and anti-bot detection can be checked against real markup
+ * without touching the network.
+ *
+ *   HTTP_CASSETTE_MODE=record  save every retailer response to HTTP_CASSETTE_DIR
+ *   HTTP_CASSETTE_MODE=replay  answer retailer requests from HTTP_CASSETTE_DIR only
+ *
+ * Cassettes are keyed by the retailer URL, so recordings made against the retailer
+ * simulator (RETAILER_HOST_OVERRIDE) replay for the real URLs too.
+ */
+
+export type CassetteMode = 'record' | 'replay' | 'off';
+
+export type CassettePage = 'product' | 'search';
+
+// Golden values the fixture runner compares extraction and detection against
+export interface CassetteExpectation {
+  detection: {
+    isBlocked: boolean;
+    detectionType: string;
+  };
+  product?: {
+    title: string | null;
+    price: number | null;
+    currency: string | null;
+    availability: string | null;
+  };
+  search?: {
+    count: number;
+    firstName: string | null;
+    firstPrice: string | null;
+  };
+}
+
+export interface Cassette {
+  version: 1;
+  recordedAt: string;
+  request: {
+    method: string;
+    url: string;
+    platform: RetailerId | null;
+    page: CassettePage;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+    responseTime: number;
+  };
+  expected?: CassetteExpectation;
+}
+
+const DEFAULT_CASSETTE_DIR = 'tests/fixtures/cassettes';
+// Replayed responses wait their recorded time, capped, so timing heuristics see realistic latency
+const MAX_REPLAY_DELAY_MS = 5000;
+
+// Only headers scraping or detection reads survive recording; cookies and the like never do
+const KEPT_HEADERS = ['content-type', 'server', 'location', 'retry-after', 'cf-ray', 'cf-mitigated', 'x-amzn-waf-action'];
+const KEPT_HEADER_PREFIXES = ['x-ratelimit-'];
+
+// Attribute and JSON keys whose values are per-session secrets, also with a prefix (anti-csrftoken-a2z)
+const SENSITIVE_KEY = '[\\w-]*?(?:csrf|xsrf|token|session[-_]?id|sessionid|nonce|auth|ubid|customer[-_]?id|sig)[\\w-]*';
+
+const stampKey = Symbol('cassetteStartedAt');
+
+export function getCassetteMode(): CassetteMode {
+  const mode = process.env.HTTP_CASSETTE_MODE?.trim().toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+export function getCassetteDir(): string {
+  return path.resolve(process.env.HTTP_CASSETTE_DIR?.trim() || DEFAULT_CASSETTE_DIR);
+}
+
+function pageFor(url: string): CassettePage {
+  return findRetailerByUrl(url)?.extractCanonicalId(url) ? 'product' : 'search';
+}
+
+// File name for a request: platform and path for readability, a hash of the full URL for uniqueness
+export function cassetteFileName(method: string, url: string): string {
+  const platform = findRetailerByUrl(url)?.id ?? 'other';
+  const { pathname } = new URL(url);
+  const slug = pathname.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 48) || 'root';
+  const hash = crypto.createHash('sha1').update(`${method.toUpperCase()} ${url}`).digest('hex').slice(0, 10);
+  return `${platform}-${slug}-${hash}.json`;
+}
+
+export function sanitizeHeaders(headers: Record<string, unknown>): Record<string, string> {
+  const kept: Record<string, string> = {};
+  Object.entries(headers).forEach(([name, value]) => {
+    const key = name.toLowerCase();
+    if (value == null) return;
+    if (KEPT_HEADERS.includes(key) || KEPT_HEADER_PREFIXES.some(prefix => key.startsWith(prefix))) {
+      kept[key] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  });
+  return kept;
+}
+
+// Strip personal data and session secrets from a page while leaving its markup intact
+export function sanitizeBody(body: string): string {
+  return body
+    .replace(/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, 'redacted@example.com')
+    .replace(new RegExp(`(name=["']${SENSITIVE_KEY}["'][^>]*?value=["'])[^"']*`, 'gi'), '$1REDACTED')
+    .replace(new RegExp(`(value=["'])[^"']*(["'][^>]*?name=["']${SENSITIVE_KEY}["'])`, 'gi'), '$1REDACTED$2')
+    .replace(new RegExp(`(["']${SENSITIVE_KEY}["']\\s*:\\s*["'])[^"']*`, 'gi'), '$1REDACTED');
+}
+
+function bodyText(data: unknown): string {
+  if (typeof data === 'string') return data;
+  if (Buffer.isBuffer(data)) return data.toString('utf8');
+  return JSON.stringify(data ?? '');
+}
+
+export function readCassette(file: string): Cassette {
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as Cassette;
+}
+
+export function writeCassette(file: string, cassette: Cassette): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(cassette, null, 2) + '\n');
+}
+
+export function listCassettes(dir = getCassetteDir()): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(name => name.endsWith('.json'))
+    .sort()
+    .map(name => path.join(dir, name));
+}
+
+function requestUrl(config: InternalAxiosRequestConfig): string | null {
+  if (!config.url) return null;
+  try {
+    return originalRetailerUrl(new URL(config.url, config.baseURL).toString());
+  } catch {
+    return null;
+  }
+}
+
+function recordResponse(response: AxiosResponse, dir: string): void {
+  const url = requestUrl(response.config);
+  if (!url || !findRetailerByUrl(url)) return;
+
+  const encoding = String(response.headers['content-encoding'] ?? '').toLowerCase();
+  if (encoding && encoding !== 'identity') {
+    // Requests with decompress disabled hand back the compressed bytes; they make no useful fixture
+    console.warn(`[Cassettes] Not recording ${url}: body is ${encoding}-encoded`);
+    return;
+  }
+
+  const method = (response.config.method ?? 'get').toUpperCase();
+  const file = path.join(dir, cassetteFileName(method, url));
+  const startedAt = (response.config as any)[stampKey] as number | undefined;
+
+  try {
+    // Keep the golden expectations of an earlier recording; a markup change should fail them
+    const expected = fs.existsSync(file) ? readCassette(file).expected : undefined;
+    writeCassette(file, {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      request: { method, url, platform: findRetailerByUrl(url)?.id ?? null, page: pageFor(url) },
+      response: {
+        status: response.status,
+        headers: sanitizeHeaders(AxiosHeaders.from(response.headers as any).toJSON()),
+        body: sanitizeBody(bodyText(response.data)),
+        responseTime: startedAt ? Date.now() - startedAt : 0
+      },
+      ...(expected ? { expected } : {})
+    });
+    console.log(`[Cassettes] Recorded ${method} ${url} -> ${path.basename(file)}`);
+  } catch (error) {
+    console.error(`[Cassettes] Failed to record ${url}:`, error);
+  }
+}
+
+function replayAdapter(dir: string) {
+  return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const url = requestUrl(config);
+    const method = (config.method ?? 'get').toUpperCase();
+    const file = url ? path.join(dir, cassetteFileName(method, url)) : null;
+
+    if (!url || !file || !fs.existsSync(file)) {
+      throw new AxiosError(`No cassette recorded for ${method} ${url ?? config.url}`, 'ERR_CASSETTE_MISSING', config);
+    }
+
+    const { response: recorded } = readCassette(file);
+    await new Promise(resolve => setTimeout(resolve, Math.min(recorded.responseTime, MAX_REPLAY_DELAY_MS)));
+
+    const response: AxiosResponse = {
+      data: recorded.body,
+      status: recorded.status,
+      statusText: String(recorded.status),
+      headers: AxiosHeaders.from(recorded.headers),
+      config,
+      request: { cassette: path.basename(file) }
+    };
+
+    // Custom adapters settle the response themselves
+    if (config.validateStatus && !config.validateStatus(recorded.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${recorded.status}`,
+        recorded.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+      );
+    }
+    return response;
+  };
+}
+
+/**
+ * Hook an axios instance up to the cassette mode from the environment. Only
+ * requests for registered retailers are recorded or replayed.
+ */
+export function attachCassettes(instance: AxiosInstance, label: string): CassetteMode {
+  const mode = getCassetteMode();
+  if (mode === 'off') return mode;
+
+  const dir = getCassetteDir();
+
+  if (mode === 'replay') {
+    const adapter = replayAdapter(dir);
+    instance.interceptors.request.use(config => {
+      const url = requestUrl(config);
+      if (url && findRetailerByUrl(url)) {
+        config.adapter = adapter;
+      }
+      return config;
+    });
+  } else {
+    instance.interceptors.request.use(config => {
+      (config as any)[stampKey] = Date.now();
+      return config;
+    });
+    instance.interceptors.response.use(
+      response => {
+        recordResponse(response, dir);
+        return response;
+      },
+      error => {
+        // Blocks often arrive as 4xx/5xx; they are the fixtures detection needs most
+        if (error?.response) {
+          recordResponse(error.response, dir);
+        }
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  console.log(`[Cassettes] ${label}: ${mode === 'record' ? 'recording to' : 'replaying from'} ${dir}`);
+  return mode;
+}
@@ -1,6 +1,7 @@
 import axios, { AxiosInstance } from 'axios';
 import http from 'http';
 import https from 'https';
+import { attachCassettes } from './http-cassettes';
 
 /**
  * Optimized HTTP connection pool for web scraping
@@ -84,6 +85,9 @@ export class HttpConnectionPool {
       }
     );
 
+    // Record or replay retailer responses when HTTP_CASSETTE_MODE is set
+    attachCassettes(this.axiosInstance, 'HttpPool');
+
     console.log('[HttpPool] Connection pool initialized with optimized settings');
   }
 
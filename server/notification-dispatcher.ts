@@ -0,0 +1,208 @@
+import nodemailer from 'nodemailer';
+import { storage } from './storage';
+import { renderAlertEmail, type RenderedEmail } from './email-templates';
+import type { EmailDelivery, Settings, UserNotification } from '@shared/schema';
+
+/**
+ * Notification Dispatcher
+ * Emails price-drop and stock alerts, and admin alerts such as selector
+ * breakage. Alerts that fire within the digest window are batched into one
+ * message; failed sends are retried with exponential backoff and every message
+ * is recorded in email_deliveries with its status.
+ */
+
+// Alerts arriving within this window of the first one share a digest
+const DIGEST_WINDOW_MS = Number(process.env.EMAIL_DIGEST_WINDOW_MS) || 2 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+const RETRY_POLL_INTERVAL_MS = 30 * 1000;
+
+/**
+ * SMTP transport for a user's email settings. Set SMTP_URL (for example
+ * smtp://localhost:1025 for a local MailHog/Mailpit) to send everything to a
+ * local SMTP stand-in instead of Gmail.
+ */
+export function createMailTransport(settings: Pick<Settings, 'gmailEmail' | 'gmailAppPassword'>) {
+  if (process.env.SMTP_URL) {
+    return nodemailer.createTransport(process.env.SMTP_URL);
+  }
+
+  return nodemailer.createTransport({
+    service: 'gmail',
+    auth: {
+      user: settings.gmailEmail,
+      pass: settings.gmailAppPassword // Already decrypted by the storage layer
+    }
+  });
+}
+
+function isEmailConfigured(settings: Settings | undefined): settings is Settings {
+  return !!settings && settings.enableEmail && !!settings.gmailEmail && !!settings.gmailAppPassword;
+}
+
+interface PendingBatch {
+  notifications: UserNotification[];
+  timer: NodeJS.Timeout;
+}
+
+export class NotificationDispatcher {
+  private batches = new Map<string, PendingBatch>();
+  private retryInterval: NodeJS.Timeout;
+  private processingRetries = false;
+  private sent = 0;
+  private failedAttempts = 0;
+  private failed = 0;
+
+  constructor() {
+    // Picks up retries, including ones left over from before a restart
+    this.retryInterval = setInterval(() => {
+      this.processDueDeliveries();
+    }, RETRY_POLL_INTERVAL_MS);
+    this.retryInterval.unref();
+  }
+
+  /**
+   * Queue an alert for its owner's next email; the first alert opens the digest window
+   */
+  enqueue(notification: UserNotification): void {
+    const userId = notification.userId;
+    let batch = this.batches.get(userId);
+    if (!batch) {
+      const timer = setTimeout(() => {
+        this.flush(userId).catch(error => {
+          console.error(`[Email] Failed to dispatch alerts for user ${userId}:`, error instanceof Error ? error.message : error);
+        });
+      }, DIGEST_WINDOW_MS);
+      timer.unref();
+      batch = { notifications: [], timer };
+      this.batches.set(userId, batch);
+    }
+    batch.notifications.push(notification);
+  }
+
+  // Render the user's batched alerts into one message and send it
+  private async flush(userId: string): Promise<void> {
+    const batch = this.batches.get(userId);
+    if (!batch) return;
+    clearTimeout(batch.timer);
+    this.batches.delete(userId);
+
+    const settings = await storage.getSettingsOrDefaults(userId);
+    if (!isEmailConfigured(settings)) {
+      return;
+    }
+
+    console.log(`[Email] Sending ${batch.notifications.length > 1 ? `digest of ${batch.notifications.length} alerts` : 'alert'} to user ${userId}`);
+    await this.deliver(settings, renderAlertEmail(batch.notifications), batch.notifications.map(n => n.id));
+  }
+
+  /**
+   * Email a message that isn't tied to notifications (admin alerts) to a user,
+   * with the same retries; skipped when the user hasn't set up email alerts
+   */
+  async sendToUser(userId: string, email: RenderedEmail): Promise<void> {
+    const settings = await storage.getSettingsOrDefaults(userId);
+    if (!isEmailConfigured(settings)) {
+      return;
+    }
+
+    console.log(`[Email] Sending "${email.subject}" to user ${userId}`);
+    await this.deliver(settings, email, []);
+  }
+
+  private async deliver(settings: Settings, email: RenderedEmail, notificationIds: string[]): Promise<void> {
+    const delivery = await storage.createEmailDelivery({
+      userId: settings.userId,
+      notificationIds,
+      recipient: settings.gmailEmail,
+      ...email,
+      // Leases the row so the retry poller doesn't send it while the first attempt is in flight
+      nextAttemptAt: new Date(Date.now() + RETRY_BASE_DELAY_MS)
+    });
+    await this.attempt(delivery);
+  }
+
+  private async attempt(delivery: EmailDelivery): Promise<void> {
+    const attempts = delivery.attempts + 1;
+
+    const settings = await storage.getSettings(delivery.userId);
+    if (!isEmailConfigured(settings)) {
+      // Turned off since the alert was queued; retrying won't help
+      await storage.updateEmailDelivery(delivery.id, { status: 'failed', attempts, lastError: 'Email alerts are disabled or not configured' });
+      this.failed++;
+      return;
+    }
+
+    try {
+      await createMailTransport(settings).sendMail({
+        from: settings.gmailEmail,
+        to: delivery.recipient,
+        subject: delivery.subject,
+        html: delivery.html,
+        text: delivery.text
+      });
+
+      await storage.updateEmailDelivery(delivery.id, { status: 'sent', attempts, lastError: null, sentAt: new Date() });
+      this.sent++;
+    } catch (error) {
+      // Security: only the message, SMTP errors can echo credentials
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.failedAttempts++;
+
+      if (attempts >= MAX_ATTEMPTS) {
+        console.error(`[Email] Giving up on delivery ${delivery.id} after ${attempts} attempts: ${message}`);
+        await storage.updateEmailDelivery(delivery.id, { status: 'failed', attempts, lastError: message });
+        this.failed++;
+        return;
+      }
+
+      const delay = Math.min(MAX_RETRY_DELAY_MS, RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1));
+      console.warn(`[Email] Delivery ${delivery.id} failed (attempt ${attempts}/${MAX_ATTEMPTS}), retrying in ${Math.round(delay / 1000)}s: ${message}`);
+      await storage.updateEmailDelivery(delivery.id, {
+        status: 'pending',
+        attempts,
+        lastError: message,
+        nextAttemptAt: new Date(Date.now() + delay)
+      });
+    }
+  }
+
+  // Retry pending deliveries whose backoff has elapsed
+  async processDueDeliveries(): Promise<void> {
+    if (this.processingRetries) return;
+    this.processingRetries = true;
+
+    try {
+      const due = await storage.getDueEmailDeliveries(new Date());
+      for (const delivery of due) {
+        await this.attempt(delivery);
+      }
+    } catch (error) {
+      console.error('[Email] Failed to process email retries:', error instanceof Error ? error.message : error);
+    } finally {
+      this.processingRetries = false;
+    }
+  }
+
+  getStats(): { pendingBatches: number; queuedAlerts: number; sent: number; failedAttempts: number; failed: number } {
+    let queuedAlerts = 0;
+    this.batches.forEach(batch => { queuedAlerts += batch.notifications.length; });
+    return {
+      pendingBatches: this.batches.size,
+      queuedAlerts,
+      sent: this.sent,
+      failedAttempts: this.failedAttempts,
+      failed: this.failed
+    };
+  }
+
+  destroy(): void {
+    clearInterval(this.retryInterval);
+    this.batches.forEach(batch => clearTimeout(batch.timer));
+    this.batches.clear();
+  }
+}
+
+// Export singleton instance
+export const notificationDispatcher = new NotificationDispatcher();
@@ -1,6 +1,7 @@
 import os from 'os';
-import { getWorkerPool, isWorkerPoolInitialized } from './worker-pool';
+import { getWorkerPool, isWorkerPoolInitialized, type WorkerPoolStats } from './worker-pool';
 import { httpPool } from './http-pool';
+import { requestBudget, type RequestBudgetStats } from './request-budget';
 import { storage } from './storage';
 
 export interface PerformanceMetrics {
@@ -19,11 +20,8 @@ export interface PerformanceMetrics {
     };
     external: number;
   };
-  workers: {
-    poolSize: number;
-    busyWorkers: number;
-    queuedTasks: number;
-    pendingTasks: number;
+  workers: Omit<WorkerPoolStats, 'status'> & {
+    status: WorkerPoolStats['status'] | 'disabled';
   };
   http: {
     httpSockets: number;
@@ -31,6 +29,7 @@ export interface PerformanceMetrics {
     httpsPending: number;
     httpsFreeSockets: number;
   };
+  requestBudget: RequestBudgetStats;
   storage: {
     users: number;
     settings: number;
@@ -86,11 +85,18 @@ export class PerformanceMonitor {
 
   async getCurrentMetrics(): Promise<PerformanceMetrics> {
     const memUsage = process.memoryUsage();
-    const workerStats = isWorkerPoolInitialized() ? getWorkerPool().getStats() : {
+    // Report the pool as disabled until the scheduler first uses it
+    const workerStats: PerformanceMetrics['workers'] = isWorkerPoolInitialized() ? getWorkerPool().getStats() : {
       poolSize: 0,
       busyWorkers: 0,
       queuedTasks: 0,
-      pendingTasks: 0
+      pendingTasks: 0,
+      healthyWorkers: 0,
+      status: 'disabled',
+      restarts: 0,
+      timedOutTasks: 0,
+      mainThreadFallbacks: 0,
+      workers: []
     };
     const httpStats = httpPool.getStats();
     const storageStats = await storage.getStats();
@@ -113,6 +119,7 @@ export class PerformanceMonitor {
       },
       workers: workerStats,
       http: httpStats,
+      requestBudget: requestBudget.getStats(),
       storage: storageStats
     };
   }
@@ -187,6 +194,10 @@ export class PerformanceMonitor {
     if (metrics.workers.queuedTasks > 50) {
       console.warn(`[PerformanceMonitor] High worker queue: ${metrics.workers.queuedTasks} tasks`);
     }
+
+    if (metrics.workers.status === 'unhealthy') {
+      console.warn(`[PerformanceMonitor] Worker pool unhealthy: ${metrics.workers.healthyWorkers}/${metrics.workers.poolSize} workers healthy`);
+    }
   }
 
   getMetricsHistory(limit?: number): PerformanceMetrics[] {
@@ -227,7 +238,7 @@ export class PerformanceMonitor {
     ) / recentMetrics.length;
     
     const workerUtilization = recentMetrics.reduce((sum, m) => 
-      sum + (m.workers.busyWorkers / m.workers.poolSize) * 100, 0
+      sum + (m.workers.poolSize > 0 ? (m.workers.busyWorkers / m.workers.poolSize) * 100 : 0), 0
     ) / recentMetrics.length;
     
     return {
@@ -0,0 +1,548 @@
+import * as cheerio from 'cheerio';
+import type { RetailerId } from '@shared/retailers';
+import type { AntiBotDetectionResult } from '@shared/solution-types';
+import type { ExtractionStrategy, SelectorField, VotedField } from '@shared/selector-health';
+import { getRetailer, type RetailerSelectors } from './retailers';
+
+// Structured product data extracted from retailer product pages, driven by each
+// retailer adapter's selectors
+
+export type ProductAvailability = 'in-stock' | 'out-of-stock' | 'low-stock' | 'unknown';
+
+export type { ExtractionStrategy, SelectorField, VotedField };
+
+export interface FieldConfidence {
+  score: number;                       // 0-1
+  sources: ExtractionStrategy[];       // strategies that agreed on the chosen value
+  conflicts?: ExtractionStrategy[];    // strategies that found a different value
+}
+
+export interface ExtractionConfidence {
+  overall: number; // lowest field score
+  fields: Partial<Record<VotedField, FieldConfidence>>;
+}
+
+export interface ProductDetails {
+  name: string;
+  price?: number;
+  currency?: string;
+  availability: ProductAvailability;
+  seller?: string;
+  confidence?: ExtractionConfidence;
+}
+
+// What each extraction path found on a page, for selector health tracking
+export interface ExtractionTrace {
+  selectors: Record<SelectorField, string | null>; // selector that matched each list, null when none did
+  strategies: Partial<Record<ExtractionStrategy, VotedField[]>>; // fields each strategy found
+}
+
+export interface ProductPageExtraction {
+  details: ProductDetails | null;
+  trace: ExtractionTrace;
+}
+
+// Outcome of a product page scrape; `error` carries the legacy user-facing message on failure
+export interface ProductScrapeResult {
+  success: boolean;
+  details?: ProductDetails;
+  error?: string;
+  antiBot?: AntiBotDetectionResult; // set when the page was blocked
+  extraction?: ExtractionTrace;     // set when a page was parsed
+  responseCode?: number;            // HTTP status of the parsed page
+  responseTime?: number;            // ms, for the request that returned it
+  rateLimited?: boolean;            // the request budget turned the request away before it was sent
+}
+
+export interface SearchResultItem {
+  name: string;
+  url: string;
+  price?: string;
+}
+
+// Anything at or below this many units is reported as low stock
+const LOW_STOCK_THRESHOLD = 5;
+
+// Parses whose overall confidence is below this are not trusted as observations
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+// How far a value is trusted when a single strategy found it
+const STRATEGY_WEIGHTS: Record<ExtractionStrategy, number> = {
+  'json-ld': 0.9,
+  'embedded-state': 0.85,
+  'selectors': 0.7,
+  'opengraph': 0.6
+};
+
+// The bare `h1` fallback often lands on an unrelated heading
+const GENERIC_TITLE_WEIGHT = 0.3;
+
+// Share of a disagreeing group's score taken off the winning value
+const CONFLICT_PENALTY = 0.5;
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '£': 'GBP',
+  '€': 'EUR',
+  '¥': 'JPY'
+};
+
+function cleanText(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')  // Replace multiple spaces with single space
+    .replace(/\n/g, ' ')   // Replace newlines with spaces
+    .replace(/\t/g, ' ')   // Replace tabs with spaces
+    .trim();
+}
+
+// First number in a price string, with any thousands separators (",", ".", spaces) and decimal mark
+const PRICE_NUMBER = /\d(?:[\d.,]|[ \u00a0\u202f](?=\d{3}(?!\d)))*/;
+
+// "1,299,000" -> "1299000"; undefined unless every group after the first has three digits
+function ungroup(integer: string, separator: string): string | undefined {
+  const [first, ...groups] = integer.split(separator);
+  if (!/^\d{1,3}$/.test(first) || !groups.every(group => /^\d{3}$/.test(group))) return undefined;
+  return first + groups.join('');
+}
+
+/**
+ * Read a number written as "1,299.99" (US), "1.299,99" or "1 299,99" (European) or
+ * "1299.99". Undefined when the separators don't say which one is the decimal mark,
+ * as in "1.299", or don't form a number.
+ */
+function parsePriceNumber(token: string): number | undefined {
+  const compact = token.replace(/[.,]+$/, '').replace(/[ \u00a0\u202f]/g, '');
+  const decimalAt = Math.max(compact.lastIndexOf('.'), compact.lastIndexOf(','));
+  if (decimalAt === -1) return parseFloat(compact);
+
+  const mark = compact[decimalAt];
+  const other = mark === '.' ? ',' : '.';
+  let integer = compact.slice(0, decimalAt);
+  const fraction = compact.slice(decimalAt + 1);
+
+  if (compact.includes(other)) {
+    // Both separators: the last one is the decimal mark, the other groups thousands
+    const ungrouped = ungroup(integer, other);
+    if (ungrouped === undefined || fraction.length > 2) return undefined;
+    integer = ungrouped;
+  } else if (integer.includes(mark) || (fraction.length === 3 && mark === ',')) {
+    // "1.299.000", "1,299,000" or "1,299": thousands only (a lone "1,299" is the US notation)
+    const ungrouped = ungroup(compact, mark);
+    return ungrouped === undefined ? undefined : parseFloat(ungrouped);
+  } else if (fraction.length > 2) {
+    // "1.299" is 1299 in European notation and 1.299 in US notation
+    return undefined;
+  }
+
+  return parseFloat(`${integer}.${fraction}`);
+}
+
+/**
+ * Parse a price string such as "$1,299.99", "1.299,99 €" or "1299.99" into a number and
+ * currency code. Prices whose notation is ambiguous ("1.299") are left out.
+ */
+export function parsePrice(raw: string | undefined, fallbackCurrency = 'USD'): { price?: number; currency?: string } {
+  if (!raw) return {};
+
+  const text = raw.trim();
+  const match = text.match(PRICE_NUMBER);
+  if (!match) return {};
+
+  const price = parsePriceNumber(match[0]);
+  if (price === undefined || !isFinite(price) || price <= 0) return {};
+
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find(s => text.includes(s));
+  const isoCode = text.match(/\b(USD|GBP|EUR|JPY|CAD)\b/);
+  const currency = isoCode ? isoCode[1] : symbol ? CURRENCY_SYMBOLS[symbol] : fallbackCurrency;
+
+  return { price: Math.round(price * 100) / 100, currency };
+}
+
+/**
+ * Map free-form availability text ("Only 3 left in stock", "Currently unavailable") or a
+ * schema.org availability URL to a status
+ */
+export function parseAvailability(text: string | undefined): ProductAvailability {
+  if (!text) return 'unknown';
+  const lower = text.toLowerCase();
+
+  if (/currently unavailable|out of stock|outofstock|sold out|soldout|discontinued|unavailable/.test(lower)) {
+    return 'out-of-stock';
+  }
+
+  const remaining = lower.match(/only (\d+) left/);
+  if (remaining) {
+    return parseInt(remaining[1], 10) <= LOW_STOCK_THRESHOLD ? 'low-stock' : 'in-stock';
+  }
+  if (/low stock|few left|limited stock|limitedavailability/.test(lower)) {
+    return 'low-stock';
+  }
+
+  if (/in stock|instock|add to cart|available|ships|pickup|delivery/.test(lower)) {
+    return 'in-stock';
+  }
+
+  return 'unknown';
+}
+
+type CheerioSelection = ReturnType<cheerio.CheerioAPI>;
+
+// Machine-readable attribute first (content/value, href on <link>), then visible text
+function readValue(node: CheerioSelection): string {
+  const linkHref = node.is('link') ? node.attr('href') : undefined;
+  return (node.attr('content') || node.attr('value') || linkHref || node.text()).trim();
+}
+
+function firstMatch($: cheerio.CheerioAPI, selectors: string[] = []): { value: string; selector: string | null } {
+  for (const selector of selectors) {
+    const value = readValue($(selector).first());
+    if (value) return { value, selector };
+  }
+  return { value: '', selector: null };
+}
+
+function firstValue($: cheerio.CheerioAPI, selectors: string[] = []): string {
+  return firstMatch($, selectors).value;
+}
+
+function hasMatch($: cheerio.CheerioAPI, selectors: string[] = []): boolean {
+  return selectors.some(selector => $(selector).length > 0);
+}
+
+function resolveAvailability($: cheerio.CheerioAPI, selectors: RetailerSelectors): ProductAvailability {
+  if (selectors.outOfStock?.some(selector => $(selector).text().trim())) {
+    return 'out-of-stock';
+  }
+  if (selectors.lowStock?.some(selector => $(selector).text().trim())) {
+    return 'low-stock';
+  }
+
+  const fromText = parseAvailability(firstValue($, selectors.stockText));
+  if (fromText !== 'unknown') {
+    return fromText;
+  }
+
+  return hasMatch($, selectors.inStock) ? 'in-stock' : 'unknown';
+}
+
+function resolveSeller($: cheerio.CheerioAPI, selectors: RetailerSelectors): { seller?: string; selector: string | null } {
+  for (const selector of selectors.seller) {
+    const seller = cleanText($(selector).first().text());
+    if (seller) return { seller, selector };
+  }
+  if (selectors.sellerText) {
+    const seller = cleanText($(selectors.sellerText.selector).text().match(selectors.sellerText.pattern)?.[1] ?? '');
+    if (seller) return { seller, selector: selectors.sellerText.selector };
+  }
+  return { selector: null };
+}
+
+// Fields one strategy read from the page; availability 'unknown' counts as not found
+interface StrategyFields {
+  strategy: ExtractionStrategy;
+  name?: string;
+  nameWeight?: number;
+  price?: number;
+  currency?: string;
+  availability?: ProductAvailability;
+  seller?: string;
+  matchedSelectors?: Record<SelectorField, string | null>;
+}
+
+interface Candidate<T> {
+  value: T;
+  strategy: ExtractionStrategy;
+  weight: number;
+}
+
+function knownAvailability(availability: ProductAvailability): ProductAvailability | undefined {
+  return availability === 'unknown' ? undefined : availability;
+}
+
+function fromSelectors($: cheerio.CheerioAPI, selectors: RetailerSelectors): StrategyFields {
+  let name = '';
+  let titleSelector: string | null = null;
+  for (const selector of selectors.title) {
+    name = cleanText($(selector).first().text());
+    if (name) {
+      titleSelector = selector;
+      break;
+    }
+  }
+
+  const currencyCode = firstValue($, selectors.currency) || undefined;
+  const priceMatch = firstMatch($, selectors.price);
+  const { price, currency } = parsePrice(priceMatch.value, currencyCode);
+  const { seller, selector: sellerSelector } = resolveSeller($, selectors);
+
+  return {
+    strategy: 'selectors',
+    name: name || undefined,
+    nameWeight: titleSelector === 'h1' ? GENERIC_TITLE_WEIGHT : STRATEGY_WEIGHTS.selectors,
+    price,
+    currency,
+    availability: knownAvailability(resolveAvailability($, selectors)),
+    seller,
+    matchedSelectors: {
+      title: titleSelector,
+      price: price !== undefined ? priceMatch.selector : null,
+      stockText: firstMatch($, selectors.stockText).selector,
+      seller: sellerSelector
+    }
+  };
+}
+
+function isProductNode(node: any): boolean {
+  const type = node?.['@type'];
+  return type === 'Product' || (Array.isArray(type) && type.includes('Product'));
+}
+
+// schema.org Product objects from every JSON-LD block, including ones nested in @graph
+function jsonLdProducts($: cheerio.CheerioAPI): any[] {
+  const products: any[] = [];
+  const collect = (node: any) => {
+    if (Array.isArray(node)) {
+      node.forEach(collect);
+    } else if (node && typeof node === 'object') {
+      if (isProductNode(node)) products.push(node);
+      if (node['@graph']) collect(node['@graph']);
+    }
+  };
+
+  $('script[type="application/ld+json"]').each((_, element) => {
+    try {
+      collect(JSON.parse($(element).text()));
+    } catch {
+      // Malformed blocks are common on retail pages; the other strategies still run
+    }
+  });
+  return products;
+}
+
+function fromJsonLd($: cheerio.CheerioAPI): StrategyFields | null {
+  const product = jsonLdProducts($)[0];
+  if (!product) return null;
+
+  const offers = ([] as any[]).concat(product.offers ?? []);
+  const offer = offers.find(o => o?.price !== undefined || o?.lowPrice !== undefined) ?? offers[0];
+  const { price } = parsePrice(String(offer?.price ?? offer?.lowPrice ?? ''));
+  const seller = typeof offer?.seller === 'string' ? offer.seller : offer?.seller?.name;
+
+  return {
+    strategy: 'json-ld',
+    name: typeof product.name === 'string' ? cleanText(product.name) || undefined : undefined,
+    nameWeight: STRATEGY_WEIGHTS['json-ld'],
+    price,
+    currency: price !== undefined ? offer?.priceCurrency ?? 'USD' : undefined,
+    availability: knownAvailability(parseAvailability(offer?.availability)),
+    seller: seller ? cleanText(seller) : undefined
+  };
+}
+
+function fromEmbeddedState($: cheerio.CheerioAPI, platform: RetailerId): StrategyFields | null {
+  const { embeddedState } = getRetailer(platform);
+  if (!embeddedState) return null;
+
+  const script = $(embeddedState.script).first().text();
+  if (!script) return null;
+
+  let fields;
+  try {
+    fields = embeddedState.extract(JSON.parse(script));
+  } catch {
+    return null;
+  }
+  if (!fields) return null;
+
+  return {
+    strategy: 'embedded-state',
+    name: fields.name ? cleanText(fields.name) || undefined : undefined,
+    nameWeight: STRATEGY_WEIGHTS['embedded-state'],
+    price: fields.price !== undefined ? Math.round(fields.price * 100) / 100 : undefined,
+    currency: fields.price !== undefined ? fields.currency ?? 'USD' : undefined,
+    availability: knownAvailability(parseAvailability(fields.availabilityText)),
+    seller: fields.seller ? cleanText(fields.seller) : undefined
+  };
+}
+
+function metaContent($: cheerio.CheerioAPI, properties: string[]): string {
+  for (const property of properties) {
+    const value = $(`meta[property="${property}"]`).first().attr('content')?.trim();
+    if (value) return value;
+  }
+  return '';
+}
+
+function fromOpenGraph($: cheerio.CheerioAPI): StrategyFields | null {
+  const name = cleanText(metaContent($, ['og:title']));
+  const currency = metaContent($, ['product:price:currency', 'og:price:currency']) || undefined;
+  const parsed = parsePrice(metaContent($, ['product:price:amount', 'og:price:amount']), currency);
+  const availability = knownAvailability(parseAvailability(metaContent($, ['product:availability', 'og:availability']) || undefined));
+
+  if (!name && parsed.price === undefined && !availability) return null;
+
+  return {
+    strategy: 'opengraph',
+    name: name || undefined,
+    nameWeight: STRATEGY_WEIGHTS.opengraph,
+    price: parsed.price,
+    currency: parsed.currency,
+    availability
+  };
+}
+
+// Titles agree when one contains the other once case, punctuation and store prefixes/suffixes are ignored
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function sameName(a: string, b: string): boolean {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  return left === right || (Math.min(left.length, right.length) >= 10 && (left.includes(right) || right.includes(left)));
+}
+
+/**
+ * Group agreeing candidates and pick the strongest group. A group's score
+ * combines its members' weights (each one an independent chance of being
+ * right) and is reduced when another group disagrees.
+ */
+function vote<T>(candidates: Candidate<T>[], same: (a: T, b: T) => boolean): { value: T; confidence: FieldConfidence } | null {
+  if (candidates.length === 0) return null;
+
+  const groups: Candidate<T>[][] = [];
+  candidates.forEach(candidate => {
+    const group = groups.find(members => same(members[0].value, candidate.value));
+    if (group) {
+      group.push(candidate);
+    } else {
+      groups.push([candidate]);
+    }
+  });
+
+  const scored = groups
+    .map(members => ({ members, score: 1 - members.reduce((miss, member) => miss * (1 - member.weight), 1) }))
+    .sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = scored;
+
+  const score = Math.max(0, best.score - (runnerUp ? runnerUp.score * CONFLICT_PENALTY : 0));
+  const strongest = best.members.reduce((top, member) => member.weight > top.weight ? member : top);
+  const conflicts = scored.slice(1).flatMap(group => group.members.map(member => member.strategy));
+
+  return {
+    value: strongest.value,
+    confidence: {
+      score: Math.round(score * 100) / 100,
+      sources: best.members.map(member => member.strategy),
+      ...(conflicts.length > 0 ? { conflicts } : {})
+    }
+  };
+}
+
+function candidates<T>(results: StrategyFields[], read: (fields: StrategyFields) => T | undefined, weight?: (fields: StrategyFields) => number): Candidate<T>[] {
+  return results.flatMap(fields => {
+    const value = read(fields);
+    return value === undefined ? [] : [{ value, strategy: fields.strategy, weight: weight?.(fields) ?? STRATEGY_WEIGHTS[fields.strategy] }];
+  });
+}
+
+function traceOf(results: StrategyFields[]): ExtractionTrace {
+  const strategies: ExtractionTrace['strategies'] = {};
+  results.forEach(fields => {
+    const found: VotedField[] = [];
+    if (fields.name) found.push('name');
+    if (fields.price !== undefined) found.push('price');
+    if (fields.availability) found.push('availability');
+    strategies[fields.strategy] = found;
+  });
+
+  const selectors = results.find(fields => fields.strategy === 'selectors')?.matchedSelectors
+    ?? { title: null, price: null, stockText: null, seller: null };
+  return { selectors, strategies };
+}
+
+/**
+ * Extract name, price, currency, availability and seller from a product page.
+ * JSON-LD, embedded page state, the retailer's selectors and OpenGraph tags are
+ * read independently and each field is decided by vote; `confidence` records how
+ * well they agreed. `details` is null when no strategy finds a product name,
+ * since the page is then most likely not a product page at all. The trace says
+ * which selectors and strategies found something, whether or not parsing worked.
+ */
+export function extractProductPage(html: string, platform: RetailerId): ProductPageExtraction {
+  const { selectors } = getRetailer(platform);
+  const $ = cheerio.load(html);
+
+  const results = [fromJsonLd($), fromEmbeddedState($, platform), fromSelectors($, selectors), fromOpenGraph($)]
+    .filter((fields): fields is StrategyFields => fields !== null);
+  const trace = traceOf(results);
+
+  const name = vote(candidates(results, fields => fields.name, fields => fields.nameWeight ?? STRATEGY_WEIGHTS[fields.strategy]), sameName);
+  if (!name) return { details: null, trace };
+
+  const price = vote(
+    candidates(results, fields => fields.price !== undefined ? { amount: fields.price, currency: fields.currency } : undefined),
+    (a, b) => Math.abs(a.amount - b.amount) < 0.005
+  );
+  const availability = vote(candidates(results, fields => fields.availability), (a, b) => a === b);
+
+  const fields: ExtractionConfidence['fields'] = { name: name.confidence };
+  if (price) fields.price = price.confidence;
+  if (availability) fields.availability = availability.confidence;
+
+  return {
+    details: {
+      name: name.value,
+      price: price?.value.amount,
+      currency: price?.value.currency,
+      availability: availability?.value ?? 'unknown',
+      seller: results.map(result => result.seller).find(Boolean),
+      confidence: {
+        overall: Math.min(...Object.values(fields).map(field => field.score)),
+        fields
+      }
+    },
+    trace
+  };
+}
+
+export function extractProductDetails(html: string, platform: RetailerId): ProductDetails | null {
+  return extractProductPage(html, platform).details;
+}
+
+// True when the parse is too uncertain to record as an observation
+export function isLowConfidence(details: ProductDetails): boolean {
+  return details.confidence !== undefined && details.confidence.overall < LOW_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * Extract the top search results (name, absolute URL, display price) from a retailer search page
+ */
+export function extractSearchResults(html: string, platform: RetailerId, limit = 5): SearchResultItem[] {
+  const adapter = getRetailer(platform);
+  const { search } = adapter;
+  const $ = cheerio.load(html);
+  const results: SearchResultItem[] = [];
+
+  $(search.item).each((index, element) => {
+    if (index >= limit) return false;
+
+    const $element = $(element);
+    const nameElement = $element.find(search.name).first();
+    const linkElement = search.link ? $element.find(search.link).first() : nameElement;
+
+    const name = nameElement.text().trim();
+    const relativeUrl = linkElement.attr('href');
+    const price = $element.find(search.price).first().text().trim();
+
+    if (name && relativeUrl) {
+      results.push({
+        name: name.substring(0, 100), // Limit name length
+        url: new URL(relativeUrl, adapter.origin).toString(),
+        price: price || "N/A"
+      });
+    }
+  });
+
+  return results;
+}
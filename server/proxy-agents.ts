@@ -0,0 +1,23 @@
+import createHttpProxyAgent from 'http-proxy-agent';
+import createHttpsProxyAgent from 'https-proxy-agent';
+import { SocksProxyAgent } from 'socks-proxy-agent';
+import type { AxiosRequestConfig } from 'axios';
+
+/**
+ * Axios options that send a request through a proxy URL
+ * (http://, https:// or socks5://, credentials in the URL). Agents are used
+ * instead of axios' own `proxy` option so HTTPS targets are tunnelled with
+ * CONNECT and SOCKS works. Free of @shared imports so workers can load it.
+ */
+export function proxyRequestOptions(proxyUrl: string): Pick<AxiosRequestConfig, 'httpAgent' | 'httpsAgent' | 'proxy'> {
+  if (proxyUrl.startsWith('socks5://')) {
+    const agent = new SocksProxyAgent(proxyUrl);
+    return { httpAgent: agent, httpsAgent: agent, proxy: false };
+  }
+
+  return {
+    httpAgent: createHttpProxyAgent(proxyUrl),
+    httpsAgent: createHttpsProxyAgent(proxyUrl),
+    proxy: false
+  };
+}
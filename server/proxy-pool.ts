@@ -0,0 +1,491 @@
+import axios from 'axios';
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { proxyRequestOptions } from './proxy-agents';
+import {
+  PROXY_PROTOCOLS,
+  type InvalidProxyEntry,
+  type ProxyPlatformStats,
+  type ProxyPoolState,
+  type ProxyProtocol,
+  type ProxyState,
+  type ProxyStatus
+} from '@shared/proxy-pool';
+import type { RetailerId } from '@shared/retailers';
+
+/**
+ * Proxy Pool
+ * Manages each user's rotation proxies (the proxyRotationUrls setting): parses
+ * and validates the list, probes every proxy against a health check target
+ * when one is configured, tracks successes, blocks and latency per proxy and platform, keeps each
+ * product on the same proxy while it works and rests proxies that retailers
+ * keep blocking. Unhealthy proxies get a single trial request after a cool-down
+ * and rejoin the rotation when it succeeds.
+ */
+
+const QUARANTINE_AFTER_BLOCKS = 3;
+const QUARANTINE_BASE_MS = 30 * 60 * 1000;
+const MAX_QUARANTINE_MS = 24 * 60 * 60 * 1000;
+const UNHEALTHY_AFTER_FAILURES = 3;
+const HEALTH_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const HEALTH_CHECK_TIMEOUT_MS = 10000;
+// A failed probe doesn't take a proxy out of rotation while real requests through it succeeded this recently
+const RECENT_SUCCESS_MS = 15 * 60 * 1000;
+// An unhealthy proxy is let through for one request this long after it was marked or last tried
+const UNHEALTHY_RETRY_MS = 10 * 60 * 1000;
+
+const DEFAULT_PORTS: Record<ProxyProtocol, number> = { http: 80, https: 443, socks5: 1080 };
+
+/**
+ * URL proxies are probed against (PROXY_HEALTH_CHECK_URL). It has to be reachable
+ * from the proxies' side, so there is no default: without it proxies aren't
+ * probed and only real requests (including the trial requests unhealthy
+ * proxies get) decide their health.
+ */
+export function getHealthCheckTarget(): string | null {
+  return process.env.PROXY_HEALTH_CHECK_URL?.trim() || null;
+}
+
+// A list entry is a proxy URL, or an object with the URL or its parts and separate credentials
+const credentialsSchema = z.object({
+  username: z.string().optional(),
+  password: z.string().optional()
+});
+
+const proxyEntrySchema = z.union([
+  z.string().min(1),
+  credentialsSchema.extend({ url: z.string().min(1) }),
+  credentialsSchema.extend({
+    protocol: z.enum(PROXY_PROTOCOLS).default('http'),
+    host: z.string().min(1),
+    port: z.number().int().min(1).max(65535)
+  })
+]);
+
+export interface ParsedProxy {
+  id: string;
+  protocol: ProxyProtocol;
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+  url: string; // canonical URL including credentials
+}
+
+// The proxy a check should go through
+export type ProxyAssignment = Pick<ParsedProxy, 'id' | 'url'>;
+
+export type ProxyRequestOutcome = 'success' | 'blocked' | 'failed';
+
+interface PlatformCounters {
+  successes: number;
+  blocks: number;
+  failures: number;
+  latencyTotal: number;
+  latencySamples: number;
+}
+
+interface ProxyRecord extends ParsedProxy {
+  health: Exclude<ProxyStatus, 'quarantined'>;
+  lastCheckedAt?: Date;
+  lastCheckLatency?: number;
+  lastCheckError?: string;
+  lastSuccessAt?: number; // last real request through the proxy that succeeded
+  retryAt?: number;       // while unhealthy, when the next trial request may go through it
+  consecutiveBlocks: number;
+  consecutiveFailures: number;
+  quarantinedUntil?: Date;
+  quarantineCount: number;
+  stats: Map<RetailerId, PlatformCounters>;
+}
+
+interface UserProxyPool {
+  source: string; // the proxy list the pool was built from
+  proxies: Map<string, ProxyRecord>;
+  invalid: InvalidProxyEntry[];
+  sticky: Map<string, string>; // productId -> proxy id
+  checking?: Promise<void>;
+}
+
+function maskCredentials(entry: string): string {
+  return entry.replace(/(\/\/[^:/@\s]*:)[^@\s]*@/, '$1****@');
+}
+
+function describeEntry(entry: unknown): string {
+  return maskCredentials(typeof entry === 'string' ? entry : JSON.stringify(entry, (key, value) => key === 'password' ? '****' : value));
+}
+
+function parseEntry(entry: z.infer<typeof proxyEntrySchema>): ParsedProxy | string {
+  let raw: string;
+  if (typeof entry === 'string') {
+    raw = entry.trim();
+  } else if ('url' in entry) {
+    raw = entry.url.trim();
+  } else {
+    raw = `${entry.protocol}://${entry.host}:${entry.port}`;
+  }
+  // Bare host:port entries are HTTP proxies
+  if (!raw.includes('://')) {
+    raw = `http://${raw}`;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return 'Not a valid proxy URL';
+  }
+
+  const protocol = url.protocol.slice(0, -1);
+  if (!(PROXY_PROTOCOLS as readonly string[]).includes(protocol)) {
+    return `Unsupported protocol "${protocol}" (use ${PROXY_PROTOCOLS.join(', ')})`;
+  }
+  if (!url.hostname) {
+    return 'Missing proxy host';
+  }
+  if ((url.pathname && url.pathname !== '/') || url.search || url.hash) {
+    return 'A proxy URL has no path or query';
+  }
+
+  const credentials: z.infer<typeof credentialsSchema> = typeof entry === 'string' ? {} : entry;
+  const username = credentials.username ?? (url.username ? decodeURIComponent(url.username) : undefined);
+  const password = credentials.password ?? (url.password ? decodeURIComponent(url.password) : undefined);
+  if (password && !username) {
+    return 'A proxy password needs a username';
+  }
+
+  const proxyProtocol = protocol as ProxyProtocol;
+  const port = url.port ? Number(url.port) : DEFAULT_PORTS[proxyProtocol];
+  const auth = username ? `${encodeURIComponent(username)}${password ? `:${encodeURIComponent(password)}` : ''}@` : '';
+  // Stats follow a proxy through password changes
+  const id = createHash('sha1').update(`${proxyProtocol}://${username ?? ''}@${url.hostname}:${port}`).digest('hex').slice(0, 12);
+
+  return {
+    id,
+    protocol: proxyProtocol,
+    host: url.hostname,
+    port,
+    username,
+    password,
+    url: `${proxyProtocol}://${auth}${url.hostname}:${port}`
+  };
+}
+
+/**
+ * Parse a proxy list: a JSON array (as stored in proxyRotationUrls) or one
+ * proxy URL per line. Entries that can't be used are reported, not thrown.
+ */
+export function parseProxyList(raw: string): { proxies: ParsedProxy[]; invalid: InvalidProxyEntry[] } {
+  const trimmed = raw.trim();
+  if (!trimmed) return { proxies: [], invalid: [] };
+
+  let entries: unknown[];
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      entries = Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      return { proxies: [], invalid: [{ index: 0, entry: describeEntry(trimmed.slice(0, 80)), error: 'Proxy list is not valid JSON' }] };
+    }
+  } else {
+    entries = trimmed.split(/[\r\n]+/).map(line => line.trim()).filter(Boolean);
+  }
+
+  const proxies: ParsedProxy[] = [];
+  const invalid: InvalidProxyEntry[] = [];
+  entries.forEach((entry, index) => {
+    const validation = proxyEntrySchema.safeParse(entry);
+    const parsed = validation.success ? parseEntry(validation.data) : 'Expected a proxy URL or { url } / { protocol, host, port } object';
+
+    if (typeof parsed === 'string') {
+      invalid.push({ index, entry: describeEntry(entry), error: parsed });
+    } else if (proxies.some(proxy => proxy.id === parsed.id)) {
+      invalid.push({ index, entry: describeEntry(entry), error: 'Duplicate proxy' });
+    } else {
+      proxies.push(parsed);
+    }
+  });
+
+  return { proxies, invalid };
+}
+
+export class ProxyPoolService {
+  private pools = new Map<string, UserProxyPool>();
+  private healthInterval: NodeJS.Timeout;
+
+  constructor() {
+    this.healthInterval = setInterval(() => {
+      this.pools.forEach((_pool, userId) => {
+        this.checkHealth(userId).catch(error => {
+          console.error(`[ProxyPool] Health check failed for user ${userId}:`, error);
+        });
+      });
+    }, HEALTH_CHECK_INTERVAL_MS);
+    this.healthInterval.unref();
+  }
+
+  // The user's pool, rebuilt when their proxy list changed; known proxies keep their stats
+  private pool(userId: string, proxyList: string): UserProxyPool {
+    const existing = this.pools.get(userId);
+    if (existing && existing.source === proxyList) return existing;
+
+    const { proxies, invalid } = parseProxyList(proxyList);
+    const records = new Map<string, ProxyRecord>();
+    let added = 0;
+    proxies.forEach(proxy => {
+      const known = existing?.proxies.get(proxy.id);
+      if (known) {
+        records.set(proxy.id, { ...known, ...proxy });
+      } else {
+        records.set(proxy.id, {
+          ...proxy,
+          health: 'unchecked',
+          consecutiveBlocks: 0,
+          consecutiveFailures: 0,
+          quarantineCount: 0,
+          stats: new Map()
+        });
+        added++;
+      }
+    });
+
+    const sticky = new Map(Array.from(existing?.sticky ?? []).filter(([, proxyId]) => records.has(proxyId)));
+    const pool: UserProxyPool = { source: proxyList, proxies: records, invalid, sticky };
+    this.pools.set(userId, pool);
+
+    if (invalid.length > 0) {
+      console.warn(`[ProxyPool] Ignoring ${invalid.length} invalid proxy entries for user ${userId}`);
+    }
+    if (added > 0) {
+      this.checkHealth(userId).catch(error => {
+        console.error(`[ProxyPool] Health check failed for user ${userId}:`, error);
+      });
+    }
+    return pool;
+  }
+
+  private isQuarantined(record: ProxyRecord, now: number): boolean {
+    return !!record.quarantinedUntil && record.quarantinedUntil.getTime() > now;
+  }
+
+  private isUsable(record: ProxyRecord, now: number): boolean {
+    return record.health !== 'unhealthy' && !this.isQuarantined(record, now);
+  }
+
+  private isRetryDue(record: ProxyRecord, now: number): boolean {
+    return record.health === 'unhealthy' && !this.isQuarantined(record, now) && now >= (record.retryAt ?? 0);
+  }
+
+  private markUnhealthy(record: ProxyRecord): void {
+    if (record.health !== 'unhealthy') {
+      record.retryAt = Date.now() + UNHEALTHY_RETRY_MS;
+    }
+    record.health = 'unhealthy';
+  }
+
+  private markHealthy(record: ProxyRecord): void {
+    record.health = 'healthy';
+    record.retryAt = undefined;
+    record.consecutiveFailures = 0;
+  }
+
+  // Smoothed share of requests on the platform that weren't blocked or failed; 0.5 without history
+  private score(record: ProxyRecord, platform: RetailerId): number {
+    const counters = record.stats.get(platform);
+    if (!counters) return 0.5;
+    return (counters.successes + 1) / (counters.successes + counters.blocks + counters.failures + 2);
+  }
+
+  /**
+   * Proxy for a product's next check. A product stays on its proxy while that
+   * proxy is usable; otherwise it moves to the proxy doing best on the platform,
+   * the least shared one among equals. Null when no proxy is usable.
+   * An unhealthy proxy whose cool-down is over takes this one check as its trial
+   * request; the product stays assigned to its own proxy.
+   */
+  acquire(userId: string, proxyList: string, productId: string, platform: RetailerId): ProxyAssignment | null {
+    const pool = this.pool(userId, proxyList);
+    const now = Date.now();
+
+    const trial = Array.from(pool.proxies.values()).find(record => this.isRetryDue(record, now));
+    if (trial) {
+      trial.retryAt = now + UNHEALTHY_RETRY_MS;
+      console.log(`[ProxyPool] Sending a trial request through unhealthy ${maskCredentials(trial.url)}`);
+      return { id: trial.id, url: trial.url };
+    }
+
+    const currentId = pool.sticky.get(productId);
+    const current = currentId ? pool.proxies.get(currentId) : undefined;
+    if (current && this.isUsable(current, now)) {
+      return { id: current.id, url: current.url };
+    }
+
+    const candidates = Array.from(pool.proxies.values()).filter(record => this.isUsable(record, now));
+    if (candidates.length === 0) {
+      pool.sticky.delete(productId);
+      return null;
+    }
+
+    const load = new Map<string, number>();
+    pool.sticky.forEach(proxyId => load.set(proxyId, (load.get(proxyId) ?? 0) + 1));
+    candidates.sort((a, b) =>
+      Math.round(this.score(b, platform) * 10) - Math.round(this.score(a, platform) * 10) ||
+      (load.get(a.id) ?? 0) - (load.get(b.id) ?? 0)
+    );
+
+    const chosen = candidates[0];
+    pool.sticky.set(productId, chosen.id);
+    if (current) {
+      console.log(`[ProxyPool] Moved product ${productId} from ${maskCredentials(current.url)} to ${maskCredentials(chosen.url)}`);
+    }
+    return { id: chosen.id, url: chosen.url };
+  }
+
+  // Count a request made through a proxy; repeated blocks quarantine it, repeated failures mark it unhealthy
+  recordResult(userId: string, proxyId: string, platform: RetailerId, outcome: ProxyRequestOutcome, latency?: number): void {
+    const pool = this.pools.get(userId);
+    const record = pool?.proxies.get(proxyId);
+    if (!pool || !record) return;
+
+    let counters = record.stats.get(platform);
+    if (!counters) {
+      counters = { successes: 0, blocks: 0, failures: 0, latencyTotal: 0, latencySamples: 0 };
+      record.stats.set(platform, counters);
+    }
+    if (latency !== undefined) {
+      counters.latencyTotal += latency;
+      counters.latencySamples++;
+    }
+
+    if (outcome === 'success') {
+      counters.successes++;
+      record.lastSuccessAt = Date.now();
+      record.consecutiveBlocks = 0;
+      if (record.health === 'unhealthy') {
+        console.log(`[ProxyPool] ${maskCredentials(record.url)} is working again`);
+      }
+      this.markHealthy(record);
+    } else if (outcome === 'blocked') {
+      counters.blocks++;
+      record.consecutiveFailures = 0;
+      record.consecutiveBlocks++;
+      if (record.consecutiveBlocks >= QUARANTINE_AFTER_BLOCKS) {
+        this.quarantine(pool, record);
+      }
+    } else {
+      counters.failures++;
+      record.consecutiveFailures++;
+      if (record.consecutiveFailures >= UNHEALTHY_AFTER_FAILURES && record.health !== 'unhealthy') {
+        this.markUnhealthy(record);
+        console.warn(`[ProxyPool] ${maskCredentials(record.url)} marked unhealthy after ${record.consecutiveFailures} failed requests`);
+      }
+    }
+  }
+
+  // Rest a proxy for longer each time it is quarantined; its products move to other proxies
+  private quarantine(pool: UserProxyPool, record: ProxyRecord): void {
+    record.quarantineCount++;
+    const duration = Math.min(QUARANTINE_BASE_MS * Math.pow(2, record.quarantineCount - 1), MAX_QUARANTINE_MS);
+    record.quarantinedUntil = new Date(Date.now() + duration);
+    record.consecutiveBlocks = 0;
+
+    pool.sticky.forEach((proxyId, productId) => {
+      if (proxyId === record.id) pool.sticky.delete(productId);
+    });
+    console.warn(`[ProxyPool] Quarantined ${maskCredentials(record.url)} for ${Math.round(duration / 60000)} minutes after ${QUARANTINE_AFTER_BLOCKS} blocks in a row`);
+  }
+
+  // Probe every proxy in the user's pool against the health check target
+  async checkHealth(userId: string, proxyList?: string): Promise<void> {
+    const pool = proxyList !== undefined ? this.pool(userId, proxyList) : this.pools.get(userId);
+    if (!pool) return;
+    if (pool.checking) return pool.checking;
+
+    const target = getHealthCheckTarget();
+    if (!target) return;
+
+    pool.checking = Promise.all(Array.from(pool.proxies.values()).map(async record => {
+      const started = Date.now();
+      try {
+        await axios.get(target, {
+          ...proxyRequestOptions(record.url),
+          timeout: HEALTH_CHECK_TIMEOUT_MS,
+          validateStatus: (status: number) => status < 400
+        });
+        this.markHealthy(record);
+        record.lastCheckLatency = Date.now() - started;
+        record.lastCheckError = undefined;
+      } catch (error) {
+        // The target may be what's unreachable; requests that reach retailers outweigh the probe
+        const workedRecently = record.lastSuccessAt !== undefined && Date.now() - record.lastSuccessAt < RECENT_SUCCESS_MS;
+        if (!workedRecently) {
+          this.markUnhealthy(record);
+        }
+        record.lastCheckLatency = undefined;
+        record.lastCheckError = error instanceof Error ? error.message : 'Unknown error';
+      }
+      record.lastCheckedAt = new Date();
+    })).then(() => undefined).finally(() => {
+      pool.checking = undefined;
+    });
+
+    return pool.checking;
+  }
+
+  // Forget a product's proxy assignment when it stops being monitored
+  releaseProduct(userId: string, productId: string): void {
+    this.pools.get(userId)?.sticky.delete(productId);
+  }
+
+  getState(userId: string, proxyList: string, enabled: boolean): ProxyPoolState {
+    const pool = this.pool(userId, proxyList);
+    const now = Date.now();
+
+    const stickyCounts = new Map<string, number>();
+    pool.sticky.forEach(proxyId => stickyCounts.set(proxyId, (stickyCounts.get(proxyId) ?? 0) + 1));
+
+    const proxies: ProxyState[] = Array.from(pool.proxies.values()).map(record => {
+      const stats: ProxyPlatformStats[] = Array.from(record.stats.entries()).map(([platform, counters]) => ({
+        platform,
+        successes: counters.successes,
+        blocks: counters.blocks,
+        failures: counters.failures,
+        averageLatency: counters.latencySamples > 0 ? Math.round(counters.latencyTotal / counters.latencySamples) : null
+      }));
+      const quarantined = this.isQuarantined(record, now);
+
+      return {
+        id: record.id,
+        label: maskCredentials(record.url),
+        protocol: record.protocol,
+        host: record.host,
+        port: record.port,
+        hasAuth: !!record.username,
+        status: quarantined ? 'quarantined' : record.health,
+        lastCheckedAt: record.lastCheckedAt?.toISOString(),
+        lastCheckLatency: record.lastCheckLatency,
+        lastCheckError: record.lastCheckError,
+        retryAt: record.health === 'unhealthy' && !quarantined && record.retryAt ? new Date(record.retryAt).toISOString() : undefined,
+        consecutiveBlocks: record.consecutiveBlocks,
+        quarantinedUntil: quarantined ? record.quarantinedUntil!.toISOString() : undefined,
+        quarantineCount: record.quarantineCount,
+        stickyProducts: stickyCounts.get(record.id) ?? 0,
+        stats
+      };
+    });
+
+    return {
+      enabled,
+      healthCheckTarget: getHealthCheckTarget(),
+      proxies,
+      invalidEntries: pool.invalid
+    };
+  }
+
+  destroy(): void {
+    clearInterval(this.healthInterval);
+  }
+}
+
+// Export singleton instance
+export const proxyPool = new ProxyPoolService();
@@ -0,0 +1,289 @@
+/**
+ * Request Budget
+ * One token bucket per retailer host and egress identity (the proxy a request
+ * goes out through, or direct) that every outbound retailer request takes a
+ * token from: scheduled checks, product searches and ASIN lookups, on the main
+ * thread and in scraping workers alike. Requests made for a signed-in user use
+ * that user's buckets, which refill at their requestBudgetRpm setting; anonymous
+ * ones share buckets refilling at REQUEST_BUDGET_RPM requests per minute. A
+ * request that finds its bucket empty waits in line,
+ * interactive requests (a user waiting on a search) ahead of background ones
+ * (scheduled checks); one that would wait longer than its priority allows is
+ * rejected instead of being sent.
+ */
+
+const DEFAULT_REQUESTS_PER_MINUTE = Number(process.env.REQUEST_BUDGET_RPM) || 30;
+// Tokens a quiet bucket saves up, as seconds of its refill rate
+const BURST_SECONDS = 10;
+// The longest a request waits for a token before it is rejected
+const MAX_WAIT_MS: Record<RequestPriority, number> = {
+  interactive: 15 * 1000,
+  background: 5 * 60 * 1000
+};
+// Full buckets nobody used for this long are dropped
+const IDLE_BUCKET_MS = 30 * 60 * 1000;
+
+export type RequestPriority = 'interactive' | 'background';
+
+// The user a request is made for and their requests-per-minute setting
+export interface RequestBudgetOwner {
+  userId: string;
+  requestsPerMinute: number;
+}
+
+export interface RequestBudgetOptions {
+  proxyUrl?: string;          // egress identity; direct when absent
+  owner?: RequestBudgetOwner; // the server-wide anonymous buckets when absent
+  // Called when the request starts waiting for a token; the function it returns once it stops
+  onWait?: () => () => void;
+}
+
+export type RequestPermit =
+  | { granted: true; waitedMs: number }
+  | { granted: false; reason: string };
+
+export interface RequestBudgetCounters {
+  granted: number;
+  deferred: number;  // granted or rejected after waiting for a token
+  rejected: number;
+  waitedMs: number;  // total wait of granted requests
+}
+
+export interface RequestBudgetBucketStats extends RequestBudgetCounters {
+  host: string;
+  identity: string;  // proxy host:port, or direct
+  requestsPerMinute: number;
+  tokens: number;
+  queued: Record<RequestPriority, number>;
+}
+
+export interface RequestBudgetStats {
+  requestsPerMinute: number; // of anonymous requests
+  burst: number;
+  priorities: Record<RequestPriority, RequestBudgetCounters>;
+  buckets: RequestBudgetBucketStats[];
+}
+
+interface Waiter {
+  priority: RequestPriority;
+  enqueuedAt: number;
+  resolve: (permit: RequestPermit) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface Bucket extends RequestBudgetCounters {
+  host: string;
+  identity: string;
+  requestsPerMinute: number;
+  tokens: number;
+  refilledAt: number;
+  lastUsedAt: number;
+  waiting: Waiter[];
+  drainTimer?: NodeJS.Timeout;
+}
+
+function emptyCounters(): RequestBudgetCounters {
+  return { granted: 0, deferred: 0, rejected: 0, waitedMs: 0 };
+}
+
+// Tokens a bucket refilling at requestsPerMinute can save up
+function burst(requestsPerMinute: number): number {
+  return Math.max(1, Math.round(requestsPerMinute * BURST_SECONDS / 60));
+}
+
+// Proxy credentials stay out of bucket keys and metrics
+function egressIdentity(proxyUrl?: string): string {
+  if (!proxyUrl) return 'direct';
+  try {
+    return new URL(proxyUrl).host;
+  } catch {
+    return 'proxy';
+  }
+}
+
+export class RequestBudget {
+  private buckets = new Map<string, Bucket>();
+  private priorities: Record<RequestPriority, RequestBudgetCounters> = {
+    interactive: emptyCounters(),
+    background: emptyCounters()
+  };
+
+  constructor(private requestsPerMinute = DEFAULT_REQUESTS_PER_MINUTE) {}
+
+  /**
+   * Wait for a token to send a request to url, through the proxy and for the user
+   * given in options. Resolves with a rejection rather than waiting past the
+   * priority's limit.
+   */
+  acquire(url: string, priority: RequestPriority, options: RequestBudgetOptions = {}): Promise<RequestPermit> {
+    const now = Date.now();
+    this.pruneIdle(now);
+
+    const { proxyUrl, owner } = options;
+    const bucket = this.bucket(new URL(url).hostname, egressIdentity(proxyUrl), owner, now);
+    this.refill(bucket, now);
+    // A changed setting applies from now on
+    if (owner && owner.requestsPerMinute !== bucket.requestsPerMinute) {
+      bucket.requestsPerMinute = owner.requestsPerMinute;
+      bucket.tokens = Math.min(bucket.tokens, burst(bucket.requestsPerMinute));
+    }
+    bucket.lastUsedAt = now;
+
+    // Interactive requests only queue behind other interactive ones
+    const ahead = priority === 'interactive'
+      ? bucket.waiting.filter(waiter => waiter.priority === 'interactive').length
+      : bucket.waiting.length;
+
+    if (ahead === 0 && bucket.tokens >= 1) {
+      bucket.tokens--;
+      this.count(bucket, priority, 'granted', false);
+      return Promise.resolve({ granted: true, waitedMs: 0 });
+    }
+
+    const expectedWaitMs = Math.ceil((ahead + 1 - bucket.tokens) * 60 * 1000 / bucket.requestsPerMinute);
+    if (expectedWaitMs > MAX_WAIT_MS[priority]) {
+      this.count(bucket, priority, 'rejected', false);
+      const reason = `Request budget for ${bucket.host} exhausted, next slot in ${Math.ceil(expectedWaitMs / 1000)}s`;
+      console.warn(`[RequestBudget] Rejected ${priority} request (${bucket.identity}): ${reason}`);
+      return Promise.resolve({ granted: false, reason });
+    }
+
+    console.log(`[RequestBudget] Deferring ${priority} request to ${bucket.host} (${bucket.identity}) by about ${Math.ceil(expectedWaitMs / 1000)}s`);
+    const stopWaiting = options.onWait?.();
+    return new Promise(resolve => {
+      const waiter: Waiter = {
+        priority,
+        enqueuedAt: now,
+        resolve: permit => {
+          stopWaiting?.();
+          resolve(permit);
+        },
+        // Interactive requests arriving later can push a background one past its limit
+        timer: setTimeout(() => this.expire(bucket, waiter), MAX_WAIT_MS[priority])
+      };
+      waiter.timer.unref();
+
+      if (priority === 'interactive') {
+        const firstBackground = bucket.waiting.findIndex(queued => queued.priority === 'background');
+        bucket.waiting.splice(firstBackground === -1 ? bucket.waiting.length : firstBackground, 0, waiter);
+      } else {
+        bucket.waiting.push(waiter);
+      }
+      this.scheduleDrain(bucket);
+    });
+  }
+
+  private bucket(host: string, identity: string, owner: RequestBudgetOwner | undefined, now: number): Bucket {
+    const key = `${host}|${identity}|${owner?.userId ?? ''}`;
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      const requestsPerMinute = owner?.requestsPerMinute ?? this.requestsPerMinute;
+      bucket = { host, identity, requestsPerMinute, tokens: burst(requestsPerMinute), refilledAt: now, lastUsedAt: now, waiting: [], ...emptyCounters() };
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  private refill(bucket: Bucket, now: number): void {
+    const earned = (now - bucket.refilledAt) * bucket.requestsPerMinute / (60 * 1000);
+    bucket.tokens = Math.min(burst(bucket.requestsPerMinute), bucket.tokens + earned);
+    bucket.refilledAt = now;
+  }
+
+  // Hand out tokens to waiting requests as they refill
+  private drain(bucket: Bucket): void {
+    bucket.drainTimer = undefined;
+    const now = Date.now();
+    this.refill(bucket, now);
+
+    while (bucket.waiting.length > 0 && bucket.tokens >= 1) {
+      const waiter = bucket.waiting.shift()!;
+      clearTimeout(waiter.timer);
+      bucket.tokens--;
+      const waitedMs = now - waiter.enqueuedAt;
+      this.count(bucket, waiter.priority, 'granted', true, waitedMs);
+      waiter.resolve({ granted: true, waitedMs });
+    }
+
+    this.scheduleDrain(bucket);
+  }
+
+  private scheduleDrain(bucket: Bucket): void {
+    if (bucket.drainTimer || bucket.waiting.length === 0) return;
+    const delay = Math.max(0, Math.ceil((1 - bucket.tokens) * 60 * 1000 / bucket.requestsPerMinute));
+    bucket.drainTimer = setTimeout(() => this.drain(bucket), delay);
+  }
+
+  private expire(bucket: Bucket, waiter: Waiter): void {
+    const index = bucket.waiting.indexOf(waiter);
+    if (index === -1) return;
+    bucket.waiting.splice(index, 1);
+
+    this.count(bucket, waiter.priority, 'rejected', true);
+    const reason = `Request budget for ${bucket.host} exhausted, waited ${Math.round(MAX_WAIT_MS[waiter.priority] / 1000)}s`;
+    console.warn(`[RequestBudget] Rejected ${waiter.priority} request (${bucket.identity}): ${reason}`);
+    waiter.resolve({ granted: false, reason });
+  }
+
+  private count(bucket: Bucket, priority: RequestPriority, result: 'granted' | 'rejected', deferred: boolean, waitedMs = 0): void {
+    for (const counters of [bucket, this.priorities[priority]]) {
+      counters[result]++;
+      if (deferred) counters.deferred++;
+      if (result === 'granted') counters.waitedMs += waitedMs;
+    }
+  }
+
+  private pruneIdle(now: number): void {
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.waiting.length === 0 && now - bucket.lastUsedAt > IDLE_BUCKET_MS) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+
+  getStats(): RequestBudgetStats {
+    const now = Date.now();
+    const buckets = Array.from(this.buckets.values()).map(bucket => {
+      this.refill(bucket, now);
+      return {
+        host: bucket.host,
+        identity: bucket.identity,
+        requestsPerMinute: bucket.requestsPerMinute,
+        tokens: Math.floor(bucket.tokens * 100) / 100,
+        queued: {
+          interactive: bucket.waiting.filter(waiter => waiter.priority === 'interactive').length,
+          background: bucket.waiting.filter(waiter => waiter.priority === 'background').length
+        },
+        granted: bucket.granted,
+        deferred: bucket.deferred,
+        rejected: bucket.rejected,
+        waitedMs: bucket.waitedMs
+      };
+    });
+
+    return {
+      requestsPerMinute: this.requestsPerMinute,
+      burst: burst(this.requestsPerMinute),
+      priorities: {
+        interactive: { ...this.priorities.interactive },
+        background: { ...this.priorities.background }
+      },
+      buckets
+    };
+  }
+
+  // Turn away everything still waiting (shutdown)
+  destroy(): void {
+    this.buckets.forEach(bucket => {
+      if (bucket.drainTimer) clearTimeout(bucket.drainTimer);
+      bucket.waiting.forEach(waiter => {
+        clearTimeout(waiter.timer);
+        waiter.resolve({ granted: false, reason: 'Shutting down' });
+      });
+      bucket.waiting = [];
+    });
+  }
+}
+
+// Export singleton instance
+export const requestBudget = new RequestBudget();
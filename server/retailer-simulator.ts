@@ -0,0 +1,473 @@
+import express, { type Express, type Request, type Response } from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import { retailerIdSchema, type RetailerId } from '@shared/retailers';
+
+/**
+ * Retailer Simulator
+ * Local stand-in for Amazon and Walmart. Serves product, search, Cloudflare
+ * challenge, AWS WAF, CAPTCHA and 429 pages from scripted scenarios so scraper and
+ * anti-bot tests run offline and give the same result on every run.
+ *
+ * Start it with `npm run simulator` and point the app at it with
+ * RETAILER_HOST_OVERRIDE=http://localhost:4010. Requests arrive as
+ * /<retailer>/<original path>; scenarios are scripted through /__simulator.
+ */
+
+export const SIMULATED_BLOCKS = ['cloudflare', 'aws_waf', 'captcha', 'rate_limit'] as const;
+export type SimulatedBlock = (typeof SIMULATED_BLOCKS)[number];
+
+// Request behaviour shared by products and the platform's listing pages
+const behaviourSchema = z.object({
+  latencyMs: z.number().int().min(0).max(60000).optional(),
+  blockRate: z.number().min(0).max(1).optional(), // share of requests answered with the block page
+  block: z.enum(SIMULATED_BLOCKS).optional(),     // block page served; defaults to captcha
+});
+
+export const simulatedProductSchema = behaviourSchema.extend({
+  id: z.string().min(1), // ASIN or Walmart item id
+  name: z.string().min(1),
+  price: z.number().positive(),
+  currency: z.string().length(3).default('USD'),
+  stock: z.enum(['in-stock', 'low-stock', 'out-of-stock']).default('in-stock'),
+  seller: z.string().optional(),
+});
+
+export type SimulatedBehaviour = z.infer<typeof behaviourSchema>;
+export type SimulatedProduct = z.input<typeof simulatedProductSchema>;
+type StoredProduct = z.infer<typeof simulatedProductSchema>;
+
+export interface SimulatedRequest {
+  platform: RetailerId;
+  path: string;
+  status: number;
+  block?: SimulatedBlock;
+  timestamp: number;
+}
+
+export interface RetailerSimulatorOptions {
+  seed?: number;           // block decisions are drawn from a PRNG seeded with this
+  defaultLatencyMs?: number;
+  products?: Partial<Record<RetailerId, SimulatedProduct[]>>;
+}
+
+// Products behind the URLs in the anti-bot test framework's TEST_CONFIG
+export const DEFAULT_SIMULATED_PRODUCTS: Record<RetailerId, SimulatedProduct[]> = {
+  amazon: [
+    { id: 'B08N5WRWNW', name: 'Echo Dot (4th Gen) Smart speaker with Alexa', price: 49.99, seller: 'Amazon.com' },
+    { id: 'B0BCQ7FZN5', name: 'Fire TV Stick 4K streaming device', price: 39.99, stock: 'low-stock', seller: 'Amazon.com' },
+  ],
+  walmart: [
+    { id: '1944945036', name: 'Apple iPhone 14 128GB Blue', price: 699, seller: 'Walmart.com' },
+    { id: '55449983', name: 'Nintendo Switch with Neon Blue and Neon Red Joy-Con', price: 299, stock: 'out-of-stock', seller: 'Walmart.com' },
+  ],
+};
+
+// Above the detectors' "suspiciously fast" thresholds, so normal pages don't look blocked
+const DEFAULT_LATENCY_MS = 250;
+const MAX_LOGGED_REQUESTS = 500;
+
+// Small deterministic PRNG (mulberry32)
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatPrice(price: number, currency: string): string {
+  return currency === 'USD' ? `$${price.toFixed(2)}` : `${price.toFixed(2)} ${currency}`;
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function page(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en-us">
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+function amazonProductPage(product: StoredProduct): string {
+  const availability = {
+    'in-stock': 'In Stock',
+    'low-stock': 'Only 3 left in stock - order soon.',
+    'out-of-stock': 'Currently unavailable.',
+  }[product.stock];
+  const seller = product.seller ?? 'Amazon.com';
+
+  return page(`Amazon.com: ${product.name}`, `
+<div id="dp" class="product-detail" data-asin="${escapeHtml(product.id)}">
+  <h1 id="title"><span id="productTitle" class="a-size-large product-title-word-break">${escapeHtml(product.name)}</span></h1>
+  <div id="corePrice_feature_div">
+    <span class="a-price"><span class="a-offscreen">${formatPrice(product.price, product.currency)}</span><span aria-hidden="true">${formatPrice(product.price, product.currency)}</span></span>
+  </div>
+  <input type="hidden" name="priceCurrencyCode" value="${product.currency}">
+  <div id="availability"><span class="a-size-medium">${availability}</span></div>
+  ${product.stock === 'out-of-stock' ? '' : '<input type="submit" id="add-to-cart-button" value="Add to Cart">'}
+  <div id="merchant-info">Ships from and sold by <a id="sellerProfileTriggerId" href="/sp?seller=1">${escapeHtml(seller)}</a>.</div>
+</div>`);
+}
+
+function walmartProductPage(product: StoredProduct): string {
+  const schemaAvailability = {
+    'in-stock': 'InStock',
+    'low-stock': 'LimitedAvailability',
+    'out-of-stock': 'OutOfStock',
+  }[product.stock];
+  const seller = product.seller ?? 'Walmart.com';
+
+  return page(`${product.name} - Walmart.com`, `
+<main class="product-page" itemscope itemtype="https://schema.org/Product">
+  <h1 data-testid="product-title" itemprop="name">${escapeHtml(product.name)}</h1>
+  <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+    <span itemprop="price" content="${product.price.toFixed(2)}">${formatPrice(product.price, product.currency)}</span>
+    <meta itemprop="priceCurrency" content="${product.currency}">
+    <link itemprop="availability" href="https://schema.org/${schemaAvailability}">
+  </div>
+  ${product.stock === 'low-stock' ? '<div data-testid="low-stock-message">Only 3 left</div>' : ''}
+  ${product.stock === 'out-of-stock'
+    ? '<div data-testid="out-of-stock-message">Out of stock</div>'
+    : '<button data-automation-id="atc" aria-label="Add to cart">Add to cart</button>'}
+  <div data-testid="product-seller-info">Sold and shipped by <a data-testid="seller-name-link" href="/seller/1">${escapeHtml(seller)}</a></div>
+</main>`);
+}
+
+function amazonSearchPage(query: string, products: StoredProduct[]): string {
+  const items = products.map(product => `
+  <div data-component-type="s-search-result" data-asin="${escapeHtml(product.id)}">
+    <h2><a href="/${slugify(product.name)}/dp/${escapeHtml(product.id)}"><span class="a-size-medium">${escapeHtml(product.name)}</span></a></h2>
+    <span class="a-price"><span class="a-offscreen">${formatPrice(product.price, product.currency)}</span></span>
+  </div>`).join('');
+
+  return page(`Amazon.com : ${query}`, `<div class="s-main-slot s-result-list">${items}\n</div>`);
+}
+
+function walmartSearchPage(query: string, products: StoredProduct[]): string {
+  const items = products.map(product => `
+  <div data-testid="item" data-item-id="${escapeHtml(product.id)}">
+    <a data-automation-id="product-title" href="/ip/${slugify(product.name)}/${escapeHtml(product.id)}">${escapeHtml(product.name)}</a>
+    <div class="price-current">${formatPrice(product.price, product.currency)}</div>
+  </div>`).join('');
+
+  return page(`${query} - Walmart.com`, `<section class="search-results">${items}\n</section>`);
+}
+
+function notFoundPage(platform: RetailerId): string {
+  return platform === 'amazon'
+    ? page('Page Not Found', '<h1>Sorry! We couldn\'t find that page. Try searching or go to Amazon\'s home page.</h1>')
+    : page('Walmart.com', '<h1>This page could not be found.</h1>');
+}
+
+// Block pages carry the markers the worker's detectors and the main-thread challenge check look for
+function sendBlockPage(res: Response, platform: RetailerId, block: SimulatedBlock, random: () => number): number {
+  switch (block) {
+    case 'cloudflare': {
+      const rayId = Math.floor(random() * 0xffffffff).toString(16).padStart(8, '0');
+      res.status(403).set({ 'server': 'cloudflare', 'cf-ray': `${rayId}-IAD` }).type('html').send(page('Just a moment...', `
+<div id="cf-wrapper">
+  <h1>Checking your browser before accessing the site.</h1>
+  <p>Please wait while we check your browser.</p>
+  <form id="cf-challenge-form" class="cf-browser-verification" action="/?__cf_chl_jschl_tk__=${rayId}" method="POST">
+    <input type="hidden" name="jschl-answer" value="">
+  </form>
+  <div class="cf-error-details">Cloudflare Ray ID: ${rayId}</div>
+</div>`));
+      return 403;
+    }
+    case 'aws_waf':
+      res.status(403).type('html').send(page('403 Forbidden', `
+<h1>403 ERROR</h1>
+<h2>The request could not be satisfied.</h2>
+<p>Request blocked. Access denied by WAF: a security rule triggered on this request.</p>
+<p>Generated by AWS WAF (web application firewall) for amazon cloudfront.</p>`));
+      return 403;
+    case 'rate_limit':
+      res.status(429).set({ 'retry-after': '30', 'x-ratelimit-remaining': '0' }).type('html').send(page('Too Many Requests', `
+<h1>Too Many Requests</h1>
+<p>Rate limit exceeded. Please slow down and try again later.</p>`));
+      return 429;
+    case 'captcha':
+    default:
+      if (platform === 'amazon') {
+        res.status(200).type('html').send(page('Amazon.com', `
+<h4>Robot Check</h4>
+<p>Sorry, we just need to make sure you are not a robot. For best results, please make sure your browser is accepting cookies.</p>
+<form method="get" action="/errors/validateCaptcha">
+  <p>Enter the characters you see below</p>
+  <img src="https://images-na.ssl-images-amazon.com/captcha/simulated/Captcha_simulated.jpg" alt="captcha">
+  <input type="text" id="captchacharacters" name="field-keywords">
+</form>
+<p>To discuss automated access to Amazon data please contact api-services-support@amazon.com.</p>`));
+      } else {
+        res.status(200).type('html').send(page('Robot or human?', `
+<h1>Robot or human?</h1>
+<p>Activate and hold the button to confirm that you're human. Thank You!</p>
+<p>We need to verify you are human. Walmart Security has blocked this request for unusual activity.</p>
+<div id="px-captcha" class="captcha"></div>`));
+      }
+      return 200;
+  }
+}
+
+export class RetailerSimulator {
+  readonly app: Express;
+  private products = new Map<RetailerId, Map<string, StoredProduct>>();
+  private platformBehaviour = new Map<RetailerId, SimulatedBehaviour>();
+  private requests: SimulatedRequest[] = [];
+  private random: () => number;
+  private server: Server | null = null;
+
+  constructor(private options: RetailerSimulatorOptions = {}) {
+    this.random = createRandom(options.seed ?? 1);
+    this.app = express();
+    this.app.use(express.json());
+    this.registerControlRoutes();
+    this.registerRetailerRoutes();
+    this.reset();
+  }
+
+  /**
+   * Restore the initial products, clear platform behaviour and the request log,
+   * and reseed the PRNG so a scenario replays identically
+   */
+  reset(): void {
+    this.products.clear();
+    this.platformBehaviour.clear();
+    this.requests = [];
+    this.random = createRandom(this.options.seed ?? 1);
+
+    const initial = this.options.products ?? DEFAULT_SIMULATED_PRODUCTS;
+    for (const [platform, products] of Object.entries(initial) as [RetailerId, SimulatedProduct[]][]) {
+      products.forEach(product => this.setProduct(platform, product));
+    }
+  }
+
+  setProduct(platform: RetailerId, product: SimulatedProduct): void {
+    const parsed = simulatedProductSchema.parse(product);
+    let products = this.products.get(platform);
+    if (!products) {
+      products = new Map();
+      this.products.set(platform, products);
+    }
+    products.set(parsed.id, parsed);
+  }
+
+  removeProduct(platform: RetailerId, id: string): boolean {
+    return this.products.get(platform)?.delete(id) ?? false;
+  }
+
+  // Latency and blocking for search and listing pages
+  setPlatformBehaviour(platform: RetailerId, behaviour: SimulatedBehaviour): void {
+    this.platformBehaviour.set(platform, behaviourSchema.parse(behaviour));
+  }
+
+  getProducts(platform: RetailerId): StoredProduct[] {
+    return Array.from(this.products.get(platform)?.values() ?? []);
+  }
+
+  getRequests(): SimulatedRequest[] {
+    return [...this.requests];
+  }
+
+  /**
+   * Listen on the given port (0 picks a free one) and resolve with the base URL
+   * to use as RETAILER_HOST_OVERRIDE
+   */
+  start(port = 0, host = '127.0.0.1'): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = this.app.listen(port, host, () => {
+        const address = server.address() as AddressInfo;
+        resolve(`http://${host}:${address.port}`);
+      });
+      server.once('error', reject);
+      this.server = server;
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.server) return resolve();
+      this.server.close(error => (error ? reject(error) : resolve()));
+      this.server = null;
+    });
+  }
+
+  private registerControlRoutes(): void {
+    const control = express.Router();
+
+    control.get('/state', (_req, res) => {
+      res.json({
+        products: Object.fromEntries(Array.from(this.products.keys()).map(platform => [platform, this.getProducts(platform)])),
+        platforms: Object.fromEntries(this.platformBehaviour),
+        requests: this.requests.length,
+      });
+    });
+
+    control.get('/requests', (_req, res) => {
+      res.json(this.requests);
+    });
+
+    control.post('/reset', (_req, res) => {
+      this.reset();
+      res.json({ success: true });
+    });
+
+    control.put('/products/:platform/:id', (req, res) => {
+      const platform = retailerIdSchema.safeParse(req.params.platform);
+      const product = simulatedProductSchema.safeParse({ ...req.body, id: req.params.id });
+      if (!platform.success || !product.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: platform.success ? product.error?.format() : platform.error.format()
+        });
+      }
+      this.setProduct(platform.data, product.data);
+      res.json(product.data);
+    });
+
+    control.delete('/products/:platform/:id', (req, res) => {
+      const platform = retailerIdSchema.safeParse(req.params.platform);
+      if (!platform.success || !this.removeProduct(platform.data, req.params.id)) {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+      res.json({ success: true });
+    });
+
+    control.put('/platforms/:platform', (req, res) => {
+      const platform = retailerIdSchema.safeParse(req.params.platform);
+      const behaviour = behaviourSchema.safeParse(req.body);
+      if (!platform.success || !behaviour.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: platform.success ? behaviour.error?.format() : platform.error.format()
+        });
+      }
+      this.setPlatformBehaviour(platform.data, behaviour.data);
+      res.json(behaviour.data);
+    });
+
+    this.app.use('/__simulator', control);
+  }
+
+  private registerRetailerRoutes(): void {
+    // Amazon product URLs: /dp/<asin>, /<slug>/dp/<asin>, /gp/product/<asin>, /gp/aw/d/<asin>
+    this.app.get(['/amazon/dp/:id', '/amazon/:slug/dp/:id', '/amazon/gp/product/:id', '/amazon/gp/aw/d/:id'], (req, res) =>
+      this.serveProduct(req, res, 'amazon', req.params.id.toUpperCase()));
+    this.app.get('/amazon/s', (req, res) =>
+      this.serveListing(req, res, 'amazon', String(req.query.k ?? '')));
+    this.app.get('/amazon/gp/bestsellers', (req, res) =>
+      this.serveListing(req, res, 'amazon', ''));
+
+    // Walmart product URLs: /ip/<item id> or /ip/<slug>/<item id>
+    this.app.get(['/walmart/ip/:id', '/walmart/ip/:slug/:id'], (req, res) =>
+      this.serveProduct(req, res, 'walmart', req.params.id));
+    this.app.get(['/walmart/search', '/walmart/search/'], (req, res) =>
+      this.serveListing(req, res, 'walmart', String(req.query.q ?? req.query.query ?? '')));
+    this.app.get('/walmart/browse/:category', (req, res) =>
+      this.serveListing(req, res, 'walmart', ''));
+
+    this.app.use((req, res) => {
+      const platform = retailerIdSchema.safeParse(req.path.split('/')[1]);
+      if (!platform.success) {
+        return res.status(404).json({ error: 'Unknown retailer; request /<retailer>/<path>' });
+      }
+      this.log(platform.data, req, 404);
+      res.status(404).type('html').send(notFoundPage(platform.data));
+    });
+  }
+
+  private async serveProduct(req: Request, res: Response, platform: RetailerId, id: string): Promise<void> {
+    const product = this.products.get(platform)?.get(id);
+    await this.delay(product?.latencyMs);
+
+    if (!product) {
+      this.log(platform, req, 404);
+      res.status(404).type('html').send(notFoundPage(platform));
+      return;
+    }
+    if (this.shouldBlock(product)) {
+      this.sendBlock(req, res, platform, product.block ?? 'captcha');
+      return;
+    }
+
+    this.log(platform, req, 200);
+    res.status(200).type('html').send(platform === 'amazon' ? amazonProductPage(product) : walmartProductPage(product));
+  }
+
+  private async serveListing(req: Request, res: Response, platform: RetailerId, query: string): Promise<void> {
+    const behaviour = this.platformBehaviour.get(platform) ?? {};
+    await this.delay(behaviour.latencyMs);
+
+    if (this.shouldBlock(behaviour)) {
+      this.sendBlock(req, res, platform, behaviour.block ?? 'captcha');
+      return;
+    }
+
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const matches = this.getProducts(platform).filter(product =>
+      terms.every(term => product.name.toLowerCase().includes(term)));
+
+    this.log(platform, req, 200);
+    res.status(200).type('html').send(platform === 'amazon' ? amazonSearchPage(query, matches) : walmartSearchPage(query, matches));
+  }
+
+  private sendBlock(req: Request, res: Response, platform: RetailerId, block: SimulatedBlock): void {
+    const status = sendBlockPage(res, platform, block, this.random);
+    this.log(platform, req, status, block);
+  }
+
+  private shouldBlock(behaviour: SimulatedBehaviour): boolean {
+    const rate = behaviour.blockRate ?? 0;
+    // Always draw so the sequence doesn't depend on which products have a block rate
+    const roll = this.random();
+    return rate > 0 && roll < rate;
+  }
+
+  private delay(latencyMs?: number): Promise<void> {
+    const ms = latencyMs ?? this.options.defaultLatencyMs ?? DEFAULT_LATENCY_MS;
+    return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+  }
+
+  private log(platform: RetailerId, req: Request, status: number, block?: SimulatedBlock): void {
+    this.requests.push({ platform, path: req.originalUrl.slice(platform.length + 1), status, block, timestamp: Date.now() });
+    if (this.requests.length > MAX_LOGGED_REQUESTS) {
+      this.requests.shift();
+    }
+  }
+}
+
+// Run standalone: tsx server/retailer-simulator.ts
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const simulator = new RetailerSimulator({
+    seed: process.env.SIMULATOR_SEED ? Number(process.env.SIMULATOR_SEED) : undefined,
+  });
+  const port = Number(process.env.SIMULATOR_PORT) || 4010;
+
+  simulator.start(port).then(url => {
+    console.log(`[Simulator] Retailer simulator listening on ${url}`);
+    console.log(`[Simulator] Start the app with RETAILER_HOST_OVERRIDE=${url} to scrape it`);
+  }).catch(error => {
+    console.error('[Simulator] Failed to start:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,11 @@
+import type { RetailerId } from '@shared/retailers';
+import type { RetailerAdapterDefinition } from './types';
+import { amazonAdapter } from './amazon';
+import { walmartAdapter } from './walmart';
+
+// One adapter per id in RETAILER_IDS (shared/retailers.ts); a retailer without
+// an adapter, or an adapter under the wrong id, fails to compile
+export const RETAILER_ADAPTERS = {
+  amazon: amazonAdapter,
+  walmart: walmartAdapter
+} satisfies { [Id in RetailerId]: RetailerAdapterDefinition<Id> };
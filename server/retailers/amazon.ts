@@ -0,0 +1,82 @@
+import type { RetailerAdapterDefinition } from './types';
+
+const HOSTS = ['amazon.com', 'www.amazon.com'];
+
+export const amazonAdapter = {
+  id: 'amazon',
+  displayName: 'Amazon',
+  origin: 'https://www.amazon.com',
+  hosts: HOSTS,
+  defaultCheckInterval: 20,
+  workaroundSetting: 'enableAmazonWorkarounds',
+  retryBaseDelayMs: 2000,
+  firstPartySeller: /^amazon(\.com)?\b/i, // "Amazon.com", "Amazon.com Services LLC"
+
+  headers: {
+    referer: 'https://www.google.com/',
+    siteReferer: 'https://www.amazon.com/'
+  },
+
+  selectors: {
+    title: [
+      '#productTitle',
+      'h1[data-automation-id="product-title"]',
+      'span#productTitle',
+      '.product-title',
+      'h1.a-size-large.a-spacing-none.a-color-base',
+      'h1.a-size-large',
+      '.a-size-large.product-title-word-break',
+      '[data-asin] h1',
+      '.a-spacing-none .a-size-large'
+    ],
+    // Buy box price first, then legacy price blocks
+    price: [
+      '#corePrice_feature_div .a-price .a-offscreen',
+      '#corePriceDisplay_desktop_feature_div .a-price .a-offscreen',
+      '#apex_desktop .a-price .a-offscreen',
+      '#priceblock_dealprice',
+      '#priceblock_ourprice',
+      '#priceblock_saleprice',
+      '#price_inside_buybox',
+      '.a-price .a-offscreen'
+    ],
+    currency: ['input[name="priceCurrencyCode"]'],
+    stockText: ['#availability span', '#availability', '#outOfStock'],
+    inStock: ['#add-to-cart-button'],
+    seller: [
+      '#sellerProfileTriggerId',
+      '#merchantInfoFeature_feature_div .offer-display-feature-text-message',
+      '[tabular-attribute-name="Sold by"] .tabular-buybox-text-message',
+      '#merchant-info a'
+    ],
+    sellerText: { selector: '#merchant-info', pattern: /sold by ([^.]+)/i }
+  },
+
+  search: {
+    item: '[data-component-type="s-search-result"]',
+    name: 'h2 a span, .a-size-mini span, .a-size-base-plus',
+    link: 'h2 a',
+    price: '.a-price .a-offscreen, .a-price-whole'
+  },
+
+  matchesUrl(url: string): boolean {
+    try {
+      return HOSTS.includes(new URL(url).hostname);
+    } catch {
+      return false;
+    }
+  },
+
+  extractCanonicalId(url: string): string | null {
+    const match = url.match(/\/(?:dp|gp\/product|gp\/aw\/d)\/([A-Z0-9]{10})(?:[/?]|$)/i);
+    return match ? match[1].toUpperCase() : null;
+  },
+
+  buildProductUrl(asin: string): string {
+    return `https://www.amazon.com/dp/${asin.toUpperCase()}`;
+  },
+
+  buildSearchUrl(query: string): string {
+    return `https://www.amazon.com/s?k=${encodeURIComponent(query)}`;
+  }
+} satisfies RetailerAdapterDefinition<'amazon'>;
@@ -0,0 +1,73 @@
+import type { RetailerId } from '@shared/retailers';
+import type { RetailerAdapter } from './types';
+import { RETAILER_ADAPTERS } from './adapters';
+
+export type { RetailerAdapter, RetailerAdapterDefinition, RetailerSelectors, RetailerSearchSelectors, RetailerHeaderProfile, RetailerEmbeddedState, EmbeddedProductFields } from './types';
+
+// Registry of supported retailers, filled from RETAILER_ADAPTERS
+const adapters = new Map<RetailerId, RetailerAdapter>();
+
+export function registerRetailer(adapter: RetailerAdapter): void {
+  adapters.set(adapter.id, adapter);
+}
+
+Object.values(RETAILER_ADAPTERS).forEach(registerRetailer);
+
+export function getRetailer(id: RetailerId): RetailerAdapter {
+  const adapter = adapters.get(id);
+  if (!adapter) {
+    throw new Error(`No retailer adapter registered for: ${id}`);
+  }
+  return adapter;
+}
+
+export function getRetailers(): RetailerAdapter[] {
+  return Array.from(adapters.values());
+}
+
+export function findRetailerByUrl(url: string): RetailerAdapter | null {
+  return getRetailers().find(adapter => adapter.matchesUrl(url)) ?? null;
+}
+
+// SSRF protection: the URL must point at one of the retailer's own hosts
+export function isAllowedProductUrl(url: string, platform: RetailerId): boolean {
+  const adapter = adapters.get(platform);
+  return adapter ? adapter.matchesUrl(url) : false;
+}
+
+// Base URL retailer requests are redirected to, e.g. http://localhost:4010 for the
+// retailer simulator. Server configuration only; never taken from user settings.
+export function getRetailerHostOverride(): string | null {
+  const override = process.env.RETAILER_HOST_OVERRIDE?.trim();
+  return override ? override.replace(/\/+$/, '') : null;
+}
+
+/**
+ * URL to actually request for a retailer page. With a host override, retailer URLs
+ * become `${override}/${retailerId}${path}`; SSRF checks, detection and parsing
+ * keep working on the original URL.
+ */
+export function resolveRetailerRequestUrl(url: string): string {
+  const override = getRetailerHostOverride();
+  if (!override) return url;
+
+  const adapter = findRetailerByUrl(url);
+  if (!adapter) return url;
+
+  const { pathname, search } = new URL(url);
+  return `${override}/${adapter.id}${pathname}${search}`;
+}
+
+// Inverse of resolveRetailerRequestUrl: the retailer URL an overridden request stands for
+export function originalRetailerUrl(requestUrl: string): string {
+  const override = getRetailerHostOverride();
+  if (!override || !requestUrl.startsWith(`${override}/`)) return requestUrl;
+
+  const rest = requestUrl.slice(override.length + 1);
+  const [id] = rest.split(/[/?]/, 1);
+  const adapter = adapters.get(id as RetailerId);
+  if (!adapter) return requestUrl;
+
+  const pathAndQuery = rest.slice(id.length);
+  return `${adapter.origin}${pathAndQuery.startsWith('/') ? pathAndQuery : `/${pathAndQuery}`}`;
+}
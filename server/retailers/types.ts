@@ -0,0 +1,69 @@
+import type { RetailerId, RetailerWorkaroundSetting } from '@shared/retailers';
+
+// Contract every supported store implements. Scraping, SSRF checks, search and
+// scheduling only talk to retailers through this interface.
+
+export interface RetailerHeaderProfile {
+  referer: string;      // Referer for product page requests (looks like arriving from a search engine)
+  siteReferer: string;  // Referer for in-site navigation such as search result pages
+  extraHeaders?: Record<string, string>;
+}
+
+// CSS selectors tried in order; the first non-empty match wins
+export interface RetailerSelectors {
+  title: string[];
+  price: string[];
+  currency?: string[];
+  stockText: string[];     // free-form availability text, parsed with parseAvailability
+  outOfStock?: string[];   // any non-empty match means out of stock
+  lowStock?: string[];     // any non-empty match means low stock
+  inStock?: string[];      // presence of any match (e.g. an add-to-cart button) means in stock
+  seller: string[];
+  sellerText?: { selector: string; pattern: RegExp }; // fallback when the seller is only mentioned in prose
+}
+
+export interface RetailerSearchSelectors {
+  item: string;    // one element per search result
+  name: string;
+  link?: string;   // defaults to the name element's href
+  price: string;
+}
+
+// Product fields read from a page's embedded application state
+export interface EmbeddedProductFields {
+  name?: string;
+  price?: number;
+  currency?: string;
+  availabilityText?: string; // parsed with parseAvailability
+  seller?: string;
+}
+
+// Script element holding the page's JSON state (e.g. Walmart's __NEXT_DATA__) and how to read a product from it
+export interface RetailerEmbeddedState {
+  script: string;
+  extract(state: any): EmbeddedProductFields | null;
+}
+
+// What an adapter module declares for the retailer Id
+export interface RetailerAdapterDefinition<Id extends RetailerId = RetailerId> {
+  id: Id;
+  displayName: string;
+  origin: string;                   // base URL relative links are resolved against
+  hosts: string[];                  // hostnames product URLs may point at (SSRF allow-list)
+  defaultCheckInterval: number;     // minutes, also the default of the user's `${id}CheckInterval` setting
+  workaroundSetting?: RetailerWorkaroundSetting; // settings column switching the retailer's workarounds (cookie sessions) on
+  retryBaseDelayMs: number;         // minimum wait between scrape retries
+  firstPartySeller: RegExp;         // matches the seller name when the retailer sells the item itself
+  headers: RetailerHeaderProfile;
+  selectors: RetailerSelectors;
+  search: RetailerSearchSelectors;
+  embeddedState?: RetailerEmbeddedState;
+
+  matchesUrl(url: string): boolean;
+  // Retailer's own product id (ASIN, Walmart item id) or null when the URL has none
+  extractCanonicalId(url: string): string | null;
+  buildProductUrl(canonicalId: string): string;
+  buildSearchUrl(query: string): string;
+}
+
+export type RetailerAdapter = RetailerAdapterDefinition;
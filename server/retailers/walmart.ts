@@ -0,0 +1,102 @@
+import type { RetailerAdapterDefinition } from './types';
+
+const HOSTS = ['walmart.com', 'www.walmart.com'];
+
+export const walmartAdapter = {
+  id: 'walmart',
+  displayName: 'Walmart',
+  origin: 'https://www.walmart.com',
+  hosts: HOSTS,
+  defaultCheckInterval: 10,
+  workaroundSetting: 'enableWalmartWorkarounds',
+  retryBaseDelayMs: 3000, // Walmart needs longer delays
+  firstPartySeller: /^walmart(\.com)?\b/i,
+
+  headers: {
+    referer: 'https://www.google.com/',
+    siteReferer: 'https://www.walmart.com/'
+  },
+
+  selectors: {
+    title: [
+      '[data-automation-id="product-title"]',
+      'h1[data-testid="product-title"]',
+      '#main-title',
+      '.prod-ProductTitle',
+      '.f2',
+      'h1[data-cy="product-title"]',
+      'h1.normal.dark-gray.mb1.mr1.f2.f1-l',
+      'h1'
+    ],
+    // itemprop="price" usually carries a machine-readable content attribute
+    price: [
+      '[itemprop="price"]',
+      '[data-testid="price-wrap"] [aria-hidden="true"]',
+      'span[data-automation-id="buybox-price"]',
+      '.price-characteristic',
+      '.price-current'
+    ],
+    currency: ['[itemprop="priceCurrency"]'],
+    stockText: ['[itemprop="availability"]'],
+    // Walmart hides the add-to-cart button entirely when an item is out of stock
+    outOfStock: ['[data-testid="out-of-stock-message"]', '[data-automation-id="out-of-stock"]'],
+    lowStock: ['[data-testid="low-stock-message"]'],
+    inStock: ['[data-automation-id="atc"]', '[data-testid="add-to-cart-button"]', 'button[aria-label*="Add to cart" i]'],
+    seller: [
+      '[data-testid="product-seller-info"] a',
+      'a[data-testid="seller-name-link"]',
+      '.seller-name'
+    ],
+    sellerText: { selector: '[data-testid="product-seller-info"]', pattern: /sold (?:and shipped )?by ([^.]+)/i }
+  },
+
+  search: {
+    item: '[data-testid="item"], [data-automation-id="product-title"]',
+    name: '[data-automation-id="product-title"], a[href*="/ip/"]',
+    price: '[itemprop="price"], .price-current'
+  },
+
+  // Next.js page state; the product sits under props.pageProps.initialData.data.product
+  embeddedState: {
+    script: 'script#__NEXT_DATA__',
+    extract(state: any) {
+      const product = state?.props?.pageProps?.initialData?.data?.product;
+      if (!product || typeof product !== 'object') return null;
+
+      const currentPrice = product.priceInfo?.currentPrice;
+      const price = Number(currentPrice?.price);
+      return {
+        name: typeof product.name === 'string' ? product.name : undefined,
+        price: isFinite(price) && price > 0 ? price : undefined,
+        currency: currentPrice?.currencyUnit,
+        // IN_STOCK / OUT_OF_STOCK / LIMITED_STOCK
+        availabilityText: typeof product.availabilityStatus === 'string'
+          ? product.availabilityStatus.toLowerCase().replace(/_/g, ' ')
+          : undefined,
+        seller: product.sellerName ?? product.sellerDisplayName
+      };
+    }
+  },
+
+  matchesUrl(url: string): boolean {
+    try {
+      return HOSTS.includes(new URL(url).hostname);
+    } catch {
+      return false;
+    }
+  },
+
+  // Product URLs look like /ip/<slug>/<item id> or /ip/<item id>
+  extractCanonicalId(url: string): string | null {
+    const match = url.match(/\/ip\/(?:[^/?#]+\/)?(\d+)(?:[/?#]|$)/);
+    return match ? match[1] : null;
+  },
+
+  buildProductUrl(itemId: string): string {
+    return `https://www.walmart.com/ip/${itemId}`;
+  },
+
+  buildSearchUrl(query: string): string {
+    return `https://www.walmart.com/search?q=${encodeURIComponent(query)}`;
+  }
+} satisfies RetailerAdapterDefinition<'walmart'>;
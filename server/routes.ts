@@ -1,12 +1,11 @@
-import type { Express } from "express";
-import { getAntiBotLogger } from './antibot-logger';
+import type { Express, Request } from "express";
+import { getAntiBotLogger, logAntiBotEvent } from './antibot-logger';
+import { detectAntiBot } from './antibot-detector';
 import fs from 'fs/promises';
 import path from 'path';
 import { createServer, type Server } from "http";
 import axios from "axios";
-import * as cheerio from "cheerio";
-import nodemailer from "nodemailer";
-import { storage } from "./storage";
+import { storage, type MonitoredProductSchedule } from "./storage";
 import { 
   updateSettingsSchema, 
   users, 
@@ -24,6 +23,13 @@ import {
   switchPlanSchema,
   cancelSubscriptionSchema,
   updateBillingSchema,
+  insertProductSchema,
+  updateProductSchema,
+  productHistoryQuerySchema,
+  notificationQuerySchema,
+  type Product,
+  type Settings,
+  type ProductHistoryResponse,
   type SignupRequest,
   type LoginRequest,
   type AuthResponse,
@@ -33,25 +39,55 @@ import {
   type StartSubscriptionRequest,
   type SwitchPlanRequest,
   type CancelSubscriptionRequest,
-  type UpdateBillingRequest
+  type UpdateBillingRequest,
+  type AlertRules,
+  type InsertUserNotification,
+  type NotificationListResponse
 } from "@shared/schema";
 import { authService, requireAuth, requireAdmin, authorize, optionalAuth } from "./auth";
 import { logger, logError, logInfo, logWarn, getCombinedLogs } from "./logger";
 import { db } from "./db";
 import { or, ilike, inArray, count, eq, desc, and, gt, lt, isNull } from "drizzle-orm";
-// import { getWorkerPool, destroyWorkerPool } from "./worker-pool";
+import { getWorkerPool, destroyWorkerPool } from "./worker-pool";
 import { httpPool } from "./http-pool";
 import { performanceMonitor } from "./performance-monitor";
 import { setupAuthTestRoutes } from "./test-auth";
 import { setupAntiBotTestingRoutes } from "./antibot-testing-routes";
+import { entitlementService, type EntitlementCheck, type Entitlements } from "./entitlements";
+import { extractProductPage, extractSearchResults, isLowConfidence, LOW_CONFIDENCE_THRESHOLD, type ProductAvailability, type ProductDetails, type ProductScrapeResult, type SearchResultItem, type VotedField } from "./product-extractor";
+import { getRetailer, getRetailers, isAllowedProductUrl, getRetailerHostOverride, resolveRetailerRequestUrl } from "./retailers";
+import { RETAILER_IDS, type RetailerId } from "@shared/retailers";
+import type { DistributiveOmit, MonitoringEventInput } from "@shared/monitoring-events";
+import { solutionApplicationSchema, type AntiBotDetectionResult, type DetectionType, type SolutionSuggestionsResponse, type SolutionAutoApplyStatus } from "@shared/solution-types";
+import { monitoringEvents } from "./event-stream";
+import { alertRuleService } from "./alert-rules";
+import { notificationDispatcher, createMailTransport } from "./notification-dispatcher";
+import { solutionSuggestions } from "./solution-suggestions";
+import { selectorHealth } from "./selector-health";
+import { proxyPool, getHealthCheckTarget } from "./proxy-pool";
+import { proxyRequestOptions } from "./proxy-agents";
+import { cookieStore, cookiesEnabled } from "./cookie-store";
+import { buildFingerprintHeaders, DEFAULT_FINGERPRINT_FILTER, type FingerprintProfile } from "./fingerprint-profiles";
+import { fingerprintRotator, fingerprintFilter } from "./fingerprint-rotator";
+import type { CookieJar } from "./cookie-jar";
+import { CircuitBreaker, type CircuitTransition } from "./circuit-breaker";
+import { requestBudget, type RequestBudgetOptions, type RequestBudgetOwner, type RequestPriority } from "./request-budget";
+import { DEFAULT_WORKER_SOLUTION_CONFIG, calculateRequestDelay, getAcceptLanguage, type WorkerSolutionConfig } from "./worker-solution-config";
+import type { PlatformCircuitStatus } from "@shared/circuit-breaker";
 
 // Product monitoring scheduler
 interface MonitoredProduct {
   id: string;
+  userId: string;
   name: string;
   url: string; 
-  platform: "amazon" | "walmart";
+  platform: RetailerId;
   asin?: string;
+  // Alert preferences, evaluated after each check
+  notifyForStock: boolean;
+  notifyForPrice: boolean;
+  alertRules: AlertRules;
+  lastAlertedAt?: Date;
   interval: number; // in milliseconds
   timer?: NodeJS.Timeout;
 }
@@ -59,15 +95,33 @@ interface MonitoredProduct {
 interface ProductSchedulingState extends MonitoredProduct {
   backoffDelay: number; // Current backoff delay in ms
   consecutiveErrors: number; // Count of consecutive errors
+  // Latest observed product state from the last successful check
+  currentPrice?: number;
+  previousPrice?: number;
+  currency?: string;
+  status: ProductAvailability;
+  seller?: string;
+  lastChecked?: Date;
+  lastError?: string;
+  checkStartedAt?: Date; // start of the check in progress
+  nextRunAt?: Date; // when the waiting check is due; unset once it fires
 }
 
+// A low-confidence parse reached the page but isn't trusted as an observation;
+// a deferred check never left because the request budget turned it away
+type CheckOutcome = 'success' | 'low_confidence' | 'failed' | 'deferred';
+
+// Saved scheduling state and last observation a product is restored with after a restart
+type RestoredSchedulingState = Pick<ProductSchedulingState,
+  'interval' | 'backoffDelay' | 'consecutiveErrors' | 'currentPrice' | 'previousPrice' | 'currency' | 'status' | 'seller' | 'lastChecked'>;
+
 class ProductScheduler {
   private products = new Map<string, ProductSchedulingState>();
   private concurrencyLimit = 6; // Increased limit for worker thread pool
   private runningJobs = 0;
   private jobQueue: Array<{ productId: string; retryCount: number }> = []; // Queue for jobs when at concurrency limit
+  private circuits = new Map<RetailerId, CircuitBreaker>(); // Pause a platform's checks while it blocks them
   private cleanupInterval: NodeJS.Timeout;
-  // private workerPool = getWorkerPool();
 
   constructor() {
     // Initialize periodic cleanup to prevent memory leaks
@@ -100,17 +154,12 @@ class ProductScheduler {
     }
   }
 
-  // Add a product to monitoring schedule
-  startMonitoring(product: Omit<MonitoredProduct, 'interval' | 'timer'>): void {
-    // Set base interval based on platform
-    const baseInterval = product.platform === 'amazon' 
-      ? 15 * 60 * 1000  // 15 minutes for Amazon
-      : 1 * 60 * 1000;   // 1 minute for Walmart
-    
+  // Add a product to monitoring schedule; baseInterval comes from the owner's plan and settings
+  startMonitoring(product: Omit<MonitoredProduct, 'interval' | 'timer'>, baseInterval: number): void {
     console.log(`Starting monitoring for ${product.platform} product: ${product.name} (base interval: ${baseInterval/1000}s)`);
     
     // Stop existing monitoring if any
-    this.stopMonitoring(product.id);
+    this.unschedule(product.id);
     
     // Create monitored product with scheduling state
     const monitoredProduct: ProductSchedulingState = {
@@ -118,6 +167,7 @@ class ProductScheduler {
       interval: baseInterval,
       backoffDelay: baseInterval, // Start with base interval
       consecutiveErrors: 0,
+      status: 'unknown',
       timer: undefined
     };
     
@@ -128,8 +178,28 @@ class ProductScheduler {
     this.scheduleNextRun(product.id, 1000); // Initial delay of 1 second
   }
 
+  // Resume a product after a restart from its saved schedule; delay staggers the first check
+  restoreMonitoring(product: Omit<MonitoredProduct, 'interval' | 'timer'>, state: RestoredSchedulingState, delay: number): void {
+    this.unschedule(product.id);
+
+    this.products.set(product.id, { ...product, ...state, timer: undefined });
+    this.scheduleNextRun(product.id, delay);
+  }
+
   // Remove a product from monitoring
   stopMonitoring(productId: string): void {
+    const product = this.products.get(productId);
+    if (product) {
+      proxyPool.releaseProduct(product.userId, productId);
+    }
+    this.unschedule(productId);
+    storage.deleteProductSchedule(productId).catch(error => {
+      console.error(`[Scheduler] Failed to delete saved schedule for ${productId}:`, error);
+    });
+  }
+
+  // Drop the in-memory schedule only; the saved schedule stays for the next start
+  private unschedule(productId: string): void {
     const product = this.products.get(productId);
     if (product) {
       console.log(`Stopping monitoring for product: ${product.name}`);
@@ -143,6 +213,35 @@ class ProductScheduler {
     }
   }
 
+  // Ids of the user's products being monitored
+  getUserProductIds(userId: string): string[] {
+    return Array.from(this.products.values()).filter(product => product.userId === userId).map(product => product.id);
+  }
+
+  // Move a monitored product to a new base interval after its owner's settings or plan changed.
+  // A waiting check due later than the new delay is brought forward; a running one picks the
+  // interval up when it finishes.
+  updateInterval(productId: string, interval: number): void {
+    const product = this.products.get(productId);
+    if (!product || product.interval === interval) return;
+
+    console.log(`[Scheduler] Interval for ${product.name} changed from ${product.interval/1000}s to ${interval/1000}s`);
+    product.interval = interval;
+    product.backoffDelay = this.backoffFor(interval, product.consecutiveErrors);
+    if (product.nextRunAt && product.nextRunAt.getTime() - Date.now() > product.backoffDelay) {
+      clearTimeout(product.timer);
+      this.scheduleNextRun(productId);
+    }
+  }
+
+  // Apply edited notification toggles/alert rules without restarting the schedule
+  updateAlertPreferences(productId: string, preferences: Pick<MonitoredProduct, 'notifyForStock' | 'notifyForPrice' | 'alertRules'>): void {
+    const product = this.products.get(productId);
+    if (product) {
+      Object.assign(product, preferences);
+    }
+  }
+
   // Schedule next run with proper backoff and jitter
   private scheduleNextRun(productId: string, delay?: number): void {
     const product = this.products.get(productId);
@@ -150,9 +249,20 @@ class ProductScheduler {
 
     const actualDelay = delay || this.calculateDelay(product);
     
+    product.nextRunAt = new Date(Date.now() + actualDelay);
     product.timer = setTimeout(() => {
+      product.nextRunAt = undefined;
       this.executeScrapingJob(productId);
     }, actualDelay);
+
+    storage.saveProductSchedule(productId, {
+      interval: product.interval,
+      backoffDelay: product.backoffDelay,
+      consecutiveErrors: product.consecutiveErrors,
+      nextRunAt: product.nextRunAt
+    }).catch(error => {
+      console.error(`[Scheduler] Failed to save schedule for ${productId}:`, error);
+    });
   }
 
   // Calculate delay with jitter and backoff
@@ -187,37 +297,79 @@ class ProductScheduler {
       return;
     }
 
+    // The platform is blocking checks: hold this one back without counting it as a failure
+    const circuit = this.circuit(product.platform);
+    const admission = circuit.admit();
+    if (admission === 'wait') {
+      const delay = circuit.retryDelay() + Math.random() * 30 * 1000;
+      console.log(`[Scheduler] ${product.platform} checks paused, holding ${product.name} for ${Math.round(delay/1000)}s`);
+      this.scheduleNextRun(productId, delay);
+      return;
+    }
+
     this.runningJobs++;
-    let success = false;
+    let outcome: CheckOutcome = 'failed';
+    // null until a check reaches the retailer
+    let blocked: boolean | null = null;
+    product.checkStartedAt = new Date();
     
     try {
       console.log(`[Scheduler] Scraping ${product.platform} product: ${product.name}`);
       
       // CRITICAL: Use worker pool for CPU-intensive scraping with SSRF protection
       // This offloads parsing to worker threads and validates hostnames
-      const scrapedName = await this.scrapeProductWithWorker(product.url, product.platform);
+      const result = await this.scrapeProduct(product);
+      // The anti-bot rules engine's verdict on the page, from a worker or the main thread
+      if (result.antiBot) {
+        blocked = result.antiBot.isBlocked;
+      } else if (result.responseCode !== undefined) {
+        blocked = false;
+      }
+
+      if (result.rateLimited) {
+        outcome = 'deferred';
+        console.log(`[Scheduler] Deferred check for ${product.name}: ${result.error}`);
+        return;
+      }
       
       // Check if scraping was successful
-      if (!scrapedName.includes("Could Not Be Retrieved") && !scrapedName.includes("blocked") && !scrapedName.includes("Invalid URL")) {
-        success = true;
-        
-        // Log results (in real app, this would update database, send notifications, etc.)
-        if (scrapedName !== product.name) {
-          console.log(`[Scheduler] Product name changed: "${product.name}" -> "${scrapedName}"`);
-        }
-        
+      if (result.success && result.details && isLowConfidence(result.details)) {
+        outcome = 'low_confidence';
+        this.reportLowConfidence(product, result.details);
+      } else if (result.success && result.details) {
+        outcome = 'success';
+        this.applyScrapeResult(product, result.details);
         console.log(`[Scheduler] Completed monitoring check for: ${product.name}`);
       } else {
-        console.log(`[Scheduler] Scraping failed for ${product.name}: ${scrapedName}`);
+        product.lastError = result.error;
+        console.log(`[Scheduler] Scraping failed for ${product.name}: ${result.error}`);
       }
+
+      if (result.antiBot) {
+        this.publishEvent(product, {
+          type: 'antibot_detected',
+          detectionType: result.antiBot.detectionType,
+          confidence: result.antiBot.confidence
+        });
+      }
+      
+      this.recordHistory(product, result, outcome);
+      selectorHealth.recordCheck(product.platform, {
+        responseCode: result.responseCode,
+        blocked: !!result.antiBot,
+        outcome,
+        trace: result.extraction
+      });
       
     } catch (error) {
       console.error(`[Scheduler] Error scraping product ${productId}:`, error);
+      product.lastError = error instanceof Error ? error.message : 'Unknown error';
     } finally {
       this.runningJobs--;
+      this.recordCircuitCheck(circuit, blocked, admission === 'probe');
       
       // Update scheduling state and schedule next run
-      this.updateProductScheduling(productId, success);
+      this.updateProductScheduling(productId, outcome);
       
       // Process queue if there are waiting jobs
       if (this.jobQueue.length > 0) {
@@ -226,32 +378,237 @@ class ProductScheduler {
     }
   }
 
+  // Record the latest price/stock observation on the scheduler state
+  private applyScrapeResult(product: ProductSchedulingState, details: ProductDetails): void {
+    // Log results (in real app, this would update database, send notifications, etc.)
+    if (details.name !== product.name) {
+      console.log(`[Scheduler] Product name changed: "${product.name}" -> "${details.name}"`);
+    }
+
+    // Alert rules look at the current seller, so record it before publishing events
+    product.currency = details.currency ?? product.currency;
+    product.seller = details.seller ?? product.seller;
+
+    if (details.price !== undefined && details.price !== product.currentPrice) {
+      if (product.currentPrice !== undefined) {
+        console.log(`[Scheduler] Price changed for ${product.name}: ${product.currentPrice} -> ${details.price} ${details.currency ?? ''}`);
+      }
+      if (product.currentPrice !== undefined && details.price < product.currentPrice) {
+        const savings = product.currentPrice - details.price;
+        this.publishEvent(product, {
+          type: 'price_drop',
+          currentPrice: details.price,
+          previousPrice: product.currentPrice,
+          currency: product.currency,
+          savings: Math.round(savings * 100) / 100,
+          discountPercent: Math.round((savings / product.currentPrice) * 100)
+        });
+      }
+      product.previousPrice = product.currentPrice;
+      product.currentPrice = details.price;
+    }
+
+    if (details.availability !== 'unknown' && details.availability !== product.status) {
+      console.log(`[Scheduler] Stock status changed for ${product.name}: ${product.status} -> ${details.availability}`);
+      // The first observation isn't a change the user needs to hear about
+      if (product.status !== 'unknown') {
+        this.publishEvent(product, {
+          type: 'stock_change',
+          previousStatus: product.status,
+          status: details.availability,
+          inStock: details.availability === 'in-stock' || details.availability === 'low-stock'
+        });
+      }
+      product.status = details.availability;
+    }
+
+    product.lastChecked = new Date();
+    product.lastError = undefined;
+
+    // Persist the observation on the stored product row
+    storage.updateProductObservation(product.id, {
+      currentPrice: product.currentPrice,
+      previousPrice: product.previousPrice,
+      currency: product.currency,
+      status: product.status,
+      seller: product.seller,
+      lastChecked: product.lastChecked
+    }).catch(error => {
+      console.error(`[Scheduler] Failed to persist observation for ${product.id}:`, error);
+    });
+  }
+
+  // Push a monitoring event to the product owner's open event streams.
+  // Price drops and restocks go through the product's alert rules; alerts are
+  // stored first so clients can sync their read state.
+  private publishEvent(product: ProductSchedulingState, event: DistributiveOmit<MonitoringEventInput, 'productId' | 'productName' | 'platform' | 'productUrl'>): void {
+    const input = {
+      ...event,
+      productId: product.id,
+      productName: product.name,
+      platform: product.platform,
+      productUrl: product.url
+    } as MonitoringEventInput;
+
+    const notification = toNotificationRecord(product.userId, input);
+    if (!notification) {
+      monitoringEvents.publish(product.userId, input);
+      return;
+    }
+
+    alertRuleService.evaluate({ ...product }, input)
+      .then(async decision => {
+        if (!decision.alert) {
+          console.log(`[Scheduler] Alert suppressed for ${product.name}: ${decision.reason}`);
+          monitoringEvents.publish(product.userId, { ...input, alert: false } as MonitoringEventInput);
+          return;
+        }
+
+        product.lastAlertedAt = new Date();
+        storage.recordProductAlert(product.id, product.lastAlertedAt).catch(error => {
+          console.error(`[Scheduler] Failed to record alert time for ${product.id}:`, error);
+        });
+
+        const record = await storage.createNotification(notification);
+        monitoringEvents.publish(product.userId, { ...input, alert: true, notificationId: record.id } as MonitoringEventInput);
+        notificationDispatcher.enqueue(record);
+      })
+      .catch(error => {
+        console.error(`[Scheduler] Failed to store notification for ${product.id}:`, error);
+        monitoringEvents.publish(product.userId, input);
+      });
+  }
+
+  // Keep the last trusted observation and tell the owner the page no longer parses cleanly
+  private reportLowConfidence(product: ProductSchedulingState, details: ProductDetails): void {
+    const confidence = details.confidence!;
+    const uncertainFields = (Object.keys(confidence.fields) as VotedField[])
+      .filter(field => confidence.fields[field]!.score < LOW_CONFIDENCE_THRESHOLD);
+
+    product.lastError = `Low-confidence parse (${Math.round(confidence.overall * 100)}%): ${uncertainFields.join(', ')} uncertain`;
+    console.log(`[Scheduler] ${product.lastError} for ${product.name}, parsed "${details.name}"`);
+
+    this.publishEvent(product, {
+      type: 'low_confidence_parse',
+      confidence: confidence.overall,
+      uncertainFields,
+      parsedName: details.name,
+      parsedPrice: details.price
+    });
+  }
+
+  // Append this check to the product's price/stock history
+  private recordHistory(product: ProductSchedulingState, result: ProductScrapeResult, outcome: CheckOutcome): void {
+    const details = outcome === 'success' ? result.details : undefined;
+    storage.addPriceHistory({
+      productId: product.id,
+      price: details?.price !== undefined ? details.price.toFixed(2) : null,
+      currency: details?.currency ?? null,
+      status: details?.availability ?? 'unknown',
+      seller: details?.seller ?? null,
+      success: !!details,
+      errorMessage: details ? null : outcome === 'low_confidence' ? (product.lastError ?? null) : (result.error ?? null)
+    }).catch(error => {
+      console.error(`[Scheduler] Failed to record history for ${product.id}:`, error);
+    });
+  }
+
   // Update product scheduling state based on success/failure
-  private updateProductScheduling(productId: string, success: boolean): void {
+  private updateProductScheduling(productId: string, outcome: CheckOutcome): void {
     const product = this.products.get(productId);
     if (!product) return;
 
-    if (success) {
+    if (outcome === 'deferred') {
+      // Nothing reached the retailer, so this says nothing about the product; try again at the current delay
+      console.log(`[Scheduler] Retrying ${product.name} in ${Math.round(product.backoffDelay/1000)}s`);
+    } else if (outcome === 'low_confidence') {
+      // The retailer answered, so backing off won't help; keep the current delay until a clean parse
+      console.log(`[Scheduler] Keeping backoff for ${product.name} after a low-confidence parse, next check in ${Math.round(product.backoffDelay/1000)}s`);
+    } else if (outcome === 'success') {
       // Reset backoff on success
       product.backoffDelay = product.interval;
       product.consecutiveErrors = 0;
       console.log(`[Scheduler] Reset backoff for ${product.name}, next check in ${Math.round(product.backoffDelay/1000)}s`);
     } else {
-      // Increase backoff on failure - correct calculation: baseInterval * 2^min(consecutiveErrors, 4)
+      // Increase backoff on failure
       product.consecutiveErrors++;
       const exponentialBackoff = Math.pow(2, Math.min(product.consecutiveErrors, 4));
-      product.backoffDelay = Math.min(
-        product.interval * exponentialBackoff, // baseInterval * 2^n, not compounding the already inflated delay
-        5 * 60 * 1000 // Max 5 minutes
-      );
+      product.backoffDelay = this.backoffFor(product.interval, product.consecutiveErrors);
       console.log(`[Scheduler] Increased backoff for ${product.name} (error #${product.consecutiveErrors}, multiplier: ${exponentialBackoff}), next check in ${Math.round(product.backoffDelay/1000)}s`);
+
+      this.publishEvent(product, {
+        type: 'check_failed',
+        error: product.lastError ?? 'Product Name Could Not Be Retrieved',
+        consecutiveErrors: product.consecutiveErrors
+      });
     }
 
     // Schedule next run
     this.scheduleNextRun(productId);
   }
 
+  // Delay after consecutive errors - correct calculation: baseInterval * 2^min(consecutiveErrors, 4)
+  private backoffFor(interval: number, consecutiveErrors: number): number {
+    if (consecutiveErrors === 0) return interval;
+    return Math.min(
+      interval * Math.pow(2, Math.min(consecutiveErrors, 4)), // baseInterval * 2^n, not compounding the already inflated delay
+      Math.max(5 * 60 * 1000, interval * 4) // Max 5 minutes, or 4x base for plan intervals longer than that
+    );
+  }
+
+  private circuit(platform: RetailerId): CircuitBreaker {
+    let circuit = this.circuits.get(platform);
+    if (!circuit) {
+      circuit = new CircuitBreaker(platform);
+      this.circuits.set(platform, circuit);
+    }
+    return circuit;
+  }
+
+  // Feed a check into its platform's circuit and tell owners when their checks pause or resume
+  private recordCircuitCheck(circuit: CircuitBreaker, blocked: boolean | null, probe: boolean): void {
+    const transition = circuit.record(blocked, probe);
+    // A blocked probe only extends a pause users were already told about
+    if (transition && (transition.from === 'closed' || transition.to === 'closed')) {
+      this.publishCircuitChange(transition, circuit.getStatus());
+    }
+  }
+
+  private publishCircuitChange(transition: CircuitTransition, status: PlatformCircuitStatus): void {
+    const productsByUser = new Map<string, number>();
+    this.products.forEach(product => {
+      if (product.platform === transition.platform) {
+        productsByUser.set(product.userId, (productsByUser.get(product.userId) ?? 0) + 1);
+      }
+    });
+
+    productsByUser.forEach((products, userId) => {
+      monitoringEvents.publish(userId, {
+        type: 'circuit_breaker',
+        platform: transition.platform,
+        state: transition.to,
+        previousState: transition.from,
+        blockRate: status.blockRate,
+        retryAt: status.retryAt,
+        products
+      });
+    });
+  }
+
   // Process queued jobs
+  // A check waiting for a request budget token hands its concurrency slot to queued products
+  // meanwhile. It takes the slot back when the wait ends, even past the limit for a moment:
+  // its request is ready to go.
+  private releaseSlotWhileWaiting = (): (() => void) => {
+    this.runningJobs--;
+    if (this.jobQueue.length > 0) {
+      setTimeout(() => this.processQueue(), 0);
+    }
+    return () => {
+      this.runningJobs++;
+    };
+  };
+
   private processQueue(): void {
     while (this.jobQueue.length > 0 && this.runningJobs < this.concurrencyLimit) {
       const job = this.jobQueue.shift();
@@ -263,45 +620,146 @@ class ProductScheduler {
   }
 
   // Get monitoring status
-  getMonitoringStatus(): Array<{id: string, name: string, platform: string, interval: number}> {
+  getMonitoringStatus(): Array<{
+    id: string,
+    name: string,
+    platform: string,
+    interval: number,
+    currentPrice?: number,
+    previousPrice?: number,
+    currency?: string,
+    status: ProductAvailability,
+    seller?: string,
+    lastChecked?: Date,
+    lastError?: string
+  }> {
     return Array.from(this.products.values()).map(p => ({
       id: p.id,
       name: p.name, 
       platform: p.platform,
-      interval: Math.round(p.interval / 1000) // Convert to seconds
+      interval: Math.round(p.interval / 1000), // Convert to seconds
+      currentPrice: p.currentPrice,
+      previousPrice: p.previousPrice,
+      currency: p.currency,
+      status: p.status,
+      seller: p.seller,
+      lastChecked: p.lastChecked,
+      lastError: p.lastError
     }));
   }
 
-  // Optimized scraping with SSRF protection (temporarily using main thread)
-  private async scrapeProductWithWorker(url: string, platform: "amazon" | "walmart"): Promise<string> {
-    // Validate URL to prevent SSRF attacks
-    try {
-      const urlObj = new URL(url);
-      const allowedHosts = ['amazon.com', 'www.amazon.com', 'walmart.com', 'www.walmart.com'];
-      
-      if (!allowedHosts.includes(urlObj.hostname)) {
-        throw new Error(`Invalid hostname: ${urlObj.hostname}`);
-      }
-    } catch (error) {
-      console.error('Invalid URL:', url, error);
-      return "Invalid URL provided";
+  // Circuit state of every platform, including ones without checks yet
+  getCircuitStatus(): PlatformCircuitStatus[] {
+    return getRetailers().map(adapter => this.circuit(adapter.id).getStatus());
+  }
+
+  // Scrape a product for its scheduled check as one of the browser profiles the owner's settings allow,
+  // through their proxy pool when proxy rotation is on and with the cookie session for that proxy
+  // when cookie management is on
+  private async scrapeProduct(product: ProductSchedulingState): Promise<ProductScrapeResult> {
+    const userSettings = await storage.getSettingsOrDefaults(product.userId);
+    const proxy = userSettings.enableProxyRotation
+      ? proxyPool.acquire(product.userId, userSettings.proxyRotationUrls, product.id, product.platform)
+      : null;
+    if (userSettings.enableProxyRotation && !proxy) {
+      console.warn(`[Scheduler] No usable proxy for ${product.name}, checking it directly`);
+    }
+
+    // Solutions applied for the owner, in effect on either path
+    const solutionConfig = solutionSuggestions.getWorkerConfig(product.userId) ?? {};
+    const filter = fingerprintFilter(userSettings, solutionConfig);
+    const cookieSession = cookiesEnabled(userSettings, product.platform)
+      ? cookieStore.getSession(product.userId, product.platform, proxy?.id ?? null, filter)
+      : undefined;
+    // A cookie session keeps the profile its cookies were set for
+    const profile = cookieSession?.profile ?? fingerprintRotator.pick(filter, product.platform);
+
+    const result = await this.scrapeProductWithWorker(product, userSettings, {
+      proxyUrl: proxy?.url,
+      profile,
+      cookies: cookieSession?.jar,
+      solutionConfig,
+      budget: { owner: budgetOwner(userSettings), onWait: this.releaseSlotWhileWaiting }
+    });
+
+    this.recordSolutionOutcome(product, result);
+
+    // Only checks that reached the retailer say anything about the profile
+    if (result.antiBot || result.responseCode !== undefined) {
+      fingerprintRotator.recordCheck(profile.id, product.platform, !!result.antiBot);
+    }
+
+    // A check the request budget turned away never used the proxy
+    if (proxy && !result.rateLimited) {
+      // Pages that came back, even unparseable ones, show the proxy itself works
+      const outcome = result.antiBot ? 'blocked' : result.responseCode !== undefined ? 'success' : 'failed';
+      proxyPool.recordResult(product.userId, proxy.id, product.platform, outcome, result.responseTime ?? result.antiBot?.responseTime);
+    }
+    return result;
+  }
+
+  // Feed a check's outcome, from a worker or the main thread, to the owner's solution suggestions:
+  // blocks produce suggestions, and every check measures the solution being evaluated for them
+  private recordSolutionOutcome(product: ProductSchedulingState, result: ProductScrapeResult): void {
+    // A check the request budget turned away never reached the retailer
+    if (result.rateLimited) return;
+
+    solutionSuggestions.recordCheck(product.userId, product.platform, !!result.antiBot, result.antiBot?.responseTime);
+    if (result.antiBot) {
+      solutionSuggestions.recordDetection(product.userId, result.antiBot, product.id).catch(error => {
+        console.error(`[Scheduler] Failed to generate solution suggestions for ${product.id}:`, error);
+      });
+    }
+  }
+
+  // Scrape in the worker pool when the owner enabled worker threads and the pool is healthy,
+  // otherwise (or when the pool fails) fall back to main thread scraping
+  private async scrapeProductWithWorker(product: ProductSchedulingState, userSettings: Settings, session: ScrapeSession): Promise<ProductScrapeResult> {
+    const { url, platform } = product;
+
+    // Never hand an unvalidated URL to a worker
+    if (!userSettings.enableWorkerThreads || !isAllowedProductUrl(url, platform)) {
+      return scrapeProductDetails(url, platform, session);
+    }
+
+    const pool = getWorkerPool();
+    if (!pool.isHealthy()) {
+      console.warn(`[Scheduler] Worker pool unhealthy, scraping ${product.name} on main thread`);
+      pool.recordMainThreadFallback();
+      return scrapeProductDetails(url, platform, session);
     }
 
     try {
-      // Temporarily use optimized main thread scraping until worker threads are stable
-      return await scrapeProductName(url, platform);
+      const result = await pool.runTask(url, platform, 3, undefined, undefined, {
+        proxyUrl: session.proxyUrl,
+        cookies: session.cookies?.toJSON(),
+        profileId: session.profile?.id,
+        solutionConfig: session.solutionConfig
+      }, session.budget);
+      session.cookies?.setCookies(result.setCookies, url);
+      const antiBot = result.antiBot?.isBlocked ? result.antiBot as AntiBotDetectionResult : undefined;
+      const page = {
+        extraction: result.extraction,
+        responseCode: result.requestStats?.responseCode,
+        responseTime: result.requestStats?.responseTime
+      };
+      if (result.success && result.details) {
+        return { success: true, details: result.details, antiBot, ...page };
+      }
+      return { success: false, error: result.error || "Product Name Could Not Be Retrieved", antiBot, rateLimited: result.rateLimited, ...page };
     } catch (error) {
-      console.error('Optimized scraping failed:', error);
-      return "Product Name Could Not Be Retrieved";
+      console.warn(`[Scheduler] Worker scrape failed for ${product.name}, falling back to main thread:`, error);
+      pool.recordMainThreadFallback();
+      return scrapeProductDetails(url, platform, session);
     }
   }
 
-  // Stop all monitoring (cleanup)
+  // Stop all monitoring (cleanup); saved schedules are kept so the next start resumes them
   stopAll(): void {
     console.log('Stopping all product monitoring...');
     const productIds = Array.from(this.products.keys());
     for (const productId of productIds) {
-      this.stopMonitoring(productId);
+      this.unschedule(productId);
     }
     
     // Clear cleanup interval
@@ -994,41 +1452,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const user = (req as any).user;
       
-      // Check user authorization status
-      const authResult = await authService.checkUserAuthorization(user.id);
-      
-      // Get subscription info for plan details
-      const subscription = await storage.getUserSubscription(user.id);
-      const subscriptionPlans = await storage.getSubscriptionPlans();
-      
-      // Determine plan tier and item limit
-      let planTier = 'free';
-      let itemLimit = 5; // Default free tier limit
-      
-      if (authResult.authorized) {
-        if (authResult.accessType === 'beta') {
-          planTier = 'beta';
-          itemLimit = 500; // Beta users get high tier access
-        } else if (subscription && subscription.planId) {
-          const plan = subscriptionPlans.find(p => p.id === subscription.planId);
-          if (plan) {
-            // Extract features from plan
-            const features = plan.features as any;
-            
-            // Derive tier from itemLimit for deterministic behavior - map to valid PlanTier values
-            planTier = features?.itemLimit >= 50 ? 'pro' : 'free';
-            itemLimit = features?.itemLimit || 5;
-          }
-        }
-      }
+      const entitlements = await entitlementService.getEntitlements(user.id);
+      const itemCount = (await storage.getProducts(user.id)).length;
       
       res.json({
-        authorized: authResult.authorized,
-        accessType: authResult.accessType || null,
-        planTier,
-        itemLimit,
-        status: authResult.authorized ? 'active' : 'restricted',
-        reason: authResult.reason
+        authorized: entitlements.authorized,
+        accessType: entitlements.accessType,
+        planTier: entitlements.planTier,
+        itemLimit: entitlements.itemLimit,
+        itemCount,
+        checkInterval: entitlements.checkInterval,
+        status: entitlements.status,
+        reason: entitlements.reason
       });
       
     } catch (error) {
@@ -1042,7 +1477,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ======================
 
   // API route to scrape product names from URLs
-  app.post("/api/scrape-product", async (req, res) => {
+  app.post("/api/scrape-product", optionalAuth, async (req, res) => {
     try {
       const { url, platform } = req.body;
       
@@ -1051,7 +1486,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Use optimized HTTP connection pool for scraping
-      const productName = await scrapeProductName(url, platform);
+      const productName = await scrapeProductName(url, platform, await requestBudgetOwner(req));
       res.json({ name: productName });
       
     } catch (error) {
@@ -1061,7 +1496,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // API route to search products by ASIN or product name
-  app.post("/api/search-product", async (req, res) => {
+  app.post("/api/search-product", optionalAuth, async (req, res) => {
     try {
       const { query, platform, type } = req.body;
       
@@ -1070,22 +1505,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Validate platform parameter
-      const validPlatforms = ['amazon', 'walmart', 'both'];
+      const validPlatforms: string[] = [...RETAILER_IDS, 'both'];
       if (platform && !validPlatforms.includes(platform)) {
-        return res.status(400).json({ error: "Platform must be amazon, walmart, or both" });
+        return res.status(400).json({ error: `Platform must be ${RETAILER_IDS.join(', ')}, or both` });
       }
       
       // Default to searching both platforms for name searches
       const searchPlatform = platform || 'both';
       
       let searchResult;
+      const owner = await requestBudgetOwner(req);
       
       if (type === 'asin') {
         // ASIN searches are Amazon-only, but return unified format
-        searchResult = await searchByASINWithWorker(query);
+        searchResult = await searchByASINWithWorker(query, owner);
       } else {
         // Product name searches support multi-platform
-        searchResult = await searchByProductName(query, searchPlatform);
+        searchResult = await searchByProductName(query, searchPlatform, owner);
       }
       
       res.json(searchResult);
@@ -1096,32 +1532,316 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List the authenticated user's monitored products
+  app.get("/api/products", requireAuth, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const userProducts = await storage.getProducts(user.id);
+      res.json(userProducts.map(serializeProduct));
+      
+    } catch (error) {
+      logger.error('Get products error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Add a product and start monitoring it
+  app.post("/api/products", requireAuth, async (req, res) => {
+    try {
+      const validationResult = insertProductSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: validationResult.error.format()
+        });
+      }
+
+      const user = (req as any).user;
+      const productData = validationResult.data;
+
+      if (!isAllowedProductUrl(productData.url, productData.platform)) {
+        return res.status(400).json({ error: `URL must be a ${productData.platform}.com product page` });
+      }
+
+      const existing = await storage.getProducts(user.id);
+      if (existing.some(p => p.url === productData.url)) {
+        return res.status(409).json({ error: 'Product is already being tracked' });
+      }
+
+      // Enforce the plan's item limit
+      const check = await entitlementService.checkCanAddProduct(user.id);
+      if (!check.allowed) {
+        return res.status(check.denial.status).json(check.denial.body);
+      }
+
+      const product = await storage.createProduct(user.id, productData);
+      await scheduleProduct(product);
+
+      logInfo('Product added', { userId: user.id, productId: product.id, platform: product.platform });
+      res.status(201).json(serializeProduct(product));
+      
+    } catch (error) {
+      // A concurrent add of the same URL got past the check above
+      if (isDuplicateProductError(error)) {
+        return res.status(409).json({ error: 'Product is already being tracked' });
+      }
+      logger.error('Create product error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Update product details, notification preferences or monitoring state
+  app.patch("/api/products/:id", requireAuth, async (req, res) => {
+    try {
+      const validationResult = updateProductSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: validationResult.error.format()
+        });
+      }
+
+      const user = (req as any).user;
+      const existing = await storage.getProduct(user.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+
+      const updates = validationResult.data;
+      const platform = updates.platform ?? (existing.platform as RetailerId);
+      const url = updates.url ?? existing.url;
+      if ((updates.url || updates.platform) && !isAllowedProductUrl(url, platform)) {
+        return res.status(400).json({ error: `URL must be a ${getRetailer(platform).displayName} product page` });
+      }
+
+      // Resuming monitoring is gated like /api/start-monitoring
+      let entitlements: Entitlements | undefined;
+      if (updates.isMonitoring && !existing.isMonitoring) {
+        const check = await entitlementService.checkCanMonitor(user.id);
+        if (!check.allowed) {
+          return res.status(check.denial.status).json(check.denial.body);
+        }
+        entitlements = check.entitlements;
+      }
+
+      const product = await storage.updateProduct(user.id, existing.id, updates);
+      if (!product) {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+
+      // Restart so the scheduler picks up URL/platform changes, or stop if paused
+      if (product.isMonitoring) {
+        if (updates.url || updates.platform || updates.name || !existing.isMonitoring) {
+          await scheduleProduct(product, entitlements);
+        } else {
+          productScheduler.updateAlertPreferences(product.id, {
+            notifyForStock: product.notifyForStock,
+            notifyForPrice: product.notifyForPrice,
+            alertRules: product.alertRules
+          });
+        }
+      } else {
+        productScheduler.stopMonitoring(product.id);
+      }
+
+      res.json(serializeProduct(product));
+      
+    } catch (error) {
+      // Changed to the URL of another of the user's products
+      if (isDuplicateProductError(error)) {
+        return res.status(409).json({ error: 'Product is already being tracked' });
+      }
+      logger.error('Update product error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Price/stock history with hourly or daily min/max/avg aggregation
+  app.get("/api/products/:id/history", requireAuth, async (req, res) => {
+    try {
+      const validationResult = productHistoryQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: validationResult.error.format()
+        });
+      }
+
+      const user = (req as any).user;
+      const product = await storage.getProduct(user.id, req.params.id);
+      if (!product) {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+
+      const to = validationResult.data.to ?? new Date();
+      const from = validationResult.data.from ?? new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+      if (from > to) {
+        return res.status(400).json({ error: '"from" must be before "to"' });
+      }
+
+      // Default to hourly buckets for short ranges, daily otherwise
+      const bucket = validationResult.data.bucket
+        ?? (to.getTime() - from.getTime() <= 2 * 24 * 60 * 60 * 1000 ? 'hour' : 'day');
+
+      const [buckets, entries] = await Promise.all([
+        storage.getPriceHistoryBuckets(product.id, from, to, bucket),
+        storage.getPriceHistory(product.id, from, to)
+      ]);
+
+      const response: ProductHistoryResponse = {
+        productId: product.id,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        bucket,
+        buckets,
+        entries: entries.map(entry => ({
+          id: entry.id,
+          timestamp: entry.checkedAt,
+          price: entry.price !== null ? parseFloat(entry.price) : null,
+          currency: entry.currency,
+          status: entry.status,
+          success: entry.success,
+          errorMessage: entry.errorMessage
+        }))
+      };
+
+      res.json(response);
+      
+    } catch (error) {
+      logger.error('Get product history error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Delete a product and stop monitoring it
+  app.delete("/api/products/:id", requireAuth, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const deleted = await storage.deleteProduct(user.id, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+
+      productScheduler.stopMonitoring(req.params.id);
+      res.json({ success: true });
+      
+    } catch (error) {
+      logger.error('Delete product error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Notification history, newest first, with read state shared across the user's devices
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const validationResult = notificationQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: validationResult.error.format()
+        });
+      }
+
+      const query = validationResult.data;
+      if (query.from && query.to && query.from > query.to) {
+        return res.status(400).json({ error: '"from" must be before "to"' });
+      }
+
+      const user = (req as any).user;
+      const [{ notifications, total }, unreadCount] = await Promise.all([
+        storage.getNotifications(user.id, query),
+        storage.getUnreadNotificationCount(user.id)
+      ]);
+
+      const response: NotificationListResponse = {
+        notifications,
+        total,
+        unreadCount,
+        page: query.page,
+        limit: query.limit
+      };
+
+      res.json(response);
+      
+    } catch (error) {
+      logger.error('Get notifications error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.put("/api/notifications/read-all", requireAuth, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const updated = await storage.markAllNotificationsRead(user.id);
+      res.json({ success: true, updated });
+      
+    } catch (error) {
+      logger.error('Mark all notifications read error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Recent alert emails with their delivery status
+  app.get("/api/notifications/email-deliveries", requireAuth, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const deliveries = await storage.getEmailDeliveries(user.id);
+      // Rendered bodies stay server-side
+      res.json(deliveries.map(({ html, text, ...delivery }) => delivery));
+      
+    } catch (error) {
+      logger.error('Get email deliveries error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.put("/api/notifications/:id/read", requireAuth, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const notification = await storage.markNotificationRead(user.id, req.params.id);
+      if (!notification) {
+        return res.status(404).json({ error: 'Notification not found' });
+      }
+
+      res.json(notification);
+      
+    } catch (error) {
+      logger.error('Mark notification read error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   // API route to start monitoring a product
-  app.post("/api/start-monitoring", async (req, res) => {
+  app.post("/api/start-monitoring", requireAuth, async (req, res) => {
     try {
-      const { id, name, url, platform, asin } = req.body;
+      const user = (req as any).user;
+      const { id } = req.body;
       
-      if (!id || !name || !url || !platform) {
-        return res.status(400).json({ error: "ID, name, URL, and platform are required" });
+      if (!id) {
+        return res.status(400).json({ error: "Product ID is required" });
       }
       
-      if (!['amazon', 'walmart'].includes(platform)) {
-        return res.status(400).json({ error: "Platform must be amazon or walmart" });
+      // Only stored products owned by the caller can be monitored
+      const product = await storage.getProduct(user.id, id);
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
       }
       
-      // Start monitoring the product
-      productScheduler.startMonitoring({
-        id: id,
-        name: name,
-        url: url,
-        platform: platform,
-        asin: asin
-      });
+      const check = await entitlementService.checkCanMonitor(user.id);
+      if (!check.allowed) {
+        return res.status(check.denial.status).json(check.denial.body);
+      }
+      
+      if (!product.isMonitoring) {
+        await storage.updateProduct(user.id, product.id, { isMonitoring: true });
+      }
       
-      const intervalMinutes = platform === 'amazon' ? 15 : 1;
+      // Start monitoring the product at the plan-clamped interval
+      const interval = await scheduleProduct(product, check.entitlements);
+      const intervalMinutes = Math.round(interval / 60000);
       
       res.json({ 
-        message: `Started monitoring ${platform} product: ${name}`,
+        message: `Started monitoring ${product.platform} product: ${product.name}`,
         interval: `Every ${intervalMinutes} minute(s)`
       });
       
@@ -1132,15 +1852,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // API route to stop monitoring a product
-  app.post("/api/stop-monitoring", async (req, res) => {
+  app.post("/api/stop-monitoring", requireAuth, async (req, res) => {
     try {
+      const user = (req as any).user;
       const { id } = req.body;
       
       if (!id) {
         return res.status(400).json({ error: "Product ID is required" });
       }
       
-      productScheduler.stopMonitoring(id);
+      const product = await storage.getProduct(user.id, id);
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      
+      productScheduler.stopMonitoring(product.id);
+      await storage.updateProduct(user.id, product.id, { isMonitoring: false });
       
       res.json({ 
         message: `Stopped monitoring product with ID: ${id}`
@@ -1159,7 +1886,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json({ 
         monitoredProducts: status.length,
-        products: status
+        products: status,
+        circuits: productScheduler.getCircuitStatus()
       });
       
     } catch (error) {
@@ -1202,6 +1930,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Anti-Bot Logging API endpoints
+  // Latest anti-bot solution suggestions for the user's blocked platforms
+  app.get("/api/solutions/suggestions", requireAuth, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const response: SolutionSuggestionsResponse = {
+        enabled: await solutionSuggestions.isEnabled(user.id),
+        suggestions: solutionSuggestions.getSuggestions(user.id)
+      };
+      res.json(response);
+      
+    } catch (error) {
+      logger.error('Get solution suggestions error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Automatic solution changes, the one currently being measured and solutions disabled after a rollback
+  app.get("/api/solutions/auto-apply", requireAuth, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const status: SolutionAutoApplyStatus = solutionSuggestions.getAutoApplyStatus(user.id);
+      res.json(status);
+      
+    } catch (error) {
+      logger.error('Get solution auto-apply status error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.post("/api/solutions/apply", requireAuth, async (req, res) => {
+    try {
+      const validationResult = solutionApplicationSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: validationResult.error.format()
+        });
+      }
+
+      const user = (req as any).user;
+      const { solutionId, parameters, forceApply } = validationResult.data;
+      const result = await solutionSuggestions.applySolution(user.id, solutionId, parameters, forceApply);
+      if (!result) {
+        return res.status(404).json({ error: 'Solution not found' });
+      }
+      if (!result.success) {
+        return res.status(400).json({ error: result.message, result });
+      }
+
+      res.json(result);
+      
+    } catch (error) {
+      logger.error('Apply solution error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   app.get("/api/antibot/stats", async (req, res) => {
     try {
       const antiBotLogger = getAntiBotLogger();
@@ -1286,11 +2071,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (storage.destroy) {
       storage.destroy();
     }
-    // destroyWorkerPool().then(() => {
+    monitoringEvents.destroy();
+    notificationDispatcher.destroy();
+    proxyPool.destroy();
+    cookieStore.destroy();
+    requestBudget.destroy();
+    Promise.all([destroyWorkerPool(), cookieStore.flush()]).then(() => {
       httpPool.destroy();
       performanceMonitor.destroy();
       process.exit(0);
-    // });
+    });
   });
 
   process.on('SIGINT', () => {
@@ -1300,32 +2090,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (storage.destroy) {
       storage.destroy();
     }
-    // destroyWorkerPool().then(() => {
+    monitoringEvents.destroy();
+    notificationDispatcher.destroy();
+    proxyPool.destroy();
+    cookieStore.destroy();
+    requestBudget.destroy();
+    Promise.all([destroyWorkerPool(), cookieStore.flush()]).then(() => {
       httpPool.destroy();
       performanceMonitor.destroy();
       process.exit(0);
-    // });
+    });
   });
 
   // Test email endpoint - uses stored encrypted credentials
-  app.post("/api/test-email", async (req, res) => {
+  app.post("/api/test-email", requireAuth, async (req, res) => {
     try {
       // Get user's stored email settings instead of accepting plain text password
-      const userId = "default-user";
-      const settings = await storage.getSettings(userId);
+      const user = (req as any).user;
+      const settings = await storage.getSettingsOrDefaults(user.id);
       
       if (!settings || !settings.gmailEmail || !settings.gmailAppPassword) {
         return res.status(400).json({ error: "Email settings not configured. Please set your Gmail email and app password in settings first." });
       }
 
       // Create transporter with stored (decrypted) credentials
-      const transporter = nodemailer.createTransport({
-        service: 'gmail',
-        auth: {
-          user: settings.gmailEmail,
-          pass: settings.gmailAppPassword // This is already decrypted by storage layer
-        }
-      });
+      const transporter = createMailTransport(settings);
 
       // Verify the connection
       await transporter.verify();
@@ -1373,35 +2162,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get user settings
-  app.get("/api/settings", async (req, res) => {
+  app.get("/api/settings", requireAuth, async (req, res) => {
     try {
-      // For now, use a default user ID - in a real app this would come from session
-      const userId = "default-user";
-      
-      let settings = await storage.getSettings(userId);
+      const user = (req as any).user;
       
-      if (!settings) {
-        // Create default settings if none exist
-        const defaultSettings = {
-          userId,
-          amazonCheckInterval: 20,
-          walmartCheckInterval: 10,
-          enableRandomization: true,
-          enableAudio: true,
-          audioNotificationSound: "notification",
-          audioVolume: 80,
-          enableEmail: false,
-          gmailEmail: "",
-          gmailAppPassword: "",
-          enableTaskTray: false,
-          enableProxy: false,
-          proxyUrl: "",
-          proxyUsername: "",
-          proxyPassword: ""
-        };
-        
-        settings = await storage.createSettings(defaultSettings);
-      }
+      // Created from the defaults (or the legacy shared row) on first access
+      const settings = await storage.getOrCreateSettings(user.id);
       
       // Security: Never expose passwords in API responses - mask them
       const secureSettings = {
@@ -1418,15 +2184,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update user settings
-  app.post("/api/settings", async (req, res) => {
+  app.post("/api/settings", requireAuth, async (req, res) => {
     try {
-      // For now, use a default user ID - in a real app this would come from session
-      const userId = "default-user";
+      const user = (req as any).user;
       
       // Validate request body with Zod schema
       const validatedSettings = updateSettingsSchema.parse(req.body);
       
-      const updatedSettings = await storage.updateSettings(userId, validatedSettings);
+      // Migrate first so a user's first save still inherits the legacy preferences
+      await storage.getOrCreateSettings(user.id);
+      const updatedSettings = await storage.updateSettings(user.id, validatedSettings);
+      // Running products move to the new check intervals
+      await syncUserMonitoring(user.id);
       
       // Security: Never expose passwords in API responses - mask them
       const secureSettings = {
@@ -1447,6 +2216,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Rotation proxies with their health, per-platform stats and quarantine state, for the Settings page
+  app.get("/api/proxy-pool", requireAuth, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const settings = await storage.getSettingsOrDefaults(user.id);
+      res.json(proxyPool.getState(user.id, settings.proxyRotationUrls, settings.enableProxyRotation));
+    } catch (error) {
+      logError("Error getting proxy pool:", error);
+      res.status(500).json({ error: "Failed to get proxy pool" });
+    }
+  });
+
+  // Probe every proxy now instead of waiting for the periodic health check
+  app.post("/api/proxy-pool/check", requireAuth, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      if (!getHealthCheckTarget()) {
+        return res.status(400).json({ error: "Set PROXY_HEALTH_CHECK_URL to a URL the proxies can reach to probe them" });
+      }
+      const settings = await storage.getSettingsOrDefaults(user.id);
+      await proxyPool.checkHealth(user.id, settings.proxyRotationUrls);
+      res.json(proxyPool.getState(user.id, settings.proxyRotationUrls, settings.enableProxyRotation));
+    } catch (error) {
+      logError("Error checking proxy pool:", error);
+      res.status(500).json({ error: "Failed to check proxies" });
+    }
+  });
+
   // Download error logs for Windows users
   app.get("/api/download-logs", async (req, res) => {
     try {
@@ -1529,10 +2326,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Server-sent event stream of the user's monitoring events
+  app.get("/api/events", requireAuth, (req, res) => {
+    const user = (req as any).user;
+    monitoringEvents.addClient(user.id, res);
+  });
+
   // Demo simulation endpoints
-  app.post("/api/simulate-stock-demo", async (req, res) => {
+  app.post("/api/simulate-stock-demo", optionalAuth, async (req, res) => {
     try {
-      // This would trigger a demo stock alert in the real application
+      // Signed-in users also get the demo alert pushed over their event stream
+      const user = (req as any).user;
+      if (user) {
+        monitoringEvents.publish(user.id, {
+          type: 'stock_change',
+          productId: 'demo',
+          productName: 'Demo Product',
+          platform: 'amazon',
+          productUrl: getRetailer('amazon').origin,
+          previousStatus: 'out-of-stock',
+          status: 'in-stock',
+          inStock: true
+        });
+      }
       logInfo("Demo stock alert triggered");
       res.json({ 
         success: true, 
@@ -1544,9 +2360,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/simulate-price-demo", async (req, res) => {
+  app.post("/api/simulate-price-demo", optionalAuth, async (req, res) => {
     try {
-      // This would trigger a demo price drop alert in the real application
+      const user = (req as any).user;
+      if (user) {
+        monitoringEvents.publish(user.id, {
+          type: 'price_drop',
+          productId: 'demo',
+          productName: 'Demo Product',
+          platform: 'amazon',
+          productUrl: getRetailer('amazon').origin,
+          currentPrice: 79.99,
+          previousPrice: 99.99,
+          currency: 'USD',
+          savings: 20,
+          discountPercent: 20
+        });
+      }
       logInfo("Demo price drop triggered");
       res.json({ 
         success: true, 
@@ -1729,6 +2559,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Update user status
       const updatedStatus = await storage.updateUserStatus(userId, status, reason);
+      await syncUserMonitoring(userId);
 
       // Log admin action
       logInfo(`Admin action: User ${userId} status changed to ${status}`, {
@@ -1824,6 +2655,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         status: 'canceled',
         canceledAt: new Date(),
       });
+      await syncUserMonitoring(subscription.userId);
 
       // Log admin action
       logInfo(`Admin action: Subscription ${subscriptionId} canceled`, {
@@ -1868,6 +2700,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         status: 'active',
         canceledAt: null,
       });
+      await syncUserMonitoring(subscription.userId);
 
       // Log admin action
       logInfo(`Admin action: Subscription ${subscriptionId} resumed`, {
@@ -1918,6 +2751,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updatedSubscription = await storage.updateSubscription(subscriptionId, {
         planId,
       });
+      await syncUserMonitoring(subscription.userId);
 
       // Log admin action
       logInfo(`Admin action: Subscription ${subscriptionId} plan changed`, {
@@ -1974,6 +2808,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Extraction health per platform: selector and strategy hit rates, parse rate history and breakage alerts
+  app.get("/api/admin/selector-health", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      res.json(selectorHealth.getReport());
+    } catch (error) {
+      console.error("Error fetching selector health:", error);
+      res.status(500).json({ error: "Failed to fetch selector health" });
+    }
+  });
+
+  // Browser fingerprint profiles with their block rates per platform
+  app.get("/api/admin/fingerprint-profiles", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      res.json(fingerprintRotator.getReport());
+    } catch (error) {
+      console.error("Error fetching fingerprint profiles:", error);
+      res.status(500).json({ error: "Failed to fetch fingerprint profiles" });
+    }
+  });
+
   // Beta Access Management Routes
   app.post("/api/admin/users/:userId/beta-access", requireAuth, requireAdmin, async (req, res) => {
     try {
@@ -2005,6 +2859,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Grant beta access
       const userAccess = await storage.setBetaAccess(userId, true, expirationDate);
+      await syncUserMonitoring(userId);
 
       // Log admin action
       logInfo(`Admin action: Beta access granted to user ${userId}`, {
@@ -2042,6 +2897,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Revoke beta access
       const userAccess = await storage.setBetaAccess(userId, false, undefined);
+      await syncUserMonitoring(userId);
 
       // Log admin action
       logInfo(`Admin action: Beta access revoked from user ${userId}`, {
@@ -2109,6 +2965,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      await syncUserMonitoring(userId);
+
       // Log admin action
       logInfo(`Admin action: User ${userId} assigned to plan ${planId}`, {
         adminId: (req as any).session?.user?.id,
@@ -2260,122 +3118,256 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  process.on('SIGTERM', () => {
-    console.log('Received SIGTERM, cleaning up product scheduler...');
-    productScheduler.stopAll();
-    process.exit(0);
-  });
-
-  process.on('SIGINT', () => {
-    console.log('Received SIGINT, cleaning up product scheduler...');
-    productScheduler.stopAll();
-    process.exit(0);
-  });
-
   // Initialize default subscription plans with proper itemLimit features
   await initializeDefaultSubscriptionPlans();
 
+  // Restore solution effectiveness so suggestion rankings build on past outcomes
+  await solutionSuggestions.loadPersisted();
+
+  // Scheduled checks continue the retailer sessions they had before the restart
+  await cookieStore.loadPersisted();
+
+  // Resume monitoring without waiting for clients to start it again
+  await restoreMonitoringSchedules();
+
+  const retailerHostOverride = getRetailerHostOverride();
+  if (retailerHostOverride) {
+    console.warn(`[Retailers] RETAILER_HOST_OVERRIDE is set: retailer requests go to ${retailerHostOverride}`);
+  }
+
   const httpServer = createServer(app);
 
   return httpServer;
 }
 
-// Enhanced rotating user agents with more variety to avoid detection
-const USER_AGENTS = [
-  // Chrome on Windows
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/119.0.0.0 Safari/537.36',
-  // Chrome on Mac
-  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-  // Firefox
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:121.0) Gecko/20100101 Firefox/121.0',
-  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10.15; rv:121.0) Gecko/20100101 Firefox/121.0',
-  // Safari
-  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Safari/605.1.15',
-  // Edge
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36 Edg/121.0.0.0'
-];
-
-function getRandomUserAgent(): string {
-  return USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)];
+// Convert a stored product row into the scheduler's input shape
+function toMonitoredProduct(product: Product): Omit<MonitoredProduct, 'interval' | 'timer'> {
+  return {
+    id: product.id,
+    userId: product.userId,
+    name: product.name,
+    url: product.url,
+    platform: product.platform as RetailerId,
+    asin: product.asin ?? undefined,
+    notifyForStock: product.notifyForStock,
+    notifyForPrice: product.notifyForPrice,
+    alertRules: product.alertRules,
+    lastAlertedAt: product.lastAlertedAt ?? undefined
+  };
+}
+
+// Start monitoring a stored product at its owner's entitlement-clamped interval
+async function scheduleProduct(product: Product, entitlements?: Entitlements): Promise<number> {
+  const platform = product.platform as RetailerId;
+  const interval = await entitlementService.getScheduleInterval(product.userId, platform, entitlements);
+  productScheduler.startMonitoring(toMonitoredProduct(product), interval);
+  return interval;
+}
+
+// Bring a user's monitoring in line with their current plan and interval settings: intervals are
+// clamped again, products of an account that may no longer monitor stop, and monitored products
+// missing from the scheduler (stopped by an earlier loss of access) start again
+async function syncUserMonitoring(userId: string): Promise<void> {
+  try {
+    const check = await entitlementService.checkCanMonitor(userId);
+    const scheduled = new Set(productScheduler.getUserProductIds(userId));
+    if (!check.allowed) {
+      scheduled.forEach(productId => productScheduler.stopMonitoring(productId));
+      if (scheduled.size > 0) {
+        console.log(`[Scheduler] Stopped ${scheduled.size} products of user ${userId}: ${check.denial.body.reason}`);
+      }
+      return;
+    }
+
+    for (const product of await storage.getProducts(userId)) {
+      if (!product.isMonitoring) continue;
+      if (scheduled.has(product.id)) {
+        const interval = await entitlementService.getScheduleInterval(userId, product.platform as RetailerId, check.entitlements);
+        productScheduler.updateInterval(product.id, interval);
+      } else {
+        await scheduleProduct(product, check.entitlements);
+      }
+    }
+  } catch (error) {
+    console.error(`[Scheduler] Failed to update monitoring of user ${userId}:`, error);
+  }
+}
+
+// Checks that came due while the server was down are spaced this far apart,
+// or closer when there are so many that spacing them would take longer than RESTORE_SPREAD_MS
+const RESTORE_STAGGER_MS = 2000;
+const RESTORE_SPREAD_MS = 5 * 60 * 1000;
+
+// Rebuild the scheduler from saved schedules after a restart. Overdue checks run
+// oldest first, staggered so the retailers don't see every product fetched at once;
+// the rest keep their saved next-run time. Owners are checked against their current
+// plan like /api/start-monitoring does: products of accounts that may not monitor
+// stay unscheduled and intervals are clamped again.
+async function restoreMonitoringSchedules(): Promise<void> {
+  try {
+    const stored = await storage.getMonitoredProductSchedules();
+    if (stored.length === 0) return;
+
+    // One entitlement lookup per owner
+    const access = new Map<string, EntitlementCheck>();
+    for (const userId of Array.from(new Set(stored.map(entry => entry.product.userId)))) {
+      try {
+        access.set(userId, await entitlementService.checkCanMonitor(userId));
+      } catch (error) {
+        console.error(`[Scheduler] Failed to check entitlements of user ${userId}:`, error);
+      }
+    }
+    const entries = stored.filter(entry => access.get(entry.product.userId)?.allowed);
+    if (entries.length < stored.length) {
+      console.warn(`[Scheduler] Not restoring ${stored.length - entries.length} monitoring schedules of accounts that may not monitor`);
+    }
+
+    const now = Date.now();
+    // Products monitored before schedules were saved have no schedule and count as overdue
+    const dueAt = (entry: MonitoredProductSchedule) => entry.schedule?.nextRunAt.getTime() ?? 0;
+    const overdue = entries.filter(entry => dueAt(entry) <= now).sort((a, b) => dueAt(a) - dueAt(b));
+    const spacing = Math.min(RESTORE_STAGGER_MS, RESTORE_SPREAD_MS / overdue.length);
+    const overdueSlot = new Map(overdue.map((entry, index) => [entry.product.id, index]));
+
+    let restored = 0;
+    for (const entry of entries) {
+      const { product, schedule } = entry;
+      const check = access.get(product.userId);
+      try {
+        // The plan may have changed while the server was down
+        const interval = await entitlementService.getScheduleInterval(
+          product.userId,
+          product.platform as RetailerId,
+          check?.allowed ? check.entitlements : undefined
+        );
+        const slot = overdueSlot.get(product.id);
+        const delay = slot !== undefined
+          ? 1000 + Math.round(slot * spacing)
+          : dueAt(entry) - now;
+
+        productScheduler.restoreMonitoring(toMonitoredProduct(product), {
+          interval,
+          backoffDelay: Math.max(schedule?.backoffDelay ?? interval, interval),
+          consecutiveErrors: schedule?.consecutiveErrors ?? 0,
+          currentPrice: product.currentPrice !== null ? parseFloat(product.currentPrice) : undefined,
+          previousPrice: product.previousPrice !== null ? parseFloat(product.previousPrice) : undefined,
+          currency: product.currency ?? undefined,
+          status: product.status as ProductAvailability,
+          seller: product.seller ?? undefined,
+          lastChecked: product.lastChecked ?? undefined
+        }, delay);
+        restored++;
+      } catch (error) {
+        console.error(`[Scheduler] Failed to restore schedule for ${product.id}:`, error);
+      }
+    }
+
+    console.log(`[Scheduler] Restored ${restored} monitoring schedules (${overdue.length} overdue, staggered over ${Math.round(overdue.length * spacing / 1000)}s)`);
+  } catch (error) {
+    console.error('[Scheduler] Failed to restore monitoring schedules:', error);
+  }
+}
+
+// Postgres unique violation on (user, url): the user already tracks that URL.
+// Drizzle wraps driver errors, keeping the original as the cause.
+function isDuplicateProductError(error: unknown): boolean {
+  const { code, constraint, cause } = (error ?? {}) as { code?: string; constraint?: string; cause?: unknown };
+  if (code === '23505') return constraint === 'products_user_id_url_unique';
+  return cause !== undefined && isDuplicateProductError(cause);
 }
 
-// Enhanced browser fingerprint simulation
-function generateBrowserHeaders(userAgent: string, platform: 'amazon' | 'walmart'): Record<string, string> {
-  const isChrome = userAgent.includes('Chrome');
-  const isFirefox = userAgent.includes('Firefox');
-  const isSafari = userAgent.includes('Safari') && !userAgent.includes('Chrome');
-  const isWindows = userAgent.includes('Windows');
-  const isMac = userAgent.includes('Macintosh');
-  
-  const headers: Record<string, string> = {
-    'User-Agent': userAgent,
-    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7',
-    'Accept-Language': 'en-US,en;q=0.9',
-    'Accept-Encoding': 'gzip, deflate, br',
-    'Cache-Control': 'no-cache',
-    'Pragma': 'no-cache',
-    'Connection': 'keep-alive',
-    'Upgrade-Insecure-Requests': '1',
-    'DNT': '1'
+// API representation of a product; decimal columns come back from the database as strings
+function serializeProduct(product: Product) {
+  return {
+    ...product,
+    currentPrice: product.currentPrice !== null ? parseFloat(product.currentPrice) : undefined,
+    previousPrice: product.previousPrice !== null ? parseFloat(product.previousPrice) : undefined,
   };
-  
-  // Chrome-specific headers
-  if (isChrome) {
-    headers['sec-ch-ua'] = '"Not_A Brand";v="8", "Chromium";v="120", "Google Chrome";v="120"';
-    headers['sec-ch-ua-mobile'] = '?0';
-    headers['sec-ch-ua-platform'] = isWindows ? '"Windows"' : '"macOS"';
-    headers['Sec-Fetch-Dest'] = 'document';
-    headers['Sec-Fetch-Mode'] = 'navigate';
-    headers['Sec-Fetch-Site'] = 'none';
-    headers['Sec-Fetch-User'] = '?1';
+}
+
+// Notification row for events the user sees in their history (price drops and
+// restocks); other events are only pushed over the stream
+function toNotificationRecord(userId: string, event: MonitoringEventInput): InsertUserNotification | null {
+  // Platform-wide events aren't about a product the notification history could show
+  if (event.type === 'circuit_breaker') return null;
+
+  const base = {
+    userId,
+    productId: event.productId,
+    productName: event.productName,
+    platform: event.platform
+  };
+
+  if (event.type === 'price_drop') {
+    return {
+      ...base,
+      type: 'price_drop',
+      data: {
+        currentPrice: event.currentPrice,
+        previousPrice: event.previousPrice,
+        currency: event.currency,
+        savings: event.savings,
+        discountPercent: event.discountPercent,
+        productUrl: event.productUrl
+      }
+    };
   }
-  
-  // Platform-specific referer
-  if (platform === 'amazon') {
-    headers['Referer'] = 'https://www.google.com/';
-  } else if (platform === 'walmart') {
-    headers['Referer'] = 'https://www.google.com/';
+
+  if (event.type === 'stock_change' && event.inStock && event.previousStatus === 'out-of-stock') {
+    return {
+      ...base,
+      type: 'stock_alert',
+      data: { inStock: true, productUrl: event.productUrl }
+    };
   }
-  
-  return headers;
+
+  return null;
 }
 
-function detectChallengePage(html: string, url: string): boolean {
-  const challengeIndicators = [
-    'Robot Check',
-    'Robot or human?',
-    'Something went wrong',
-    'To discuss automated access',
-    'automated queries',
-    'unusual traffic',
-    'blocked',
-    'captcha',
-    'Please confirm that you are a human',
-    'Security check',
-    'Access Denied'
-  ];
-  
-  const lowerHtml = html.toLowerCase();
-  const isChallenge = challengeIndicators.some(indicator => 
-    lowerHtml.includes(indicator.toLowerCase())
-  );
-  
-  if (isChallenge) {
-    console.log(`Challenge page detected for URL: ${url}`);
-    console.log(`Challenge indicators found: ${challengeIndicators.filter(indicator => 
-      lowerHtml.includes(indicator.toLowerCase())
-    ).join(', ')}`);
+// Browser headers for a product page request, all from one fingerprint profile
+function generateBrowserHeaders(profile: FingerprintProfile, url: string, platform: RetailerId, cookie?: string, acceptLanguage?: string): Record<string, string> {
+  const retailerHeaders = getRetailer(platform).headers;
+  return buildFingerprintHeaders(profile, url, { referer: retailerHeaders.referer, cookie, acceptLanguage, extraHeaders: retailerHeaders.extraHeaders });
+}
+
+// Interactive lookup of a product's name (product form, ASIN search)
+async function scrapeWithRetry(url: string, platform: RetailerId, maxRetries = 3, owner?: RequestBudgetOwner): Promise<string> {
+  const result = await scrapeProductPage(url, platform, 'interactive', maxRetries, { budget: { owner } });
+  if (result.rateLimited) {
+    return "Product Name Could Not Be Retrieved (too many requests, try again shortly)";
   }
-  
-  return isChallenge;
+  return result.success && result.details ? result.details.name : (result.error || "Product Name Could Not Be Retrieved");
+}
+
+// How a scheduled check reaches the retailer: as which browser, through a pool proxy
+// and/or as a returning visitor, and with which solution overrides on top of the defaults.
+// Interactive lookups only say whose request budget they use.
+interface ScrapeSession {
+  proxyUrl?: string;
+  profile?: FingerprintProfile;
+  cookies?: CookieJar;
+  solutionConfig?: WorkerSolutionConfig;
+  budget?: Omit<RequestBudgetOptions, 'proxyUrl'>;
 }
 
-async function scrapeWithRetry(url: string, platform: "amazon" | "walmart", maxRetries = 3): Promise<string> {
+// A user's own request budget, from their settings
+function budgetOwner(userSettings: Settings): RequestBudgetOwner {
+  return { userId: userSettings.userId, requestsPerMinute: userSettings.requestBudgetRpm };
+}
+
+// The signed-in user's request budget, or none (the shared anonymous one) for anonymous requests
+async function requestBudgetOwner(req: Request): Promise<RequestBudgetOwner | undefined> {
+  const user = (req as any).user;
+  return user ? budgetOwner(await storage.getSettingsOrDefaults(user.id)) : undefined;
+}
+
+// Fetch a product page with retries and extract structured details (price, stock, seller).
+// Every attempt takes a token from the request budget at the given priority.
+async function scrapeProductPage(url: string, platform: RetailerId, priority: RequestPriority, maxRetries = 3, session: ScrapeSession = {}): Promise<ProductScrapeResult> {
   // Use optimized HTTP connection pool instead of creating new instances
   const axiosInstance = httpPool.getAxiosInstance();
+  // Scheduled checks apply the same solution configuration as in a worker; interactive lookups have none
+  const solution = session.solutionConfig ? { ...DEFAULT_WORKER_SOLUTION_CONFIG, ...session.solutionConfig } : undefined;
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
@@ -2383,20 +3375,21 @@ async function scrapeWithRetry(url: string, platform: "amazon" | "walmart", maxR
       
       // Progressive delay between requests - more human-like
       if (attempt > 1) {
-        const baseDelay = platform === 'walmart' ? 3000 : 2000; // Walmart needs longer delays
-        const randomDelay = Math.random() * 3000 + baseDelay; // 2-5s for Amazon, 3-6s for Walmart
+        const baseDelay = getRetailer(platform).retryBaseDelayMs;
+        const solutionDelay = solution ? calculateRequestDelay(solution) : 0;
+        const randomDelay = solutionDelay || Math.random() * 3000 + baseDelay; // base delay plus up to 3s of jitter
         console.log(`Waiting ${Math.round(randomDelay)}ms before retry...`);
         await new Promise(resolve => setTimeout(resolve, randomDelay));
       }
-      
-      // Generate realistic browser headers
-      const userAgent = getRandomUserAgent();
-      const headers = generateBrowserHeaders(userAgent, platform);
-      
-      // Add some randomness to make requests less detectable
-      if (Math.random() > 0.7) {
-        headers['X-Requested-With'] = 'XMLHttpRequest';
+
+      const permit = await requestBudget.acquire(url, priority, { ...session.budget, proxyUrl: session.proxyUrl });
+      if (!permit.granted) {
+        return { success: false, error: permit.reason, rateLimited: true };
       }
+      
+      // Generate realistic browser headers, from the session's profile or a fresh one each attempt
+      const profile = session.profile ?? fingerprintRotator.pick(DEFAULT_FINGERPRINT_FILTER, platform);
+      const headers = generateBrowserHeaders(profile, url, platform, session.cookies?.getCookieHeader(url), solution && getAcceptLanguage(solution));
 
       // Simulate more realistic browsing behavior
       const axiosConfig = {
@@ -2405,19 +3398,25 @@ async function scrapeWithRetry(url: string, platform: "amazon" | "walmart", maxR
         maxRedirects: 5,
         validateStatus: (status: number) => status < 500, // Accept 4xx errors but retry on 5xx
         // Disable automatic decompression to handle manually
-        decompress: false
+        decompress: false,
+        ...(session.proxyUrl ? proxyRequestOptions(session.proxyUrl) : {})
       };
       
-      const response = await axiosInstance.get(url, axiosConfig);
+      const requestStart = Date.now();
+      const response = await axiosInstance.get(resolveRetailerRequestUrl(url), axiosConfig);
+      const responseTime = Date.now() - requestStart;
+      session.cookies?.setCookies(response.headers['set-cookie'], url);
 
       // Debug: Log response status and first 500 chars of content
       console.log(`Response status: ${response.status}, Content length: ${response.data.length}`);
       console.log(`First 500 chars: ${response.data.substring(0, 500)}`);
 
-      // Check if we got a challenge page
-      if (detectChallengePage(response.data, url)) {
+      // Score the page against the anti-bot rule set, as workers do
+      const antiBot = detectAntiBot(response.data, url, response.status, responseTime, response.headers as Record<string, string>, platform);
+      if (antiBot.isBlocked) {
+        logAntiBotEvent(antiBot, url, profile.userAgent, headers);
         if (attempt < maxRetries) {
-          console.log(`Challenge detected, retrying attempt ${attempt + 1} with exponential backoff...`);
+          console.log(`${antiBot.detectionType} protection detected, retrying attempt ${attempt + 1} with exponential backoff...`);
           // Enhanced exponential backoff with jitter for challenges
           const baseDelay = Math.pow(2, attempt) * 2000; // 4s, 8s, 16s base delays
           const jitter = Math.random() * 2000; // Add up to 2s random jitter
@@ -2426,51 +3425,22 @@ async function scrapeWithRetry(url: string, platform: "amazon" | "walmart", maxR
           await new Promise(resolve => setTimeout(resolve, challengeDelay));
           continue;
         } else {
-          console.log("All retry attempts exhausted, challenge page persists");
-          console.log("Recommendation: Try using a different approach or external scraping service");
-          return "Product blocked by anti-bot protection";
+          console.log(`All retry attempts exhausted, ${antiBot.detectionType} protection persists`);
+          return {
+            success: false,
+            error: `Product blocked by ${antiBot.detectionType} protection (confidence: ${(antiBot.confidence * 100).toFixed(1)}%). ${antiBot.suggestedAction}`,
+            antiBot,
+            responseCode: response.status,
+            responseTime
+          };
         }
       }
 
-      const $ = cheerio.load(response.data);
-      let productName = "";
-
-      if (platform === "amazon") {
-        // Enhanced Amazon selectors
-        productName = 
-          $('#productTitle').text().trim() ||
-          $('h1[data-automation-id="product-title"]').text().trim() ||
-          $('span#productTitle').text().trim() ||
-          $('.product-title').text().trim() ||
-          $('h1.a-size-large.a-spacing-none.a-color-base').text().trim() ||
-          $('h1.a-size-large').text().trim() ||
-          $('.a-size-large.product-title-word-break').text().trim() ||
-          $('[data-asin] h1').text().trim() ||
-          $('.a-spacing-none .a-size-large').text().trim();
-      } 
-      else if (platform === "walmart") {
-        // Enhanced Walmart selectors
-        productName = 
-          $('[data-automation-id="product-title"]').text().trim() ||
-          $('h1[data-testid="product-title"]').text().trim() ||
-          $('#main-title').text().trim() ||
-          $('.prod-ProductTitle').text().trim() ||
-          $('.f2').text().trim() ||
-          $('h1[data-cy="product-title"]').text().trim() ||
-          $('h1.normal.dark-gray.mb1.mr1.f2.f1-l').text().trim() ||
-          $('h1').first().text().trim();
-      }
-
-      // Clean up the product name
-      if (productName) {
-        productName = productName
-          .replace(/\s+/g, ' ')  // Replace multiple spaces with single space
-          .replace(/\n/g, ' ')   // Replace newlines with spaces
-          .replace(/\t/g, ' ')   // Replace tabs with spaces
-          .trim();
-
-        console.log(`Successfully scraped ${platform} product: "${productName}"`);
-        return productName;
+      const { details, trace } = extractProductPage(response.data, platform);
+
+      if (details) {
+        console.log(`Successfully scraped ${platform} product: "${details.name}" (price: ${details.price ?? 'n/a'} ${details.currency ?? ''}, availability: ${details.availability}, seller: ${details.seller ?? 'n/a'})`);
+        return { success: true, details, extraction: trace, responseCode: response.status, responseTime };
       }
 
       // If no product name found, try one more time if we have retries left
@@ -2479,7 +3449,7 @@ async function scrapeWithRetry(url: string, platform: "amazon" | "walmart", maxR
         continue;
       }
 
-      return "Product Name Could Not Be Retrieved";
+      return { success: false, error: "Product Name Could Not Be Retrieved", extraction: trace, responseCode: response.status, responseTime };
 
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -2488,22 +3458,11 @@ async function scrapeWithRetry(url: string, platform: "amazon" | "walmart", maxR
       // Handle specific error types
       if ((error as any).code === 'ENOTFOUND' || (error as any).code === 'ECONNREFUSED') {
         console.log('Network connectivity issue detected');
-        return "Network error: Could not connect to product page";
-      }
-      
-      if ((error as any).response?.status === 403) {
-        console.log('Access forbidden - likely blocked by anti-bot');
-        if (attempt < maxRetries) {
-          const blockDelay = Math.random() * 5000 + 5000; // 5-10 second delay for 403s
-          console.log(`403 error, waiting ${Math.round(blockDelay)}ms before retry...`);
-          await new Promise(resolve => setTimeout(resolve, blockDelay));
-          continue;
-        }
-        return "Access blocked by anti-bot protection";
+        return { success: false, error: "Network error: Could not connect to product page" };
       }
       
       if (attempt === maxRetries) {
-        return "Product Name Could Not Be Retrieved";
+        return { success: false, error: "Product Name Could Not Be Retrieved" };
       }
       
       // Short delay before retrying on other errors
@@ -2511,46 +3470,55 @@ async function scrapeWithRetry(url: string, platform: "amazon" | "walmart", maxR
     }
   }
 
-  return "Product Name Could Not Be Retrieved";
+  return { success: false, error: "Product Name Could Not Be Retrieved" };
 }
 
 // Optimized non-blocking scraping using worker pool
-async function scrapeProductName(url: string, platform: "amazon" | "walmart"): Promise<string> {
+async function scrapeProductName(url: string, platform: RetailerId, owner?: RequestBudgetOwner): Promise<string> {
   // Validate URL to prevent SSRF attacks
-  try {
-    const urlObj = new URL(url);
-    const allowedHosts = ['amazon.com', 'www.amazon.com', 'walmart.com', 'www.walmart.com'];
-    
-    if (!allowedHosts.includes(urlObj.hostname)) {
-      throw new Error(`Invalid hostname: ${urlObj.hostname}`);
-    }
-  } catch (error) {
-    console.error('Invalid URL:', url, error);
+  if (!isAllowedProductUrl(url, platform)) {
+    console.error('Invalid URL:', url, `(not a ${platform} product URL)`);
     return "Invalid URL provided";
   }
 
   // Use optimized HTTP connection pool for scraping
   try {
-    return await scrapeWithRetry(url, platform, 3);
+    return await scrapeWithRetry(url, platform, 3, owner);
   } catch (error) {
     console.error('Optimized scraping failed:', error);
     return "Product Name Could Not Be Retrieved";
   }
 }
 
+// Structured product scrape (price, availability, seller) used by the monitoring scheduler
+async function scrapeProductDetails(url: string, platform: RetailerId, session: ScrapeSession = {}): Promise<ProductScrapeResult> {
+  // Validate URL to prevent SSRF attacks
+  if (!isAllowedProductUrl(url, platform)) {
+    console.error('Invalid URL:', url, `(not a ${platform} product URL)`);
+    return { success: false, error: "Invalid URL provided" };
+  }
+
+  try {
+    return await scrapeProductPage(url, platform, 'background', 3, session);
+  } catch (error) {
+    console.error('Optimized scraping failed:', error);
+    return { success: false, error: "Product Name Could Not Be Retrieved" };
+  }
+}
+
 // Worker-based ASIN search
-async function searchByASINWithWorker(asin: string): Promise<{results: Array<{platform: string, name: string, url: string, asin?: string, price?: string, status: string}>}> {
+async function searchByASINWithWorker(asin: string, owner?: RequestBudgetOwner): Promise<{results: Array<{platform: string, name: string, url: string, asin?: string, price?: string, status: string}>}> {
   try {
     // Validate ASIN format (should be 10 characters, alphanumeric)
     if (!/^[A-Z0-9]{10}$/.test(asin.toUpperCase())) {
       throw new Error("Invalid ASIN format");
     }
 
-    const amazonUrl = `https://www.amazon.com/dp/${asin.toUpperCase()}`;
+    const amazonUrl = getRetailer('amazon').buildProductUrl(asin);
     console.log(`Searching Amazon by ASIN: ${asin} -> ${amazonUrl}`);
     
     // Use optimized scraping with connection pooling
-    const productName = await scrapeProductName(amazonUrl, 'amazon');
+    const productName = await scrapeProductName(amazonUrl, 'amazon', owner);
     
     const status = productName.includes("blocked") || productName.includes("Could Not Be Retrieved") ? "blocked" : "ok";
     
@@ -2570,7 +3538,7 @@ async function searchByASINWithWorker(asin: string): Promise<{results: Array<{pl
       results: [{
         platform: "amazon", 
         name: "Product Name Could Not Be Retrieved",
-        url: `https://www.amazon.com/dp/${asin.toUpperCase()}`,
+        url: getRetailer('amazon').buildProductUrl(asin),
         asin: asin.toUpperCase(),
         price: "N/A",
         status: "error"
@@ -2586,7 +3554,7 @@ async function searchByASIN(asin: string): Promise<{results: Array<{platform: st
       throw new Error("Invalid ASIN format");
     }
 
-    const amazonUrl = `https://www.amazon.com/dp/${asin.toUpperCase()}`;
+    const amazonUrl = getRetailer('amazon').buildProductUrl(asin);
     console.log(`Searching Amazon by ASIN: ${asin} -> ${amazonUrl}`);
     
     const productName = await scrapeWithRetry(amazonUrl, 'amazon', 3);
@@ -2609,7 +3577,7 @@ async function searchByASIN(asin: string): Promise<{results: Array<{platform: st
       results: [{
         platform: "amazon", 
         name: "Product Name Could Not Be Retrieved",
-        url: `https://www.amazon.com/dp/${asin.toUpperCase()}`,
+        url: getRetailer('amazon').buildProductUrl(asin),
         asin: asin.toUpperCase(),
         price: "N/A",
         status: "error"
@@ -2618,27 +3586,27 @@ async function searchByASIN(asin: string): Promise<{results: Array<{platform: st
   }
 }
 
-async function searchByProductName(query: string, platform: "amazon" | "walmart" | "both"): Promise<{results: Array<{platform: string, name: string, url: string, price?: string, status: string}>}> {
+async function searchByProductName(query: string, platform: RetailerId | "both", owner?: RequestBudgetOwner): Promise<{results: Array<{platform: string, name: string, url: string, price?: string, status: string}>}> {
   try {
     console.log(`Searching ${platform} platform(s) for product name: "${query}"`);
     
     if (platform === "both") {
-      // Search both platforms in parallel
-      console.log(`Running parallel search on Amazon and Walmart for: "${query}"`);
+      // Search every registered retailer in parallel
+      const retailers = getRetailers();
+      console.log(`Running parallel search on ${retailers.map(r => r.displayName).join(', ')} for: "${query}"`);
       
-      const [amazonResults, walmartResults] = await Promise.all([
-        searchSinglePlatform(query, "amazon"),
-        searchSinglePlatform(query, "walmart")
-      ]);
+      const platformResults = await Promise.all(
+        retailers.map(retailer => searchSinglePlatform(query, retailer.id, owner))
+      );
       
-      // Combine results from both platforms
-      const combinedResults = [...amazonResults, ...walmartResults];
-      console.log(`Combined ${combinedResults.length} results from both platforms`);
+      // Combine results from all platforms
+      const combinedResults = platformResults.flat();
+      console.log(`Combined ${combinedResults.length} results from ${retailers.length} platforms`);
       
       return { results: combinedResults };
     } else {
       // Search single platform
-      const results = await searchSinglePlatform(query, platform);
+      const results = await searchSinglePlatform(query, platform, owner);
       return { results: results };
     }
     
@@ -2656,16 +3624,11 @@ async function searchByProductName(query: string, platform: "amazon" | "walmart"
   }
 }
 
-async function searchSinglePlatform(query: string, platform: "amazon" | "walmart"): Promise<Array<{platform: string, name: string, url: string, price?: string, status: string}>> {
+async function searchSinglePlatform(query: string, platform: RetailerId, owner?: RequestBudgetOwner): Promise<Array<{platform: string, name: string, url: string, price?: string, status: string}>> {
   try {
-    let searchUrl = "";
-    if (platform === "amazon") {
-      searchUrl = `https://www.amazon.com/s?k=${encodeURIComponent(query)}`;
-    } else if (platform === "walmart") {
-      searchUrl = `https://www.walmart.com/search?q=${encodeURIComponent(query)}`;
-    }
+    const searchUrl = getRetailer(platform).buildSearchUrl(query);
 
-    const searchResults = await scrapeSearchResults(searchUrl, platform);
+    const searchResults = await scrapeSearchResults(searchUrl, platform, owner);
     
     // Add platform field and status to each result
     return searchResults.map(result => ({
@@ -2688,84 +3651,35 @@ async function searchSinglePlatform(query: string, platform: "amazon" | "walmart
   }
 }
 
-async function scrapeSearchResults(searchUrl: string, platform: "amazon" | "walmart"): Promise<Array<{name: string, url: string, price?: string}>> {
+async function scrapeSearchResults(searchUrl: string, platform: RetailerId, owner?: RequestBudgetOwner): Promise<SearchResultItem[]> {
   try {
-    const headers: Record<string, string> = {
-      'User-Agent': getRandomUserAgent(),
-      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
-      'Accept-Language': 'en-US,en;q=0.9',
-      'Accept-Encoding': 'gzip, deflate, br',
-      'Cache-Control': 'max-age=0',
-      'DNT': '1'
-    };
-
-    if (platform === 'amazon') {
-      headers['Referer'] = 'https://www.amazon.com/';
-    } else {
-      headers['Referer'] = 'https://www.walmart.com/';
+    const permit = await requestBudget.acquire(searchUrl, 'interactive', { owner });
+    if (!permit.granted) {
+      return [{ name: "Search results could not be retrieved (too many requests, try again shortly)", url: "", price: "N/A" }];
     }
 
+    const profile = fingerprintRotator.pick(DEFAULT_FINGERPRINT_FILTER, platform);
+    const headers = buildFingerprintHeaders(profile, searchUrl, {
+      referer: getRetailer(platform).headers.siteReferer
+    });
+
     // Use optimized HTTP connection pool
-    const response = await httpPool.getAxiosInstance().get(searchUrl, {
+    const requestStart = Date.now();
+    const response = await httpPool.getAxiosInstance().get(resolveRetailerRequestUrl(searchUrl), {
       headers,
       timeout: 15000,
       maxRedirects: 5
     });
 
-    if (detectChallengePage(response.data, searchUrl)) {
-      console.log("Challenge page detected for search results");
+    const antiBot = detectAntiBot(response.data, searchUrl, response.status, Date.now() - requestStart, response.headers as Record<string, string>, platform);
+    if (antiBot.isBlocked) {
+      console.log(`${antiBot.detectionType} protection detected for search results`);
+      logAntiBotEvent(antiBot, searchUrl, profile.userAgent, headers);
       return [{ name: "Search blocked by anti-bot protection", url: "", price: "N/A" }];
     }
 
-    const $ = cheerio.load(response.data);
-    const results: Array<{name: string, url: string, price?: string}> = [];
-
-    if (platform === "amazon") {
-      // Amazon search result selectors
-      $('[data-component-type="s-search-result"]').each((index, element) => {
-        if (index >= 5) return; // Limit to top 5 results
-        
-        const $element = $(element);
-        const nameElement = $element.find('h2 a span, .a-size-mini span, .a-size-base-plus');
-        const linkElement = $element.find('h2 a');
-        const priceElement = $element.find('.a-price .a-offscreen, .a-price-whole');
-        
-        const name = nameElement.first().text().trim();
-        const relativeUrl = linkElement.attr('href');
-        const price = priceElement.first().text().trim();
-        
-        if (name && relativeUrl) {
-          const fullUrl = relativeUrl.startsWith('http') ? relativeUrl : `https://www.amazon.com${relativeUrl}`;
-          results.push({
-            name: name.substring(0, 100), // Limit name length
-            url: fullUrl,
-            price: price || "N/A"
-          });
-        }
-      });
-    } else if (platform === "walmart") {
-      // Walmart search result selectors
-      $('[data-testid="item"], [data-automation-id="product-title"]').each((index, element) => {
-        if (index >= 5) return; // Limit to top 5 results
-        
-        const $element = $(element);
-        const nameElement = $element.find('[data-automation-id="product-title"], a[href*="/ip/"]');
-        const priceElement = $element.find('[itemprop="price"], .price-current');
-        
-        const name = nameElement.first().text().trim();
-        const relativeUrl = nameElement.first().attr('href');
-        const price = priceElement.first().text().trim();
-        
-        if (name && relativeUrl) {
-          const fullUrl = relativeUrl.startsWith('http') ? relativeUrl : `https://www.walmart.com${relativeUrl}`;
-          results.push({
-            name: name.substring(0, 100), // Limit name length
-            url: fullUrl,
-            price: price || "N/A"
-          });
-        }
-      });
-    }
+    // Top 5 results using the retailer's search selectors
+    const results = extractSearchResults(response.data, platform, 5);
 
     console.log(`Found ${results.length} search results for ${platform}`);
     return results.slice(0, 5); // Return top 5 results
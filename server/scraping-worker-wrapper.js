@@ -1,3 +1,6 @@
-// JavaScript wrapper to run TypeScript worker using tsx
-// Just import the TypeScript worker directly - tsx should handle it
-import('./scraping-worker.ts')
\ No newline at end of file
+// JavaScript entry point that runs the TypeScript worker in development: worker threads
+// don't inherit the tsx loader of the main thread, so register it here before importing
+import { register } from 'tsx/esm/api';
+
+register();
+await import('./scraping-worker.ts');
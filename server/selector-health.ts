@@ -0,0 +1,316 @@
+import { randomUUID } from 'crypto';
+import { getRetailers } from './retailers';
+import { storage } from './storage';
+import { notificationDispatcher } from './notification-dispatcher';
+import { renderSelectorAlertEmail } from './email-templates';
+import type { ExtractionTrace } from './product-extractor';
+import type {
+  ExtractionStrategy,
+  FieldMissRate,
+  ParseRatePoint,
+  PlatformSelectorHealth,
+  SelectorBreakageAlert,
+  SelectorField,
+  SelectorHealthReport,
+  SelectorHitRate,
+  StrategyHitRate,
+  VotedField
+} from '@shared/selector-health';
+import type { RetailerId } from '@shared/retailers';
+
+/**
+ * Selector Health Monitor
+ * Counts, per platform and in 15 minute buckets, how often each retailer selector
+ * and extraction strategy finds its field on pages that came back normally
+ * (HTTP 200, not blocked). When a platform's parse rate over the last hour drops
+ * sharply against the day before while responses are still 200, retailer markup
+ * has most likely changed and an admin alert is raised and emailed to admins.
+ */
+
+const BUCKET_MS = 15 * 60 * 1000;
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const RECENT_WINDOW_MS = 60 * 60 * 1000;
+const BASELINE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Enough normal responses for the rates to mean something
+const MIN_RECENT_RESPONSES = 10;
+const MIN_BASELINE_RESPONSES = 20;
+// Alert when the parse rate falls this far (in rate points) below a baseline that was at least MIN_HEALTHY_BASELINE
+const ALERT_DROP = 0.3;
+const MIN_HEALTHY_BASELINE = 0.6;
+// A selector counts as failing when its own hit rate fell this far
+const SELECTOR_DROP = 0.3;
+const DEGRADED_PARSE_RATE = 0.8;
+const MAX_ALERTS = 50;
+
+const SELECTOR_FIELDS: SelectorField[] = ['title', 'price', 'stockText', 'seller'];
+
+export interface SelectorHealthCheck {
+  responseCode?: number;
+  blocked: boolean;
+  outcome: 'success' | 'low_confidence' | 'failed';
+  trace?: ExtractionTrace;
+}
+
+interface HealthBucket {
+  start: number;
+  checks: number;
+  okResponses: number;
+  parsed: number;
+  lowConfidence: number;
+  selectorHits: Record<string, number>; // "field selector" -> hits
+  fieldMisses: Partial<Record<SelectorField, number>>;
+  strategyHits: Record<string, number>; // "strategy field" -> hits
+}
+
+interface WindowTotals {
+  checks: number;
+  okResponses: number;
+  parsed: number;
+  lowConfidence: number;
+  selectorHits: Map<string, number>;
+  fieldMisses: Map<SelectorField, number>;
+  strategyHits: Map<string, number>;
+}
+
+function rate(part: number, total: number): number | null {
+  return total > 0 ? Math.round((part / total) * 1000) / 1000 : null;
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+export class SelectorHealthMonitor {
+  private buckets = new Map<RetailerId, HealthBucket[]>();
+  private alerts: SelectorBreakageAlert[] = [];
+
+  recordCheck(platform: RetailerId, check: SelectorHealthCheck, now = Date.now()): void {
+    const bucket = this.currentBucket(platform, now);
+    bucket.checks++;
+
+    // Blocks and errors say nothing about the markup
+    if (check.responseCode !== 200 || check.blocked || !check.trace) return;
+
+    bucket.okResponses++;
+    if (check.outcome === 'success') bucket.parsed++;
+    if (check.outcome === 'low_confidence') bucket.lowConfidence++;
+
+    SELECTOR_FIELDS.forEach(field => {
+      const selector = check.trace!.selectors[field];
+      if (selector) {
+        const key = `${field} ${selector}`;
+        bucket.selectorHits[key] = (bucket.selectorHits[key] ?? 0) + 1;
+      } else {
+        bucket.fieldMisses[field] = (bucket.fieldMisses[field] ?? 0) + 1;
+      }
+    });
+
+    Object.entries(check.trace.strategies).forEach(([strategy, fields]) => {
+      fields?.forEach(field => {
+        const key = `${strategy} ${field}`;
+        bucket.strategyHits[key] = (bucket.strategyHits[key] ?? 0) + 1;
+      });
+    });
+
+    this.evaluate(platform, now);
+  }
+
+  private currentBucket(platform: RetailerId, now: number): HealthBucket {
+    const start = now - (now % BUCKET_MS);
+    let buckets = this.buckets.get(platform);
+    if (!buckets) {
+      buckets = [];
+      this.buckets.set(platform, buckets);
+    }
+
+    let bucket = buckets[buckets.length - 1];
+    if (!bucket || bucket.start !== start) {
+      bucket = { start, checks: 0, okResponses: 0, parsed: 0, lowConfidence: 0, selectorHits: {}, fieldMisses: {}, strategyHits: {} };
+      buckets.push(bucket);
+      while (buckets.length > 0 && buckets[0].start < now - RETENTION_MS) {
+        buckets.shift();
+      }
+    }
+    return bucket;
+  }
+
+  // Totals for buckets starting in [from, to)
+  private totals(platform: RetailerId, from: number, to: number): WindowTotals {
+    const totals: WindowTotals = {
+      checks: 0, okResponses: 0, parsed: 0, lowConfidence: 0,
+      selectorHits: new Map(), fieldMisses: new Map(), strategyHits: new Map()
+    };
+
+    (this.buckets.get(platform) ?? [])
+      .filter(bucket => bucket.start >= from && bucket.start < to)
+      .forEach(bucket => {
+        totals.checks += bucket.checks;
+        totals.okResponses += bucket.okResponses;
+        totals.parsed += bucket.parsed;
+        totals.lowConfidence += bucket.lowConfidence;
+        Object.entries(bucket.selectorHits).forEach(([key, hits]) => {
+          totals.selectorHits.set(key, (totals.selectorHits.get(key) ?? 0) + hits);
+        });
+        (Object.entries(bucket.fieldMisses) as [SelectorField, number][]).forEach(([field, misses]) => {
+          totals.fieldMisses.set(field, (totals.fieldMisses.get(field) ?? 0) + misses);
+        });
+        Object.entries(bucket.strategyHits).forEach(([key, hits]) => {
+          totals.strategyHits.set(key, (totals.strategyHits.get(key) ?? 0) + hits);
+        });
+      });
+
+    return totals;
+  }
+
+  // The last hour (including the bucket in progress) and the day before it
+  private windows(platform: RetailerId, now: number): { recent: WindowTotals; baseline: WindowTotals } {
+    const recentStart = now - (now % BUCKET_MS) - (RECENT_WINDOW_MS - BUCKET_MS);
+    return {
+      recent: this.totals(platform, recentStart, Infinity),
+      baseline: this.totals(platform, recentStart - BASELINE_WINDOW_MS, recentStart)
+    };
+  }
+
+  private failingSelectors(recent: WindowTotals, baseline: WindowTotals): string[] {
+    return Array.from(baseline.selectorHits.entries())
+      .filter(([key, hits]) => {
+        const before = hits / baseline.okResponses;
+        const after = (recent.selectorHits.get(key) ?? 0) / recent.okResponses;
+        return before - after >= SELECTOR_DROP;
+      })
+      .map(([key]) => key.replace(' ', ': '));
+  }
+
+  private activeAlert(platform: RetailerId): SelectorBreakageAlert | undefined {
+    return this.alerts.find(alert => alert.platform === platform && !alert.resolvedAt);
+  }
+
+  private evaluate(platform: RetailerId, now: number): void {
+    const { recent, baseline } = this.windows(platform, now);
+    if (recent.okResponses < MIN_RECENT_RESPONSES || baseline.okResponses < MIN_BASELINE_RESPONSES) return;
+
+    const recentRate = recent.parsed / recent.okResponses;
+    const baselineRate = baseline.parsed / baseline.okResponses;
+    const active = this.activeAlert(platform);
+
+    if (!active && baselineRate >= MIN_HEALTHY_BASELINE && baselineRate - recentRate >= ALERT_DROP) {
+      const failingSelectors = this.failingSelectors(recent, baseline);
+      const alert: SelectorBreakageAlert = {
+        id: randomUUID(),
+        platform,
+        raisedAt: new Date(now).toISOString(),
+        recentRate: Math.round(recentRate * 1000) / 1000,
+        baselineRate: Math.round(baselineRate * 1000) / 1000,
+        okResponses: recent.okResponses,
+        failingSelectors,
+        message: `${platform} parse success fell to ${percent(recentRate)} over the last hour (from ${percent(baselineRate)}) ` +
+          `while ${recent.okResponses} responses came back 200` +
+          (failingSelectors.length > 0 ? `; failing selectors: ${failingSelectors.join(', ')}` : '')
+      };
+
+      this.alerts.unshift(alert);
+      if (this.alerts.length > MAX_ALERTS) {
+        this.alerts.length = MAX_ALERTS;
+      }
+      console.warn(`[SelectorHealth] ALERT: ${alert.message}`);
+      this.notifyAdmins(alert).catch(error => {
+        console.error(`[SelectorHealth] Failed to email ${platform} alert to admins:`, error instanceof Error ? error.message : error);
+      });
+      return;
+    }
+
+    // Resolve once parsing is back within half the alert drop of the baseline
+    if (active && baselineRate - recentRate < ALERT_DROP / 2) {
+      active.resolvedAt = new Date(now).toISOString();
+      console.log(`[SelectorHealth] Resolved ${platform} alert: parse success back at ${percent(recentRate)}`);
+    }
+  }
+
+  // Email the alert to every admin who has email alerts set up
+  private async notifyAdmins(alert: SelectorBreakageAlert): Promise<void> {
+    const email = renderSelectorAlertEmail(alert);
+    const adminIds = await storage.getAdminUserIds();
+    for (const userId of adminIds) {
+      await notificationDispatcher.sendToUser(userId, email);
+    }
+  }
+
+  private platformHealth(platform: RetailerId, now: number): PlatformSelectorHealth {
+    const { recent, baseline } = this.windows(platform, now);
+    const report = this.totals(platform, now - BASELINE_WINDOW_MS, Infinity);
+
+    const selectors: SelectorHitRate[] = Array.from(report.selectorHits.entries())
+      .map(([key, hits]) => {
+        const [field, ...rest] = key.split(' ');
+        return {
+          field: field as SelectorField,
+          selector: rest.join(' '),
+          hits,
+          rate: rate(hits, report.okResponses) ?? 0,
+          previousRate: rate(baseline.selectorHits.get(key) ?? 0, baseline.okResponses)
+        };
+      })
+      .sort((a, b) => SELECTOR_FIELDS.indexOf(a.field) - SELECTOR_FIELDS.indexOf(b.field) || b.hits - a.hits);
+
+    const fieldMisses: FieldMissRate[] = SELECTOR_FIELDS.map(field => {
+      const misses = report.fieldMisses.get(field) ?? 0;
+      return { field, misses, rate: rate(misses, report.okResponses) ?? 0 };
+    });
+
+    const strategies: StrategyHitRate[] = Array.from(report.strategyHits.entries()).map(([key, hits]) => {
+      const [strategy, field] = key.split(' ');
+      return {
+        strategy: strategy as ExtractionStrategy,
+        field: field as VotedField,
+        hits,
+        rate: rate(hits, report.okResponses) ?? 0
+      };
+    });
+
+    const history: ParseRatePoint[] = (this.buckets.get(platform) ?? [])
+      .filter(bucket => bucket.start >= now - BASELINE_WINDOW_MS)
+      .map(bucket => ({
+        bucketStart: new Date(bucket.start).toISOString(),
+        okResponses: bucket.okResponses,
+        parsed: bucket.parsed,
+        rate: rate(bucket.parsed, bucket.okResponses)
+      }));
+
+    const recentParseRate = rate(recent.parsed, recent.okResponses);
+    let status: PlatformSelectorHealth['status'] = 'healthy';
+    if (this.activeAlert(platform)) {
+      status = 'broken';
+    } else if (report.okResponses === 0) {
+      status = 'no_data';
+    } else if (recentParseRate !== null && recent.okResponses >= MIN_RECENT_RESPONSES && recentParseRate < DEGRADED_PARSE_RATE) {
+      status = 'degraded';
+    }
+
+    return {
+      platform,
+      status,
+      recentParseRate,
+      baselineParseRate: rate(baseline.parsed, baseline.okResponses),
+      okResponses: report.okResponses,
+      checks: report.checks,
+      lowConfidence: report.lowConfidence,
+      selectors,
+      fieldMisses,
+      strategies,
+      history
+    };
+  }
+
+  getReport(now = Date.now()): SelectorHealthReport {
+    return {
+      generatedAt: new Date(now).toISOString(),
+      windowHours: BASELINE_WINDOW_MS / (60 * 60 * 1000),
+      platforms: getRetailers().map(adapter => this.platformHealth(adapter.id, now)),
+      alerts: [...this.alerts].sort((a, b) => Number(!!a.resolvedAt) - Number(!!b.resolvedAt))
+    };
+  }
+}
+
+// Export singleton instance
+export const selectorHealth = new SelectorHealthMonitor();
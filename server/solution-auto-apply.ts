@@ -0,0 +1,310 @@
+import { logConfigurationChange } from './antibot-logger';
+import { DEFAULT_WORKER_SOLUTION_CONFIG, type WorkerSolutionConfig } from './worker-solution-config';
+import type { SolutionSuggestionEngine } from '@shared/solution-engine';
+import type {
+  DetectionType,
+  GroupedSuggestions,
+  SolutionApplicationResult,
+  SolutionAutoApplyStatus,
+  SolutionConfigChange
+} from '@shared/solution-types';
+import type { Settings } from '@shared/schema';
+import type { RetailerId } from '@shared/retailers';
+
+/**
+ * Solution Auto-Applier
+ * Applies solutions to the scraping configuration of one user's scheduled checks,
+ * in a worker or on the main thread, measures that user's following checks on the blocked platform and rolls
+ * the change back when their success rate stays below the user's threshold.
+ * Other users' checks keep their own configuration.
+ */
+
+// The user's checks on the platform measured before a change is kept or rolled back
+const EVALUATION_CHECKS = Number(process.env.SOLUTION_EVALUATION_CHECKS) || 10;
+const MAX_LOG_ENTRIES = 200;
+
+export type AutoApplySettings = Pick<Settings,
+  'enableAutoSolutionApplication' |
+  'autoApplyOnDetection' |
+  'confirmBeforeApplying' |
+  'autoDisableIneffectiveSolutions' |
+  'solutionSuccessThreshold'
+>;
+
+// The block a solution is applied against
+export interface SolutionContext {
+  platform: RetailerId;
+  detectionType: DetectionType;
+}
+
+interface SolutionTrial extends SolutionContext {
+  userId: string;
+  solutionId: string;
+  source: SolutionConfigChange['source'];
+  engine: SolutionSuggestionEngine;
+  previous: WorkerSolutionConfig; // the user's values before the change, restored on rollback
+  threshold: number;
+  autoDisable: boolean;
+  checks: number;
+  successes: number;
+}
+
+type LoggedChange = SolutionConfigChange & { userId: string };
+
+/**
+ * Worker settings a solution changes, or null for solutions the workers can't
+ * apply themselves (proxies, backoff, anything needing the user)
+ */
+export function workerConfigForSolution(solutionId: string, parameters: Record<string, any>): WorkerSolutionConfig | null {
+  switch (solutionId) {
+    case 'rotate_user_agents':
+      return {
+        enableUserAgentRotation: true,
+        userAgentRotationFrequency: 'per_request',
+        userAgentTypes: parameters.includeMobile
+          ? (parameters.includeDesktop === false ? 'mobile_only' : 'desktop_mobile')
+          : 'desktop_only'
+      };
+    case 'enable_mobile_agents':
+      return { enableUserAgentRotation: true, userAgentTypes: 'desktop_mobile' };
+    case 'increase_delays':
+      return {
+        enableRequestDelays: true,
+        baseRequestDelay: Math.max(1, Math.round((parameters.maxDelay ?? 8000) / 1000))
+      };
+    case 'random_timing_jitter':
+      return { enableRequestDelays: true, requestDelayRandomization: 'high' };
+    case 'randomize_headers':
+      return {
+        enableHeaderRandomization: true,
+        acceptLanguagePool: parameters.rotateAcceptLanguage === false ? 'en_only' : 'en_variants'
+      };
+    case 'accept_language_variation':
+      return { enableHeaderRandomization: true, acceptLanguagePool: 'global' };
+    // custom_browser_headers: every check already sends its profile's full browser headers
+    default:
+      return null;
+  }
+}
+
+function changesWorkerConfig(config: WorkerSolutionConfig | null, current: Required<WorkerSolutionConfig>): config is WorkerSolutionConfig {
+  if (!config) return false;
+  return (Object.keys(config) as (keyof WorkerSolutionConfig)[]).some(key => config[key] !== current[key]);
+}
+
+export class SolutionAutoApplier {
+  // Scraping settings changed by each user's solutions, applied to that user's scheduled checks
+  private configs = new Map<string, WorkerSolutionConfig>();
+  // One change is measured at a time per user
+  private trials = new Map<string, SolutionTrial>();
+  private applying = new Set<string>();
+  private disabled = new Map<string, Set<string>>();
+  private changes: LoggedChange[] = [];
+
+  /**
+   * Apply the most relevant eligible suggestion for a detection, or log it as
+   * awaiting confirmation when the user wants to confirm changes first
+   */
+  async onDetection(
+    userId: string,
+    engine: SolutionSuggestionEngine,
+    context: SolutionContext,
+    suggestions: GroupedSuggestions,
+    settings: AutoApplySettings
+  ): Promise<SolutionApplicationResult | null> {
+    if (!settings.enableAutoSolutionApplication || !settings.autoApplyOnDetection) return null;
+    if (this.trials.has(userId) || this.applying.has(userId)) return null;
+
+    const current = this.effectiveConfig(userId);
+    const disabled = this.disabled.get(userId);
+    const candidate = [...suggestions.immediate, ...suggestions.recommended, ...suggestions.optional, ...suggestions.advanced]
+      .sort((a, b) => b.relevanceScore - a.relevanceScore)
+      .find(s =>
+        s.canApplyNow &&
+        s.userConfig.autoApply &&
+        s.solution.canAutoApply &&
+        !disabled?.has(s.solution.id) &&
+        changesWorkerConfig(workerConfigForSolution(s.solution.id, s.userConfig.parameters), current)
+      );
+    if (!candidate) return null;
+
+    const solutionId = candidate.solution.id;
+    if (settings.confirmBeforeApplying) {
+      const last = this.changes.find(change => change.userId === userId);
+      if (last?.action !== 'awaiting_confirmation' || last.solutionId !== solutionId || last.platform !== context.platform) {
+        this.record(userId, {
+          solutionId,
+          ...context,
+          action: 'awaiting_confirmation',
+          source: 'auto',
+          config: workerConfigForSolution(solutionId, candidate.userConfig.parameters) ?? {},
+          message: `${candidate.solution.name} is ready to apply once confirmed`,
+          timestamp: Date.now()
+        });
+      }
+      return null;
+    }
+
+    this.applying.add(userId);
+    try {
+      return await this.apply(userId, engine, solutionId, context, settings, 'auto');
+    } finally {
+      this.applying.delete(userId);
+    }
+  }
+
+  // Scraping settings for the user's scheduled checks, on top of the defaults
+  getWorkerConfig(userId: string): WorkerSolutionConfig | undefined {
+    return this.configs.get(userId);
+  }
+
+  private effectiveConfig(userId: string): Required<WorkerSolutionConfig> {
+    return { ...DEFAULT_WORKER_SOLUTION_CONFIG, ...this.configs.get(userId) };
+  }
+
+  // Change the user's worker settings; returns the previous values of the changed keys
+  private updateConfig(userId: string, config: WorkerSolutionConfig): WorkerSolutionConfig {
+    const current = this.effectiveConfig(userId);
+    const previous: WorkerSolutionConfig = {};
+    for (const key of Object.keys(config) as (keyof WorkerSolutionConfig)[]) {
+      (previous as Record<string, unknown>)[key] = current[key];
+    }
+    this.configs.set(userId, { ...this.configs.get(userId), ...config });
+    return previous;
+  }
+
+  /**
+   * Apply a solution through the engine and to the user's scraping settings.
+   * Solutions the scrapers can't apply only update the engine's configuration.
+   */
+  async apply(
+    userId: string,
+    engine: SolutionSuggestionEngine,
+    solutionId: string,
+    context: SolutionContext,
+    settings: AutoApplySettings,
+    source: SolutionConfigChange['source'],
+    parameters?: Record<string, any>
+  ): Promise<SolutionApplicationResult> {
+    const result = await engine.applySolution(solutionId, parameters);
+    if (!result.success) return result;
+
+    const config = workerConfigForSolution(solutionId, result.parameters);
+    if (!config) return result;
+
+    // A manual change ends the current measurement; its checks no longer describe that solution alone
+    const running = this.trials.get(userId);
+    if (running) {
+      this.conclude(running, false, `Superseded by ${solutionId} before measurement finished`);
+    }
+
+    const previous = this.updateConfig(userId, config);
+    this.trials.set(userId, {
+      userId,
+      solutionId,
+      ...context,
+      source,
+      engine,
+      previous,
+      threshold: settings.solutionSuccessThreshold,
+      autoDisable: settings.autoDisableIneffectiveSolutions,
+      checks: 0,
+      successes: 0
+    });
+
+    this.record(userId, {
+      solutionId,
+      ...context,
+      action: 'applied',
+      source,
+      config,
+      message: `${result.message}; measuring the next ${EVALUATION_CHECKS} ${context.platform} checks`,
+      timestamp: Date.now()
+    });
+
+    return result;
+  }
+
+  /**
+   * Count one of the user's scheduled checks toward their running measurement. Once
+   * enough checks on the platform are in, the change is kept or rolled back.
+   */
+  recordCheck(userId: string, platform: RetailerId, blocked: boolean, responseTime?: number): void {
+    const trial = this.trials.get(userId);
+    if (!trial || trial.platform !== platform) return;
+
+    trial.checks++;
+    if (!blocked) trial.successes++;
+    trial.engine.updateEffectiveness(trial.solutionId, trial.detectionType, platform, !blocked, responseTime);
+
+    if (trial.checks < EVALUATION_CHECKS) return;
+
+    const successRate = Math.round((trial.successes / trial.checks) * 100);
+    if (successRate < trial.threshold) {
+      this.conclude(trial, true, `${successRate}% of checks succeeded, below the ${trial.threshold}% threshold`);
+    } else {
+      this.conclude(trial, false, `${successRate}% of checks succeeded`);
+    }
+  }
+
+  private conclude(trial: SolutionTrial, rollBack: boolean, message: string): void {
+    this.trials.delete(trial.userId);
+
+    if (rollBack) {
+      this.updateConfig(trial.userId, trial.previous);
+      if (trial.autoDisable) {
+        let disabled = this.disabled.get(trial.userId);
+        if (!disabled) {
+          disabled = new Set();
+          this.disabled.set(trial.userId, disabled);
+        }
+        disabled.add(trial.solutionId);
+      }
+    }
+
+    this.record(trial.userId, {
+      solutionId: trial.solutionId,
+      platform: trial.platform,
+      detectionType: trial.detectionType,
+      action: rollBack ? 'rolled_back' : 'kept',
+      source: trial.source,
+      config: rollBack ? trial.previous : {},
+      checks: trial.checks,
+      successRate: trial.checks > 0 ? Math.round((trial.successes / trial.checks) * 100) : undefined,
+      message: rollBack && trial.autoDisable ? `${message}; disabled for automatic application` : message,
+      timestamp: Date.now()
+    });
+  }
+
+  // Every change goes to the anti-bot configuration log as well as the in-memory history
+  private record(userId: string, change: SolutionConfigChange): void {
+    this.changes.unshift({ ...change, userId });
+    if (this.changes.length > MAX_LOG_ENTRIES) {
+      this.changes.length = MAX_LOG_ENTRIES;
+    }
+
+    console.log(`[Solutions] ${change.solutionId} ${change.action.replace('_', ' ')} on ${change.platform} for user ${userId}: ${change.message}`);
+    logConfigurationChange(`Solution ${change.action}: ${change.solutionId}`, { userId, ...change });
+  }
+
+  getStatus(userId: string): SolutionAutoApplyStatus {
+    const trial = this.trials.get(userId) ?? null;
+    return {
+      activeTrial: trial && {
+        solutionId: trial.solutionId,
+        platform: trial.platform,
+        checks: trial.checks,
+        successes: trial.successes,
+        requiredChecks: EVALUATION_CHECKS,
+        threshold: trial.threshold
+      },
+      disabledSolutions: Array.from(this.disabled.get(userId) ?? []),
+      changes: this.changes
+        .filter(change => change.userId === userId)
+        .map(({ userId: _userId, ...change }) => change)
+    };
+  }
+}
+
+// Export singleton instance
+export const solutionAutoApplier = new SolutionAutoApplier();
@@ -0,0 +1,279 @@
+import { storage } from './storage';
+import { solutionAutoApplier, type SolutionContext } from './solution-auto-apply';
+import { cookieStore } from './cookie-store';
+import { SolutionSuggestionEngine, type SolutionEngineStore } from '@shared/solution-engine';
+import { getSolutionById } from '@shared/solution-definitions';
+import type {
+  AntiBotDetectionResult,
+  DetectionType,
+  SolutionApplicationResult,
+  SolutionAutoApplyStatus,
+  SolutionConfig,
+  SolutionEffectiveness,
+  SolutionSuggestionSnapshot
+} from '@shared/solution-types';
+import type { Settings, SolutionConfigRecord, SolutionEffectivenessHistoryRecord, SolutionEffectivenessRecord } from '@shared/schema';
+import type { RetailerId } from '@shared/retailers';
+import type { WorkerSolutionConfig } from './worker-solution-config';
+
+/**
+ * Solution Suggestion Service
+ * Feeds anti-bot detections from scheduled checks (worker or main thread) into a per-user
+ * SolutionSuggestionEngine and keeps the latest grouped suggestions per platform.
+ * Suggestions the user allows to be applied automatically are handed to the
+ * auto-applier, which applies them to the user's scheduled checks. Effectiveness data
+ * and solution configs are loaded from the database at startup and written
+ * through as they change.
+ */
+
+// Trends compare the last week of daily buckets with the week before
+const TREND_WINDOW_DAYS = 7;
+const TREND_MIN_ATTEMPTS = 5;
+const TREND_MIN_CHANGE = 10; // percentage points
+
+function historyKey(row: { userId: string; solutionId: string; detectionType: string; platform: string }): string {
+  return `${row.userId}:${row.solutionId}:${row.detectionType}:${row.platform}`;
+}
+
+function recentTrend(buckets: SolutionEffectivenessHistoryRecord[], now: number): SolutionEffectiveness['recentTrend'] {
+  const windowStart = now - TREND_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  const rate = (rows: SolutionEffectivenessHistoryRecord[]) => {
+    const successes = rows.reduce((sum, row) => sum + row.successCount, 0);
+    const attempts = rows.reduce((sum, row) => sum + row.successCount + row.failureCount, 0);
+    return attempts >= TREND_MIN_ATTEMPTS ? (successes / attempts) * 100 : null;
+  };
+
+  const recent = rate(buckets.filter(row => row.bucketStart.getTime() >= windowStart));
+  const earlier = rate(buckets.filter(row => row.bucketStart.getTime() < windowStart));
+  if (recent === null || earlier === null) return 'stable';
+  if (recent - earlier >= TREND_MIN_CHANGE) return 'improving';
+  if (earlier - recent >= TREND_MIN_CHANGE) return 'declining';
+  return 'stable';
+}
+
+function toEffectiveness(row: SolutionEffectivenessRecord, history: SolutionEffectivenessHistoryRecord[], now: number): SolutionEffectiveness {
+  const totalAttempts = row.successCount + row.failureCount;
+  return {
+    solutionId: row.solutionId,
+    detectionType: row.detectionType as DetectionType,
+    platform: row.platform as RetailerId,
+    successCount: row.successCount,
+    failureCount: row.failureCount,
+    totalAttempts,
+    successRate: totalAttempts > 0 ? (row.successCount / totalAttempts) * 100 : 50,
+    lastUpdated: row.updatedAt.getTime(),
+    averageResponseTime: row.responseTimeSamples > 0 ? row.responseTimeTotal / row.responseTimeSamples : undefined,
+    recentTrend: recentTrend(history, now)
+  };
+}
+
+function toSolutionConfig(row: SolutionConfigRecord): SolutionConfig {
+  return {
+    enabled: row.enabled,
+    autoApply: row.autoApply,
+    parameters: row.parameters,
+    lastApplied: row.lastAppliedAt?.getTime(),
+    successCount: row.successCount,
+    failureCount: row.failureCount,
+    effectiveness: row.effectiveness
+  };
+}
+
+export class SolutionSuggestionService {
+  // Each user's engine holds their solution configs, seeded from their settings
+  private engines = new Map<string, SolutionSuggestionEngine>();
+  private snapshots = new Map<string, Map<RetailerId, SolutionSuggestionSnapshot>>();
+  private loading: Promise<void> | null = null;
+
+  // Writes go out in the background; a failed write only costs one sample
+  private createEngine(userId: string): SolutionSuggestionEngine {
+    const store: SolutionEngineStore = {
+      recordOutcome: outcome => {
+        storage.recordSolutionOutcome({ userId, ...outcome, at: new Date() }).catch(error => {
+          console.error(`[Solutions] Failed to save ${outcome.solutionId} outcome for user ${userId}:`, error);
+        });
+      },
+      saveConfig: (solutionId, config) => {
+        storage.saveSolutionConfig(userId, solutionId, config).catch(error => {
+          console.error(`[Solutions] Failed to save ${solutionId} config for user ${userId}:`, error);
+        });
+      }
+    };
+
+    const engine = new SolutionSuggestionEngine(store);
+    this.engines.set(userId, engine);
+    return engine;
+  }
+
+  /**
+   * Load every user's persisted effectiveness data and solution configs into
+   * their engines. Called once at startup.
+   */
+  loadPersisted(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load().catch(error => {
+        console.error('[Solutions] Failed to load solution effectiveness data:', error);
+      });
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    const now = Date.now();
+    const [effectivenessRows, historyRows, configRows] = await Promise.all([
+      storage.getSolutionEffectiveness(),
+      storage.getSolutionEffectivenessHistory(new Date(now - 2 * TREND_WINDOW_DAYS * 24 * 60 * 60 * 1000)),
+      storage.getSolutionConfigs()
+    ]);
+
+    const history = new Map<string, SolutionEffectivenessHistoryRecord[]>();
+    historyRows.forEach(row => {
+      const key = historyKey(row);
+      history.set(key, [...(history.get(key) ?? []), row]);
+    });
+
+    const byUser = new Map<string, { effectiveness: SolutionEffectiveness[]; configs: Record<string, SolutionConfig> }>();
+    const forUser = (userId: string) => {
+      let entry = byUser.get(userId);
+      if (!entry) {
+        entry = { effectiveness: [], configs: {} };
+        byUser.set(userId, entry);
+      }
+      return entry;
+    };
+
+    effectivenessRows.forEach(row => {
+      forUser(row.userId).effectiveness.push(toEffectiveness(row, history.get(historyKey(row)) ?? [], now));
+    });
+    configRows.forEach(row => {
+      forUser(row.userId).configs[row.solutionId] = toSolutionConfig(row);
+    });
+
+    byUser.forEach((data, userId) => {
+      const engine = this.engines.get(userId) ?? this.createEngine(userId);
+      engine.load(data.effectiveness, data.configs);
+    });
+
+    console.log(`[Solutions] Loaded ${effectivenessRows.length} effectiveness records and ${configRows.length} solution configs for ${byUser.size} users`);
+  }
+
+  // Engine for a user, refreshed from their current settings
+  private async getEngine(userId: string): Promise<{ engine: SolutionSuggestionEngine; settings: Settings }> {
+    if (this.loading) {
+      await this.loading;
+    }
+
+    const engine = this.engines.get(userId) ?? this.createEngine(userId);
+
+    const settings = await storage.getSettingsOrDefaults(userId);
+    engine.updateFromSettings(settings);
+    return { engine, settings };
+  }
+
+  /**
+   * Generate and store suggestions for a blocked request. Returns null when the
+   * detection isn't a block or the user turned suggestions off.
+   */
+  async recordDetection(userId: string, detection: AntiBotDetectionResult, productId?: string): Promise<SolutionSuggestionSnapshot | null> {
+    if (!detection.isBlocked || detection.detectionType === 'none') {
+      return null;
+    }
+
+    const { engine, settings } = await this.getEngine(userId);
+    if (!settings.enableSolutionSuggestions) {
+      return null;
+    }
+
+    // Raw page content is only useful to the detector; don't keep it in memory per user
+    const { rawResponse, ...summary } = detection;
+    const snapshot: SolutionSuggestionSnapshot = {
+      platform: detection.platform,
+      productId,
+      detection: summary,
+      suggestions: engine.generateSuggestions(detection),
+      createdAt: Date.now()
+    };
+
+    let userSnapshots = this.snapshots.get(userId);
+    if (!userSnapshots) {
+      userSnapshots = new Map();
+      this.snapshots.set(userId, userSnapshots);
+    }
+    userSnapshots.set(detection.platform, snapshot);
+
+    const count = Object.values(snapshot.suggestions).reduce((sum, group) => sum + group.length, 0);
+    console.log(`[Solutions] ${count} suggestions for ${detection.detectionType} on ${detection.platform} (user ${userId})`);
+
+    await solutionAutoApplier.onDetection(userId, engine, {
+      platform: detection.platform,
+      detectionType: detection.detectionType
+    }, snapshot.suggestions, settings);
+
+    return snapshot;
+  }
+
+  // Latest suggestions for each platform, newest first
+  getSuggestions(userId: string): SolutionSuggestionSnapshot[] {
+    const userSnapshots = this.snapshots.get(userId);
+    if (!userSnapshots) return [];
+    return Array.from(userSnapshots.values()).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const settings = await storage.getSettingsOrDefaults(userId);
+    return settings.enableSolutionSuggestions;
+  }
+
+  // Outcome of one of the user's scheduled checks, worker or main thread, used to measure the solution being evaluated for them
+  recordCheck(userId: string, platform: RetailerId, blocked: boolean, responseTime?: number): void {
+    solutionAutoApplier.recordCheck(userId, platform, blocked, responseTime);
+  }
+
+  // Scraping settings the user's applied solutions changed, applied to their scheduled checks on either path
+  getWorkerConfig(userId: string): WorkerSolutionConfig | undefined {
+    return solutionAutoApplier.getWorkerConfig(userId);
+  }
+
+  getAutoApplyStatus(userId: string): SolutionAutoApplyStatus {
+    return solutionAutoApplier.getStatus(userId);
+  }
+
+  // Most recent block the solution was suggested for
+  private findContext(userId: string, solutionId: string): SolutionContext | undefined {
+    const snapshot = this.getSuggestions(userId).find(({ suggestions }) =>
+      [...suggestions.immediate, ...suggestions.recommended, ...suggestions.optional, ...suggestions.advanced]
+        .some(suggestion => suggestion.solution.id === solutionId)
+    );
+    return snapshot && { platform: snapshot.platform, detectionType: snapshot.detection.detectionType };
+  }
+
+  /**
+   * Apply a solution to the user's engine, and to their scheduled checks when it
+   * was suggested for a block. forceApply enables a solution that is switched
+   * off in the user's configuration before applying it.
+   */
+  async applySolution(userId: string, solutionId: string, parameters?: Record<string, any>, forceApply = false): Promise<SolutionApplicationResult | null> {
+    if (!getSolutionById(solutionId)) {
+      return null;
+    }
+
+    const { engine, settings } = await this.getEngine(userId);
+    if (forceApply && !engine.getSolutionConfig(solutionId)?.enabled) {
+      engine.updateSolutionConfig(solutionId, { enabled: true });
+    }
+
+    const context = this.findContext(userId, solutionId);
+    const result = context
+      ? await solutionAutoApplier.apply(userId, engine, solutionId, context, settings, 'manual', parameters)
+      : await engine.applySolution(solutionId, parameters);
+    // Unlike the other solutions this acts on stored state rather than scraper configuration
+    if (result.success && solutionId === 'clear_cache_cookies') {
+      await cookieStore.clear(userId);
+    }
+    console.log(`[Solutions] ${result.success ? 'Applied' : 'Could not apply'} ${solutionId} for user ${userId}: ${result.message}`);
+    return result;
+  }
+}
+
+// Export singleton instance
+export const solutionSuggestions = new SolutionSuggestionService();
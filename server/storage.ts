@@ -20,6 +20,23 @@ import {
   type InsertUserAccess,
   type RefreshToken,
   type InsertRefreshToken,
+  type Product,
+  type InsertProduct,
+  type UpdateProduct,
+  type ProductSchedule,
+  type ScraperCookieJar,
+  type PriceHistory,
+  type InsertPriceHistory,
+  type PriceHistoryBucket,
+  type HistoryBucket,
+  type UserNotification,
+  type InsertUserNotification,
+  type NotificationQuery,
+  type EmailDelivery,
+  type InsertEmailDelivery,
+  type SolutionEffectivenessRecord,
+  type SolutionEffectivenessHistoryRecord,
+  type SolutionConfigRecord,
   type FullUserProfile,
   type SubscriptionSummary,
   type UpdateProfileRequest,
@@ -35,12 +52,95 @@ import {
   subscriptions,
   billingInfo,
   userAccess,
-  refreshTokens
+  refreshTokens,
+  products,
+  productSchedules,
+  scraperCookieJars,
+  priceHistory,
+  notifications,
+  emailDeliveries,
+  solutionEffectiveness,
+  solutionEffectivenessHistory,
+  solutionConfigs
 } from "@shared/schema";
+import type { SolutionConfig } from "@shared/solution-types";
 import { db } from "./db";
-import { eq, and, or, lt, gt, isNull, isNotNull } from "drizzle-orm";
+import { eq, and, or, lt, gt, gte, lte, desc, isNull, isNotNull, sql, getTableColumns, is, SQL } from "drizzle-orm";
 import { encryptSensitiveData, decryptSensitiveData } from "./crypto";
 
+// Owner of the single settings row shared by everyone before settings were per-user
+export const LEGACY_SETTINGS_USER_ID = "default-user";
+
+// Account credentials that must not be copied from the legacy row to more than one user
+const LEGACY_CREDENTIAL_RESET: UpdateSettings = {
+  enableEmail: false,
+  gmailEmail: "",
+  gmailAppPassword: "",
+  enableProxy: false,
+  proxyUrl: "",
+  proxyUsername: "",
+  proxyPassword: "",
+  enableProxyRotation: false,
+  proxyRotationUrls: "",
+};
+
+// Settings of a user without a settings row: the column defaults, never stored
+function defaultSettings(userId: string): Settings {
+  const defaults: Record<string, unknown> = {};
+  for (const [key, column] of Object.entries(getTableColumns(settings))) {
+    if (column.default !== undefined && !is(column.default, SQL)) {
+      defaults[key] = column.default;
+    }
+  }
+  return { ...defaults, id: "", userId, createdAt: null, updatedAt: null } as Settings;
+}
+
+// Latest scraped state written back by the monitoring scheduler
+export interface ProductObservation {
+  currentPrice?: number;
+  previousPrice?: number;
+  currency?: string;
+  status?: string;
+  seller?: string;
+  lastChecked: Date;
+}
+
+// Scheduler state saved whenever a product's next check is scheduled
+export interface ProductScheduleState {
+  interval: number;
+  backoffDelay: number;
+  consecutiveErrors: number;
+  nextRunAt: Date;
+}
+
+// A product the scheduler should be checking, with its saved schedule if it has one
+export interface MonitoredProductSchedule {
+  product: Product;
+  schedule: ProductSchedule | null;
+}
+
+// A scraper cookie jar as saved by the cookie store; cookies arrive already encrypted
+export interface ScraperCookieJarState {
+  userId: string;
+  platform: string;
+  identity: string;
+  proxyId: string | null;
+  profileId: string;
+  cookies: string;
+  expiresAt: Date;
+}
+
+// One measured check of a solution, written through by the suggestion engine
+export interface SolutionOutcome {
+  userId: string;
+  solutionId: string;
+  detectionType: string;
+  platform: string;
+  success: boolean;
+  responseTime?: number;
+  at: Date;
+}
+
 // Storage interface supporting all new operations
 export interface IStorage {
   // User operations (required for Replit Auth)
@@ -55,6 +155,8 @@ export interface IStorage {
   
   // Settings operations
   getSettings(userId: string): Promise<Settings | undefined>;
+  getOrCreateSettings(userId: string): Promise<Settings>;
+  getSettingsOrDefaults(userId: string): Promise<Settings>;
   createSettings(settings: InsertSettings): Promise<Settings>;
   updateSettings(userId: string, settings: UpdateSettings): Promise<Settings>;
   
@@ -67,6 +169,7 @@ export interface IStorage {
   getAdminUser(userId: string): Promise<AdminUser | undefined>;
   createAdminUser(adminUser: InsertAdminUser): Promise<AdminUser>;
   isUserAdmin(userId: string): Promise<boolean>;
+  getAdminUserIds(): Promise<string[]>;
   
   // Subscription operations
   getSubscriptionPlans(): Promise<SubscriptionPlan[]>;
@@ -92,6 +195,50 @@ export interface IStorage {
   revokeAllRefreshTokens(userId: string): Promise<void>;
   cleanupExpiredTokens(): Promise<number>;
   
+  // Monitored product operations
+  getProducts(userId: string): Promise<Product[]>;
+  getProduct(userId: string, productId: string): Promise<Product | undefined>;
+  createProduct(userId: string, product: InsertProduct): Promise<Product>;
+  updateProduct(userId: string, productId: string, updates: UpdateProduct): Promise<Product | undefined>;
+  deleteProduct(userId: string, productId: string): Promise<boolean>;
+  updateProductObservation(productId: string, observation: ProductObservation): Promise<void>;
+  recordProductAlert(productId: string, alertedAt: Date): Promise<void>;
+  getMonitoredProductSchedules(): Promise<MonitoredProductSchedule[]>;
+  saveProductSchedule(productId: string, state: ProductScheduleState): Promise<void>;
+  deleteProductSchedule(productId: string): Promise<void>;
+  
+  // Scraper cookie jar operations
+  getScraperCookieJars(): Promise<ScraperCookieJar[]>;
+  saveScraperCookieJar(jar: ScraperCookieJarState): Promise<void>;
+  deleteScraperCookieJars(userId: string): Promise<void>;
+  deleteExpiredScraperCookieJars(now: Date): Promise<number>;
+  
+  // Price history operations
+  addPriceHistory(entry: InsertPriceHistory): Promise<PriceHistory>;
+  getPriceHistory(productId: string, from: Date, to: Date, limit?: number): Promise<PriceHistory[]>;
+  getPriceHistoryBuckets(productId: string, from: Date, to: Date, bucket: HistoryBucket): Promise<PriceHistoryBucket[]>;
+  getLowestPrice(productId: string, from: Date, to: Date): Promise<number | null>;
+  
+  // Notification operations
+  createNotification(notification: InsertUserNotification): Promise<UserNotification>;
+  getNotifications(userId: string, query: NotificationQuery): Promise<{ notifications: UserNotification[]; total: number }>;
+  getUnreadNotificationCount(userId: string): Promise<number>;
+  markNotificationRead(userId: string, notificationId: string): Promise<UserNotification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<number>;
+  
+  // Email delivery operations
+  createEmailDelivery(delivery: InsertEmailDelivery): Promise<EmailDelivery>;
+  updateEmailDelivery(deliveryId: string, updates: Partial<Pick<EmailDelivery, 'status' | 'attempts' | 'lastError' | 'nextAttemptAt' | 'sentAt'>>): Promise<EmailDelivery | undefined>;
+  getDueEmailDeliveries(now: Date, limit?: number): Promise<EmailDelivery[]>;
+  getEmailDeliveries(userId: string, limit?: number): Promise<EmailDelivery[]>;
+
+  // Solution effectiveness operations
+  getSolutionEffectiveness(): Promise<SolutionEffectivenessRecord[]>;
+  getSolutionEffectivenessHistory(from: Date): Promise<SolutionEffectivenessHistoryRecord[]>;
+  recordSolutionOutcome(outcome: SolutionOutcome): Promise<void>;
+  getSolutionConfigs(): Promise<SolutionConfigRecord[]>;
+  saveSolutionConfig(userId: string, solutionId: string, config: SolutionConfig): Promise<void>;
+  
   // Performance monitoring
   getStats(): Promise<{ users: number; settings: number; subscriptions: number; memoryUsage: string }>;
   
@@ -229,6 +376,37 @@ export class DatabaseStorage implements IStorage {
     return undefined;
   }
 
+  /**
+   * Settings for a user, created on first access by the user's own settings
+   * requests. New rows start from the legacy shared row so existing preferences
+   * carry over, but never its credentials (mail account, proxies).
+   */
+  async getOrCreateSettings(userId: string): Promise<Settings> {
+    const existing = await this.getSettings(userId);
+    if (existing) {
+      return existing;
+    }
+
+    const legacy = userId !== LEGACY_SETTINGS_USER_ID ? await this.getSettings(LEGACY_SETTINGS_USER_ID) : undefined;
+    const { id, userId: _legacyUserId, createdAt, updatedAt, ...preferences } = legacy ?? {};
+
+    try {
+      return await this.createSettings({ ...preferences, ...(legacy ? LEGACY_CREDENTIAL_RESET : {}), userId });
+    } catch (error) {
+      // A concurrent request created the row first (settings_user_id_unique)
+      const raced = await this.getSettings(userId);
+      if (raced) {
+        return raced;
+      }
+      throw error;
+    }
+  }
+
+  // Settings for background and read-only paths: a user without a row gets the defaults, nothing is created
+  async getSettingsOrDefaults(userId: string): Promise<Settings> {
+    return (await this.getSettings(userId)) ?? defaultSettings(userId);
+  }
+
   async createSettings(insertSettings: InsertSettings): Promise<Settings> {
     // Encrypt sensitive fields before storing
     const encryptedSettings = {
@@ -332,6 +510,11 @@ export class DatabaseStorage implements IStorage {
     return !!admin;
   }
 
+  async getAdminUserIds(): Promise<string[]> {
+    const admins = await db.select({ userId: adminUsers.userId }).from(adminUsers);
+    return admins.map(admin => admin.userId);
+  }
+
   // Subscription operations
   async getSubscriptionPlans(): Promise<SubscriptionPlan[]> {
     return await db.select().from(subscriptionPlans).where(eq(subscriptionPlans.isActive, true));
@@ -381,6 +564,358 @@ export class DatabaseStorage implements IStorage {
     return updatedBilling;
   }
 
+  // Monitored product operations
+  async getProducts(userId: string): Promise<Product[]> {
+    return await db.select().from(products).where(eq(products.userId, userId)).orderBy(products.createdAt);
+  }
+
+  async getProduct(userId: string, productId: string): Promise<Product | undefined> {
+    const [product] = await db
+      .select()
+      .from(products)
+      .where(and(eq(products.id, productId), eq(products.userId, userId)));
+    return product;
+  }
+
+  async createProduct(userId: string, insertProduct: InsertProduct): Promise<Product> {
+    const [product] = await db.insert(products).values({ ...insertProduct, userId }).returning();
+    return product;
+  }
+
+  async updateProduct(userId: string, productId: string, updates: UpdateProduct): Promise<Product | undefined> {
+    const [product] = await db
+      .update(products)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(products.id, productId), eq(products.userId, userId)))
+      .returning();
+    return product;
+  }
+
+  async deleteProduct(userId: string, productId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(products)
+      .where(and(eq(products.id, productId), eq(products.userId, userId)))
+      .returning({ id: products.id });
+    return deleted.length > 0;
+  }
+
+  async updateProductObservation(productId: string, observation: ProductObservation): Promise<void> {
+    // Decimal columns are stored as strings by drizzle
+    await db
+      .update(products)
+      .set({
+        currentPrice: observation.currentPrice?.toFixed(2),
+        previousPrice: observation.previousPrice?.toFixed(2),
+        currency: observation.currency,
+        status: observation.status,
+        seller: observation.seller,
+        lastChecked: observation.lastChecked,
+        updatedAt: new Date(),
+      })
+      .where(eq(products.id, productId));
+  }
+
+  async recordProductAlert(productId: string, alertedAt: Date): Promise<void> {
+    await db
+      .update(products)
+      .set({ lastAlertedAt: alertedAt })
+      .where(eq(products.id, productId));
+  }
+
+  async getMonitoredProductSchedules(): Promise<MonitoredProductSchedule[]> {
+    return await db
+      .select({ product: products, schedule: productSchedules })
+      .from(products)
+      .leftJoin(productSchedules, eq(productSchedules.productId, products.id))
+      .where(eq(products.isMonitoring, true));
+  }
+
+  async saveProductSchedule(productId: string, state: ProductScheduleState): Promise<void> {
+    const values = { ...state, updatedAt: new Date() };
+    await db
+      .insert(productSchedules)
+      .values({ productId, ...values })
+      .onConflictDoUpdate({
+        target: productSchedules.productId,
+        set: values,
+      });
+  }
+
+  async deleteProductSchedule(productId: string): Promise<void> {
+    await db.delete(productSchedules).where(eq(productSchedules.productId, productId));
+  }
+
+  // Scraper cookie jar operations
+  async getScraperCookieJars(): Promise<ScraperCookieJar[]> {
+    return await db.select().from(scraperCookieJars);
+  }
+
+  async saveScraperCookieJar(jar: ScraperCookieJarState): Promise<void> {
+    const values = { proxyId: jar.proxyId, profileId: jar.profileId, cookies: jar.cookies, expiresAt: jar.expiresAt, updatedAt: new Date() };
+    await db
+      .insert(scraperCookieJars)
+      .values({ userId: jar.userId, platform: jar.platform, identity: jar.identity, ...values })
+      .onConflictDoUpdate({
+        target: [scraperCookieJars.userId, scraperCookieJars.platform, scraperCookieJars.identity],
+        set: values,
+      });
+  }
+
+  async deleteScraperCookieJars(userId: string): Promise<void> {
+    await db.delete(scraperCookieJars).where(eq(scraperCookieJars.userId, userId));
+  }
+
+  async deleteExpiredScraperCookieJars(now: Date): Promise<number> {
+    const result = await db
+      .delete(scraperCookieJars)
+      .where(lt(scraperCookieJars.expiresAt, now));
+    return result.rowCount ?? 0;
+  }
+
+  // Price history operations
+  async addPriceHistory(entry: InsertPriceHistory): Promise<PriceHistory> {
+    const [record] = await db.insert(priceHistory).values(entry).returning();
+    return record;
+  }
+
+  async getPriceHistory(productId: string, from: Date, to: Date, limit = 100): Promise<PriceHistory[]> {
+    return await db
+      .select()
+      .from(priceHistory)
+      .where(and(
+        eq(priceHistory.productId, productId),
+        gte(priceHistory.checkedAt, from),
+        lte(priceHistory.checkedAt, to)
+      ))
+      .orderBy(desc(priceHistory.checkedAt))
+      .limit(limit);
+  }
+
+  async getPriceHistoryBuckets(productId: string, from: Date, to: Date, bucket: HistoryBucket): Promise<PriceHistoryBucket[]> {
+    // bucket is validated as 'hour' | 'day'; inline it so GROUP BY matches the selected expression
+    const bucketStart = sql<string>`date_trunc('${sql.raw(bucket)}', ${priceHistory.checkedAt})`;
+
+    const rows = await db
+      .select({
+        bucketStart,
+        minPrice: sql<string | null>`min(${priceHistory.price})`,
+        maxPrice: sql<string | null>`max(${priceHistory.price})`,
+        avgPrice: sql<string | null>`avg(${priceHistory.price})`,
+        checks: sql<number>`count(*)::int`,
+        inStockChecks: sql<number>`(count(*) filter (where ${priceHistory.status} in ('in-stock', 'low-stock')))::int`,
+        failedChecks: sql<number>`(count(*) filter (where not ${priceHistory.success}))::int`,
+      })
+      .from(priceHistory)
+      .where(and(
+        eq(priceHistory.productId, productId),
+        gte(priceHistory.checkedAt, from),
+        lte(priceHistory.checkedAt, to)
+      ))
+      .groupBy(bucketStart)
+      .orderBy(bucketStart);
+
+    // Aggregates come back as strings from the driver
+    const toNumber = (value: string | null) => value === null ? null : Math.round(parseFloat(value) * 100) / 100;
+
+    return rows.map(row => ({
+      bucketStart: new Date(row.bucketStart),
+      minPrice: toNumber(row.minPrice),
+      maxPrice: toNumber(row.maxPrice),
+      avgPrice: toNumber(row.avgPrice),
+      checks: Number(row.checks),
+      inStockChecks: Number(row.inStockChecks),
+      failedChecks: Number(row.failedChecks),
+    }));
+  }
+
+  async getLowestPrice(productId: string, from: Date, to: Date): Promise<number | null> {
+    const [{ lowest }] = await db
+      .select({ lowest: sql<string | null>`min(${priceHistory.price})` })
+      .from(priceHistory)
+      .where(and(
+        eq(priceHistory.productId, productId),
+        gte(priceHistory.checkedAt, from),
+        lt(priceHistory.checkedAt, to)
+      ));
+    return lowest === null ? null : parseFloat(lowest);
+  }
+
+  // Notification operations
+  async createNotification(notification: InsertUserNotification): Promise<UserNotification> {
+    const [record] = await db.insert(notifications).values(notification).returning();
+    return record;
+  }
+
+  async getNotifications(userId: string, query: NotificationQuery): Promise<{ notifications: UserNotification[]; total: number }> {
+    const conditions = [eq(notifications.userId, userId)];
+    if (query.type) conditions.push(eq(notifications.type, query.type));
+    if (query.platform) conditions.push(eq(notifications.platform, query.platform));
+    if (query.from) conditions.push(gte(notifications.createdAt, query.from));
+    if (query.to) conditions.push(lte(notifications.createdAt, query.to));
+    const where = and(...conditions);
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(notifications)
+        .where(where)
+        .orderBy(desc(notifications.createdAt))
+        .limit(query.limit)
+        .offset((query.page - 1) * query.limit),
+      db
+        .select({ total: sql<number>`count(*)` })
+        .from(notifications)
+        .where(where)
+    ]);
+
+    return { notifications: rows, total: Number(total) };
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    const [{ unread }] = await db
+      .select({ unread: sql<number>`count(*)` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.read, false)));
+    return Number(unread);
+  }
+
+  async markNotificationRead(userId: string, notificationId: string): Promise<UserNotification | undefined> {
+    const [record] = await db
+      .update(notifications)
+      .set({ read: true, readAt: new Date() })
+      .where(and(eq(notifications.id, notificationId), eq(notifications.userId, userId)))
+      .returning();
+    return record;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const updated = await db
+      .update(notifications)
+      .set({ read: true, readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), eq(notifications.read, false)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  // Email delivery operations
+  async createEmailDelivery(delivery: InsertEmailDelivery): Promise<EmailDelivery> {
+    const [record] = await db.insert(emailDeliveries).values(delivery).returning();
+    return record;
+  }
+
+  async updateEmailDelivery(deliveryId: string, updates: Partial<Pick<EmailDelivery, 'status' | 'attempts' | 'lastError' | 'nextAttemptAt' | 'sentAt'>>): Promise<EmailDelivery | undefined> {
+    const [record] = await db
+      .update(emailDeliveries)
+      .set(updates)
+      .where(eq(emailDeliveries.id, deliveryId))
+      .returning();
+    return record;
+  }
+
+  async getDueEmailDeliveries(now: Date, limit = 20): Promise<EmailDelivery[]> {
+    return await db
+      .select()
+      .from(emailDeliveries)
+      .where(and(eq(emailDeliveries.status, 'pending'), lte(emailDeliveries.nextAttemptAt, now)))
+      .orderBy(emailDeliveries.nextAttemptAt)
+      .limit(limit);
+  }
+
+  async getEmailDeliveries(userId: string, limit = 50): Promise<EmailDelivery[]> {
+    return await db
+      .select()
+      .from(emailDeliveries)
+      .where(eq(emailDeliveries.userId, userId))
+      .orderBy(desc(emailDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  // Solution effectiveness operations
+  async getSolutionEffectiveness(): Promise<SolutionEffectivenessRecord[]> {
+    return await db.select().from(solutionEffectiveness);
+  }
+
+  async getSolutionEffectivenessHistory(from: Date): Promise<SolutionEffectivenessHistoryRecord[]> {
+    return await db
+      .select()
+      .from(solutionEffectivenessHistory)
+      .where(gte(solutionEffectivenessHistory.bucketStart, from))
+      .orderBy(solutionEffectivenessHistory.bucketStart);
+  }
+
+  async recordSolutionOutcome(outcome: SolutionOutcome): Promise<void> {
+    const { userId, solutionId, detectionType, platform, at } = outcome;
+    const successes = outcome.success ? 1 : 0;
+    const failures = outcome.success ? 0 : 1;
+    const responseTime = outcome.responseTime !== undefined ? Math.round(outcome.responseTime) : 0;
+    const samples = outcome.responseTime !== undefined ? 1 : 0;
+
+    // Increment in SQL so concurrent checks don't lose counts
+    await db
+      .insert(solutionEffectiveness)
+      .values({
+        userId, solutionId, detectionType, platform,
+        successCount: successes,
+        failureCount: failures,
+        responseTimeTotal: responseTime,
+        responseTimeSamples: samples,
+        updatedAt: at,
+      })
+      .onConflictDoUpdate({
+        target: [solutionEffectiveness.userId, solutionEffectiveness.solutionId, solutionEffectiveness.detectionType, solutionEffectiveness.platform],
+        set: {
+          successCount: sql`${solutionEffectiveness.successCount} + ${successes}`,
+          failureCount: sql`${solutionEffectiveness.failureCount} + ${failures}`,
+          responseTimeTotal: sql`${solutionEffectiveness.responseTimeTotal} + ${responseTime}`,
+          responseTimeSamples: sql`${solutionEffectiveness.responseTimeSamples} + ${samples}`,
+          updatedAt: at,
+        },
+      });
+
+    const bucketStart = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+    await db
+      .insert(solutionEffectivenessHistory)
+      .values({ userId, solutionId, detectionType, platform, bucketStart, successCount: successes, failureCount: failures })
+      .onConflictDoUpdate({
+        target: [
+          solutionEffectivenessHistory.userId,
+          solutionEffectivenessHistory.solutionId,
+          solutionEffectivenessHistory.detectionType,
+          solutionEffectivenessHistory.platform,
+          solutionEffectivenessHistory.bucketStart,
+        ],
+        set: {
+          successCount: sql`${solutionEffectivenessHistory.successCount} + ${successes}`,
+          failureCount: sql`${solutionEffectivenessHistory.failureCount} + ${failures}`,
+        },
+      });
+  }
+
+  async getSolutionConfigs(): Promise<SolutionConfigRecord[]> {
+    return await db.select().from(solutionConfigs);
+  }
+
+  async saveSolutionConfig(userId: string, solutionId: string, config: SolutionConfig): Promise<void> {
+    const values = {
+      enabled: config.enabled,
+      autoApply: config.autoApply,
+      parameters: config.parameters,
+      lastAppliedAt: config.lastApplied ? new Date(config.lastApplied) : null,
+      successCount: config.successCount,
+      failureCount: config.failureCount,
+      effectiveness: Math.round(config.effectiveness),
+      updatedAt: new Date(),
+    };
+
+    await db
+      .insert(solutionConfigs)
+      .values({ userId, solutionId, ...values })
+      .onConflictDoUpdate({
+        target: [solutionConfigs.userId, solutionConfigs.solutionId],
+        set: values,
+      });
+  }
+
   // Performance monitoring
   async getStats(): Promise<{ users: number; settings: number; subscriptions: number; memoryUsage: string }> {
     const [userCount] = await db.select({ count: db.$count(users) }).from(users);
@@ -3,8 +3,12 @@ import { randomUUID } from 'crypto';
 import { cpus } from 'os';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { spawn } from 'child_process';
-import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import type { WorkerSolutionConfig } from './worker-solution-config';
+import type { ExtractionTrace, ProductDetails } from './product-extractor';
+import type { StoredCookie } from './cookie-jar';
+import { requestBudget, type RequestBudgetOptions } from './request-budget';
+import type { RetailerId } from '@shared/retailers';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -12,128 +16,357 @@ const __dirname = path.dirname(__filename);
 export interface ScrapingTask {
   id: string;
   url: string;
-  platform: "amazon" | "walmart";
+  platform: RetailerId;
   maxRetries?: number;
   responseData?: string;
   headers?: Record<string, string>;
+  proxyUrl?: string; // request through this proxy (http, https or socks5 URL)
+  cookies?: StoredCookie[]; // send these cookies (and any set during the task)
+  profileId?: string;       // fingerprint profile to send headers as (picked per attempt otherwise)
+  solutionConfig?: WorkerSolutionConfig; // overrides the worker's solution defaults for this task
 }
 
+// Who the task's requests appear to come from and the solution settings they are sent with
+export type TaskSession = Pick<ScrapingTask, 'proxyUrl' | 'cookies' | 'profileId' | 'solutionConfig'>;
+
+// Whose request budget the task's requests take tokens from, kept on the main thread
+export type TaskBudget = Omit<RequestBudgetOptions, 'proxyUrl'>;
+
 export interface ScrapingResult {
   id: string;
   success: boolean;
   productName?: string;
+  details?: ProductDetails;
   error?: string;
+  antiBot?: {
+    isBlocked: boolean;
+    detectionType: string;
+    confidence: number;
+    [key: string]: any;
+  };
+  extraction?: ExtractionTrace;
+  requestStats?: {
+    responseTime: number;
+    responseCode: number;
+  };
+  setCookies?: string[]; // Set-Cookie headers received, for the caller's jar
+  rateLimited?: boolean; // the request budget turned a request away before it was sent
+}
+
+export interface WorkerPoolOptions {
+  poolSize?: number;
+  taskTimeoutMs?: number;     // Max time a single scrape may take before the worker is recycled
+  probeIntervalMs?: number;   // How often idle workers are pinged
+  probeTimeoutMs?: number;    // How long a worker has to answer a ping
+}
+
+// Per-worker health bookkeeping
+interface WorkerState {
+  id: number;
+  worker: Worker;
+  healthy: boolean;
+  currentTaskId: string | null;
+  spawnedAt: number;
+  lastHeartbeat: number;
+  pendingProbe: { id: string; timer: NodeJS.Timeout } | null;
+  tasksCompleted: number;
+  tasksFailed: number;
+  timeouts: number;
+  heapUsed?: number;
+}
+
+export interface WorkerHealth {
+  id: number;
+  healthy: boolean;
+  busy: boolean;
+  lastHeartbeat: number;
+  tasksCompleted: number;
+  tasksFailed: number;
+  timeouts: number;
+  heapUsed?: number;
 }
 
+export interface WorkerPoolStats {
+  poolSize: number;
+  busyWorkers: number;
+  queuedTasks: number;
+  pendingTasks: number;
+  healthyWorkers: number;
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  restarts: number;
+  timedOutTasks: number;
+  mainThreadFallbacks: number;
+  workers: WorkerHealth[];
+}
+
+// Candidate worker entry points: the compiled worker npm run build puts next to dist/index.js,
+// then the wrapper that loads the TypeScript source through tsx in development
+const WORKER_FILES = ['scraping-worker.js', 'scraping-worker-wrapper.js'];
+
+// Queue depth at which the pool is considered backed up
+const MAX_HEALTHY_QUEUE = 50;
+
+// Workers that die this soon after spawning are not restarted, to avoid a crash loop
+const MIN_WORKER_LIFETIME_MS = 5000;
+
 export class WorkerPool {
-  private workers: Worker[] = [];
+  private workers: WorkerState[] = [];
   private pendingTasks = new Map<string, {
+    task: ScrapingTask;
+    budget: TaskBudget;
     resolve: (result: ScrapingResult) => void;
     reject: (error: Error) => void;
     timeout?: NodeJS.Timeout;
   }>();
   private taskQueue: ScrapingTask[] = [];
-  private busyWorkers = new Set<Worker>();
   private poolSize: number;
   private workerJsPath: string | null = null;
+  private taskTimeoutMs: number;
+  private probeIntervalMs: number;
+  private probeTimeoutMs: number;
+  private probeInterval: NodeJS.Timeout | null = null;
+  private nextWorkerId = 1;
+  private restarts = 0;
+  private timedOutTasks = 0;
+  private mainThreadFallbacks = 0;
+  private destroyed = false;
+
+  constructor(options: WorkerPoolOptions = {}) {
+    this.poolSize = options.poolSize ?? Math.max(2, Math.min(8, cpus().length - 1));
+    this.taskTimeoutMs = options.taskTimeoutMs ?? 30000;
+    this.probeIntervalMs = options.probeIntervalMs ?? 30000;
+    this.probeTimeoutMs = options.probeTimeoutMs ?? 5000;
+
+    this.workerJsPath = WORKER_FILES
+      .map(file => path.join(__dirname, file))
+      .find(file => existsSync(file)) ?? null;
 
-  constructor(poolSize = Math.max(2, Math.min(8, cpus().length - 1))) {
-    this.poolSize = poolSize;
-    // Use the pre-made JavaScript worker file
-    this.workerJsPath = path.join(__dirname, 'scraping-worker.js');
     this.initializeWorkers();
+    this.probeInterval = setInterval(() => this.probeWorkers(), this.probeIntervalMs);
   }
 
-
   private initializeWorkers(): void {
     if (!this.workerJsPath) {
       console.error('[WorkerPool] Worker JS file not compiled yet');
       return;
     }
-    
+
     for (let i = 0; i < this.poolSize; i++) {
-      try {
-        const worker = new Worker(this.workerJsPath, {
-          type: 'module'
-        } as any);
-        
-        worker.on('message', (result) => this.handleWorkerMessage(worker, result));
-        worker.on('error', this.handleWorkerError.bind(this));
-        worker.on('exit', this.handleWorkerExit.bind(this));
-        
-        this.workers.push(worker);
+      if (this.spawnWorker()) {
         console.log(`[WorkerPool] Worker ${i + 1}/${this.poolSize} initialized`);
-      } catch (error) {
-        console.error(`[WorkerPool] Failed to create worker ${i + 1}:`, error);
       }
     }
-    
+
     console.log(`[WorkerPool] Initialized with ${this.workers.length} workers (target: ${this.poolSize})`);
   }
 
-  private handleWorkerMessage(worker: Worker, result: ScrapingResult): void {
+  private spawnWorker(): WorkerState | null {
+    if (!this.workerJsPath) return null;
+
+    try {
+      const worker = new Worker(this.workerJsPath);
+
+      const state: WorkerState = {
+        id: this.nextWorkerId++,
+        worker,
+        healthy: true,
+        currentTaskId: null,
+        spawnedAt: Date.now(),
+        lastHeartbeat: Date.now(),
+        pendingProbe: null,
+        tasksCompleted: 0,
+        tasksFailed: 0,
+        timeouts: 0
+      };
+
+      worker.on('message', (message) => this.handleWorkerMessage(state, message));
+      worker.on('error', (error) => this.handleWorkerError(state, error));
+      worker.on('exit', (code) => this.handleWorkerExit(state, code));
+
+      this.workers.push(state);
+      return state;
+    } catch (error) {
+      console.error('[WorkerPool] Failed to create worker:', error);
+      return null;
+    }
+  }
+
+  private handleWorkerMessage(state: WorkerState, message: any): void {
+    state.lastHeartbeat = Date.now();
+
+    // Health probe replies
+    if (message?.type === 'pong') {
+      if (state.pendingProbe && state.pendingProbe.id === message.id) {
+        clearTimeout(state.pendingProbe.timer);
+        state.pendingProbe = null;
+      }
+      state.healthy = true;
+      state.heapUsed = message.memory;
+      return;
+    }
+
+    if (message?.type === 'requestPermit') {
+      this.grantPermit(state, message);
+      return;
+    }
+
+    // Config acknowledgements don't complete a task
+    if (message?.type) {
+      return;
+    }
+
+    const result = message as ScrapingResult;
     const task = this.pendingTasks.get(result.id);
     if (task) {
       if (task.timeout) {
         clearTimeout(task.timeout);
       }
-      
+
       this.pendingTasks.delete(result.id);
-      
+      task.resolve(result);
+    }
+
+    // Mark worker as available and process queue
+    if (state.currentTaskId === result.id) {
+      state.currentTaskId = null;
       if (result.success) {
-        task.resolve(result);
+        state.tasksCompleted++;
       } else {
-        task.reject(new Error(result.error || 'Unknown worker error'));
+        state.tasksFailed++;
       }
     }
-    
-    // Mark worker as available and process queue
-    this.busyWorkers.delete(worker);
     this.processQueue();
   }
 
-  private handleWorkerError(error: Error): void {
-    console.error('[WorkerPool] Worker error:', error);
-    
-    // Clean up any pending tasks for this worker
-    Array.from(this.pendingTasks.entries()).forEach(([taskId, task]) => {
-      task.reject(new Error(`Worker error: ${error.message}`));
-      this.pendingTasks.delete(taskId);
+  /**
+   * Workers ask for a request budget token before every request they send. Worker
+   * tasks are scheduled checks, so they wait as background requests. The task
+   * timeout is paused meanwhile: a long wait for the budget is not a stuck worker.
+   */
+  private grantPermit(state: WorkerState, message: { id: string; taskId: string; url: string }): void {
+    const entry = this.pendingTasks.get(message.taskId);
+    if (!entry) {
+      state.worker.postMessage({ type: 'permit', id: message.id, permit: { granted: false, reason: 'Task is no longer running' } });
+      return;
+    }
+
+    if (entry.timeout) {
+      clearTimeout(entry.timeout);
+      entry.timeout = undefined;
+    }
+
+    requestBudget.acquire(message.url, 'background', { ...entry.budget, proxyUrl: entry.task.proxyUrl }).then(permit => {
+      // Failed, timed out or shut down while waiting
+      if (this.destroyed || this.pendingTasks.get(message.taskId) !== entry) return;
+      this.armTimeout(entry.task, state);
+      state.worker.postMessage({ type: 'permit', id: message.id, permit });
     });
   }
 
-  private handleWorkerExit(code: number): void {
+  private handleWorkerError(state: WorkerState, error: Error): void {
+    console.error(`[WorkerPool] Worker ${state.id} error:`, error);
+    state.healthy = false;
+
+    // Only fail the task this worker was running
+    this.failCurrentTask(state, `Worker error: ${error.message}`);
+  }
+
+  private handleWorkerExit(state: WorkerState, code: number): void {
     if (code !== 0) {
-      console.error(`[WorkerPool] Worker exited with code ${code}`);
+      console.error(`[WorkerPool] Worker ${state.id} exited with code ${code}`);
+    }
+
+    this.failCurrentTask(state, `Worker exited with code ${code}`);
+    if (state.pendingProbe) {
+      clearTimeout(state.pendingProbe.timer);
+    }
+    this.workers = this.workers.filter(w => w !== state);
+
+    // Restart worker if it crashed or was recycled
+    if (this.destroyed) return;
+    if (Date.now() - state.spawnedAt < MIN_WORKER_LIFETIME_MS) {
+      console.error(`[WorkerPool] Worker ${state.id} died during startup, not restarting`);
+    } else {
+      this.restartWorker();
+    }
+
+    // Nothing is left to run queued tasks; their callers fall back to the main thread
+    if (this.workers.length === 0) {
+      this.failQueuedTasks('No workers left to run the task');
+    }
+  }
+
+  private failCurrentTask(state: WorkerState, reason: string): void {
+    if (!state.currentTaskId) return;
+
+    const task = this.pendingTasks.get(state.currentTaskId);
+    if (task) {
+      if (task.timeout) {
+        clearTimeout(task.timeout);
+      }
+      task.reject(new Error(reason));
+      this.pendingTasks.delete(state.currentTaskId);
+    }
+    state.currentTaskId = null;
+    state.tasksFailed++;
+  }
+
+  private failQueuedTasks(reason: string): void {
+    const queued = this.taskQueue.splice(0);
+    queued.forEach(task => {
+      const entry = this.pendingTasks.get(task.id);
+      if (!entry) return;
+      if (entry.timeout) {
+        clearTimeout(entry.timeout);
+      }
+      this.pendingTasks.delete(task.id);
+      entry.reject(new Error(reason));
+    });
+    if (queued.length > 0) {
+      console.warn(`[WorkerPool] Failed ${queued.length} queued task(s): ${reason}`);
     }
-    
-    // Restart worker if it crashed
-    this.restartWorker();
   }
 
   private restartWorker(): void {
     if (this.workers.length < this.poolSize && this.workerJsPath) {
-      try {
-        const worker = new Worker(this.workerJsPath, {
-          type: 'module'
-        } as any);
-        
-        worker.on('message', (result) => this.handleWorkerMessage(worker, result));
-        worker.on('error', this.handleWorkerError.bind(this));
-        worker.on('exit', this.handleWorkerExit.bind(this));
-        
-        this.workers.push(worker);
+      const state = this.spawnWorker();
+      if (state) {
+        this.restarts++;
         console.log(`[WorkerPool] Worker restarted, pool size: ${this.workers.length}`);
-      } catch (error) {
-        console.error('[WorkerPool] Failed to restart worker:', error);
+        this.processQueue();
       }
     }
   }
 
-  private getAvailableWorker(): Worker | null {
-    for (const worker of this.workers) {
-      if (!this.busyWorkers.has(worker)) {
-        return worker;
+  // Terminate an unresponsive worker; the exit handler spawns its replacement
+  private recycleWorker(state: WorkerState, reason: string): void {
+    console.warn(`[WorkerPool] Recycling worker ${state.id}: ${reason}`);
+    state.healthy = false;
+    state.worker.terminate().catch(error => {
+      console.error(`[WorkerPool] Failed to terminate worker ${state.id}:`, error);
+    });
+  }
+
+  // Ping idle workers; a worker that doesn't answer within probeTimeoutMs is recycled
+  private probeWorkers(): void {
+    for (const state of this.workers) {
+      if (state.currentTaskId || state.pendingProbe) continue;
+
+      const probeId = randomUUID();
+      const timer = setTimeout(() => {
+        state.pendingProbe = null;
+        this.recycleWorker(state, `no response to health probe within ${this.probeTimeoutMs}ms`);
+      }, this.probeTimeoutMs);
+
+      state.pendingProbe = { id: probeId, timer };
+      state.worker.postMessage({ type: 'ping', id: probeId });
+    }
+  }
+
+  private getAvailableWorker(): WorkerState | null {
+    for (const state of this.workers) {
+      if (state.healthy && !state.currentTaskId) {
+        return state;
       }
     }
     return null;
@@ -141,46 +374,69 @@ export class WorkerPool {
 
   private processQueue(): void {
     while (this.taskQueue.length > 0) {
-      const worker = this.getAvailableWorker();
-      if (!worker) break;
-      
+      const state = this.getAvailableWorker();
+      if (!state) break;
+
       const task = this.taskQueue.shift()!;
-      this.executeTask(worker, task);
+      if (this.pendingTasks.has(task.id)) {
+        this.executeTask(state, task);
+      }
     }
   }
 
-  private executeTask(worker: Worker, task: ScrapingTask): void {
-    this.busyWorkers.add(worker);
-    
-    // Set task timeout (30 seconds per task)
-    const timeout = setTimeout(() => {
+  private executeTask(state: WorkerState, task: ScrapingTask): void {
+    state.currentTaskId = task.id;
+    this.armTimeout(task, state);
+    state.worker.postMessage(task);
+  }
+
+  /**
+   * Fail the task if it isn't done within the timeout. Without a worker the task is
+   * still queued and just leaves the queue; a worker still running it is stuck and
+   * gets recycled.
+   */
+  private armTimeout(task: ScrapingTask, state?: WorkerState): void {
+    const entry = this.pendingTasks.get(task.id);
+    if (!entry) return;
+    if (entry.timeout) {
+      clearTimeout(entry.timeout);
+    }
+
+    entry.timeout = setTimeout(() => {
       const pendingTask = this.pendingTasks.get(task.id);
       if (pendingTask) {
-        pendingTask.reject(new Error('Worker task timeout'));
+        pendingTask.reject(new Error(state ? 'Worker task timeout' : 'Worker task timed out in the queue'));
         this.pendingTasks.delete(task.id);
       }
-      this.busyWorkers.delete(worker);
+      this.timedOutTasks++;
+      if (!state) {
+        this.taskQueue = this.taskQueue.filter(queued => queued.id !== task.id);
+        return;
+      }
+      state.timeouts++;
+      if (state.currentTaskId === task.id) {
+        state.currentTaskId = null;
+        this.recycleWorker(state, `task exceeded ${this.taskTimeoutMs}ms`);
+      }
       this.processQueue();
-    }, 30000);
-    
-    // Only attach timeout to existing entry, don't overwrite resolve/reject
-    const entry = this.pendingTasks.get(task.id);
-    if (entry) {
-      entry.timeout = timeout;
-    } else {
-      // Defensive fallback for edge cases
-      this.pendingTasks.set(task.id, {
-        resolve: () => {},
-        reject: () => {},
-        timeout
-      });
-    }
-    
-    worker.postMessage(task);
+    }, this.taskTimeoutMs);
   }
 
-  async scrapeProduct(url: string, platform: "amazon" | "walmart", maxRetries = 3, responseData?: string, headers?: Record<string, string>): Promise<string> {
+  /**
+   * Run a scraping task and resolve with the worker's full result (including failures
+   * reported by the worker). Rejects only on pool-level problems: timeout, crash, shutdown.
+   */
+  runTask(url: string, platform: RetailerId, maxRetries = 3, responseData?: string, headers?: Record<string, string>, session: TaskSession = {}, budget: TaskBudget = {}): Promise<ScrapingResult> {
     return new Promise((resolve, reject) => {
+      if (this.destroyed) {
+        reject(new Error('Worker pool shutting down'));
+        return;
+      }
+      if (this.workers.length === 0) {
+        reject(new Error('No workers available'));
+        return;
+      }
+
       const taskId = randomUUID();
       const task: ScrapingTask = {
         id: taskId,
@@ -188,64 +444,90 @@ export class WorkerPool {
         platform,
         maxRetries,
         responseData,
-        headers
+        headers,
+        ...session
       };
 
-      // Update the pending task with the actual resolve/reject functions
-      const pendingTask = this.pendingTasks.get(taskId);
-      if (pendingTask) {
-        pendingTask.resolve = (result: ScrapingResult) => {
-          if (result.success && result.productName) {
-            resolve(result.productName);
-          } else {
-            reject(new Error(result.error || 'Failed to scrape product'));
-          }
-        };
-        pendingTask.reject = reject;
-      } else {
-        // Create new pending task entry
-        this.pendingTasks.set(taskId, {
-          resolve: (result: ScrapingResult) => {
-            if (result.success && result.productName) {
-              resolve(result.productName);
-            } else {
-              reject(new Error(result.error || 'Failed to scrape product'));
-            }
-          },
-          reject
-        });
-      }
+      this.pendingTasks.set(taskId, { task, budget, resolve, reject });
 
-      const worker = this.getAvailableWorker();
-      if (worker) {
-        this.executeTask(worker, task);
+      const state = this.getAvailableWorker();
+      if (state) {
+        this.executeTask(state, task);
       } else {
-        // Queue the task if no workers available
+        // Queue the task if no workers available; the timeout starts now so it can't wait forever
         this.taskQueue.push(task);
+        this.armTimeout(task);
         console.log(`[WorkerPool] Task queued, queue size: ${this.taskQueue.length}`);
       }
     });
   }
 
-  getStats(): {
-    poolSize: number;
-    busyWorkers: number;
-    queuedTasks: number;
-    pendingTasks: number;
-  } {
+  async scrapeProduct(url: string, platform: RetailerId, maxRetries = 3, responseData?: string, headers?: Record<string, string>): Promise<string> {
+    const result = await this.runTask(url, platform, maxRetries, responseData, headers);
+    if (result.success && result.productName) {
+      return result.productName;
+    }
+    throw new Error(result.error || 'Failed to scrape product');
+  }
+
+
+  /**
+   * Usable when at least one worker is healthy and the queue isn't backed up
+   */
+  isHealthy(): boolean {
+    return this.getStats().status !== 'unhealthy';
+  }
+
+  // Called by callers that bypassed the pool because it was unhealthy or failed
+  recordMainThreadFallback(): void {
+    this.mainThreadFallbacks++;
+  }
+
+  getStats(): WorkerPoolStats {
+    const healthyWorkers = this.workers.filter(w => w.healthy).length;
+    const queuedTasks = this.taskQueue.length;
+
+    let status: WorkerPoolStats['status'] = 'healthy';
+    if (healthyWorkers === 0 || queuedTasks >= MAX_HEALTHY_QUEUE) {
+      status = 'unhealthy';
+    } else if (healthyWorkers < this.poolSize) {
+      status = 'degraded';
+    }
+
     return {
       poolSize: this.workers.length,
-      busyWorkers: this.busyWorkers.size,
-      queuedTasks: this.taskQueue.length,
-      pendingTasks: this.pendingTasks.size
+      busyWorkers: this.workers.filter(w => w.currentTaskId).length,
+      queuedTasks,
+      pendingTasks: this.pendingTasks.size,
+      healthyWorkers,
+      status,
+      restarts: this.restarts,
+      timedOutTasks: this.timedOutTasks,
+      mainThreadFallbacks: this.mainThreadFallbacks,
+      workers: this.workers.map(w => ({
+        id: w.id,
+        healthy: w.healthy,
+        busy: !!w.currentTaskId,
+        lastHeartbeat: w.lastHeartbeat,
+        tasksCompleted: w.tasksCompleted,
+        tasksFailed: w.tasksFailed,
+        timeouts: w.timeouts,
+        heapUsed: w.heapUsed
+      }))
     };
   }
 
   async destroy(): Promise<void> {
     console.log('[WorkerPool] Destroying worker pool...');
-    
+    this.destroyed = true;
+
+    if (this.probeInterval) {
+      clearInterval(this.probeInterval);
+      this.probeInterval = null;
+    }
+
     // Clear all pending tasks
-    Array.from(this.pendingTasks.entries()).forEach(([taskId, task]) => {
+    Array.from(this.pendingTasks.values()).forEach(task => {
       task.reject(new Error('Worker pool shutting down'));
       if (task.timeout) {
         clearTimeout(task.timeout);
@@ -253,17 +535,18 @@ export class WorkerPool {
     });
     this.pendingTasks.clear();
     this.taskQueue.length = 0;
-    
+
     // Terminate all workers
+    const states = [...this.workers];
+    states.forEach(state => {
+      if (state.pendingProbe) clearTimeout(state.pendingProbe.timer);
+    });
     await Promise.all(
-      this.workers.map(worker => worker.terminate())
+      states.map(state => state.worker.terminate())
     );
-    
+
     this.workers.length = 0;
-    this.busyWorkers.clear();
-    
-    // Worker JS file is permanent, no cleanup needed
-    
+
     console.log('[WorkerPool] Worker pool destroyed');
   }
 }
@@ -287,4 +570,4 @@ export async function destroyWorkerPool(): Promise<void> {
     await workerPool.destroy();
     workerPool = null;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,97 @@
+/**
+ * Scraping behaviour applied to every scheduled check, in a worker thread or on
+ * the main thread. Checks start from the defaults below; a check can override
+ * them for its own requests (the solutions applied for the user whose product
+ * it checks).
+ * Kept free of @shared runtime imports so the worker can load it directly.
+ */
+
+export interface WorkerSolutionConfig {
+  enableUserAgentRotation?: boolean;
+  userAgentRotationFrequency?: 'per_request' | 'per_session' | 'daily';
+  userAgentTypes?: 'desktop_only' | 'mobile_only' | 'desktop_mobile';
+  enableRequestDelays?: boolean;
+  baseRequestDelay?: number; // seconds
+  requestDelayRandomization?: 'low' | 'medium' | 'high';
+  enableHeaderRandomization?: boolean;
+  acceptLanguagePool?: 'en_only' | 'en_variants' | 'global';
+  includeCustomHeaders?: boolean;
+  enableProxyRotation?: boolean;
+  proxyRotationStrategy?: 'round_robin' | 'random' | 'health_based';
+  proxyFailureHandling?: 'retry_with_next' | 'fallback_direct' | 'abort_request';
+}
+
+export const DEFAULT_WORKER_SOLUTION_CONFIG: Required<WorkerSolutionConfig> = {
+  enableUserAgentRotation: true,
+  userAgentRotationFrequency: 'per_request',
+  userAgentTypes: 'desktop_mobile',
+  enableRequestDelays: true,
+  baseRequestDelay: 2,
+  requestDelayRandomization: 'medium',
+  enableHeaderRandomization: true,
+  acceptLanguagePool: 'en_variants',
+  includeCustomHeaders: false,
+  enableProxyRotation: false,
+  proxyRotationStrategy: 'round_robin',
+  proxyFailureHandling: 'retry_with_next'
+};
+
+// A varied Accept-Language, or undefined to keep the profile's own
+export function getAcceptLanguage(config: WorkerSolutionConfig): string | undefined {
+  if (!config.enableHeaderRandomization) {
+    return undefined;
+  }
+
+  switch (config.acceptLanguagePool) {
+    case 'en_only':
+      return undefined;
+    case 'en_variants':
+      const enVariants = [
+        'en-US,en;q=0.9',
+        'en-GB,en-US;q=0.9,en;q=0.8',
+        'en-CA,en;q=0.9,fr;q=0.8',
+        'en-AU,en;q=0.9'
+      ];
+      return enVariants[Math.floor(Math.random() * enVariants.length)];
+    case 'global':
+      const globalLanguages = [
+        'en-US,en;q=0.9',
+        'en-GB,en-US;q=0.9,en;q=0.8',
+        'en-US,en;q=0.9,es;q=0.8',
+        'en-US,en;q=0.9,fr;q=0.8',
+        'en-US,en;q=0.9,de;q=0.8'
+      ];
+      return globalLanguages[Math.floor(Math.random() * globalLanguages.length)];
+    default:
+      return undefined;
+  }
+}
+
+// Pause between retries in milliseconds, or 0 when delays are off
+export function calculateRequestDelay(config: WorkerSolutionConfig): number {
+  if (!config.enableRequestDelays) {
+    return 0;
+  }
+
+  const baseDelay = (config.baseRequestDelay || 2) * 1000; // Convert to milliseconds
+  
+  let randomizationFactor = 0;
+  switch (config.requestDelayRandomization) {
+    case 'low':
+      randomizationFactor = 0.2; // ±20%
+      break;
+    case 'medium':
+      randomizationFactor = 0.5; // ±50%
+      break;
+    case 'high':
+      randomizationFactor = 1.0; // ±100%
+      break;
+    default:
+      randomizationFactor = 0.5;
+  }
+
+  const randomAdjustment = (Math.random() - 0.5) * 2 * randomizationFactor;
+  const finalDelay = baseDelay * (1 + randomAdjustment);
+  
+  return Math.max(0, Math.round(finalDelay));
+}
@@ -0,0 +1,21 @@
+import type { RetailerId } from './retailers';
+
+// Per-platform circuit breaker the scheduler pauses a retailer's checks with
+// while it is blocking them (the circuits of GET /api/monitoring-status)
+
+// closed: checks run; open: checks wait for the cool-down to end;
+// half_open: a single probe check decides whether checks resume
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface PlatformCircuitStatus {
+  platform: RetailerId;
+  state: CircuitState;
+  checks: number;           // checks that reached the retailer in the window
+  blocks: number;
+  blockRate: number | null; // null without checks
+  windowMinutes: number;
+  cooldownSeconds: number;  // doubles after every blocked probe
+  openedAt?: string;        // ISO 8601, while not closed
+  retryAt?: string;         // when the probe is let through, while open
+  trips: number;            // times the circuit opened since startup
+}
@@ -0,0 +1,37 @@
+import type { RetailerId } from './retailers';
+import type { UserAgentPool } from './solution-types';
+
+// Browser fingerprint profiles scheduled checks rotate through, and how often
+// retailers block each of them (GET /api/admin/fingerprint-profiles)
+
+export type FingerprintBrowser = 'chrome' | 'edge' | 'firefox' | 'safari';
+
+export type FingerprintDevice = 'desktop' | 'mobile';
+
+export interface FingerprintPlatformStats {
+  platform: RetailerId;
+  checks: number;
+  blocks: number;
+  blockRate: number | null; // null without checks
+}
+
+export interface FingerprintProfileSummary {
+  id: string;
+  name: string;
+  browser: FingerprintBrowser;
+  device: FingerprintDevice;
+  os: UserAgentPool['platform'];
+  userAgent: string;
+  checks: number;
+  blocks: number;
+  blockRate: number | null;
+  lastUsedAt?: string;       // ISO 8601
+  lastBlockedAt?: string;
+  platforms: FingerprintPlatformStats[];
+}
+
+export interface FingerprintProfileReport {
+  generatedAt: string;
+  windowHours: number;       // stats cover this many hours
+  profiles: FingerprintProfileSummary[];
+}
@@ -0,0 +1,85 @@
+import type { RetailerId } from './retailers';
+import type { DetectionType } from './solution-types';
+import type { CircuitState } from './circuit-breaker';
+
+// Events pushed to clients over the /api/events server-sent event stream
+
+export type StockStatus = 'in-stock' | 'out-of-stock' | 'low-stock' | 'unknown';
+
+interface EventBase {
+  id: string;
+  timestamp: string; // ISO 8601
+}
+
+interface MonitoringEventBase extends EventBase {
+  productId: string;
+  productName: string;
+  platform: RetailerId;
+  productUrl: string;
+}
+
+export interface PriceDropEvent extends MonitoringEventBase {
+  type: 'price_drop';
+  currentPrice: number;
+  previousPrice: number;
+  currency?: string;
+  savings: number;
+  discountPercent: number;
+  alert?: boolean;         // false when the product's alert rules filtered this event out
+  notificationId?: string; // id of the persisted notification row, when one was stored
+}
+
+export interface StockChangeEvent extends MonitoringEventBase {
+  type: 'stock_change';
+  previousStatus: StockStatus;
+  status: StockStatus;
+  inStock: boolean;
+  alert?: boolean;         // false when the product's alert rules filtered this event out
+  notificationId?: string; // set for restocks that passed the alert rules
+}
+
+export interface CheckFailedEvent extends MonitoringEventBase {
+  type: 'check_failed';
+  error: string;
+  consecutiveErrors: number;
+}
+
+export interface AntiBotDetectedEvent extends MonitoringEventBase {
+  type: 'antibot_detected';
+  detectionType: DetectionType;
+  confidence: number;
+}
+
+// The page was read, but the extraction strategies disagreed or only weak ones found
+// the product, so the values were not recorded as the product's current state
+export interface LowConfidenceParseEvent extends MonitoringEventBase {
+  type: 'low_confidence_parse';
+  confidence: number; // overall extraction confidence, 0-1
+  uncertainFields: Array<'name' | 'price' | 'availability'>;
+  parsedName: string;
+  parsedPrice?: number;
+}
+
+// Checks on a retailer were paused because it is blocking them, or resumed after a
+// probe got through. Concerns the whole platform, so it carries no product
+export interface CircuitBreakerEvent extends EventBase {
+  type: 'circuit_breaker';
+  platform: RetailerId;
+  state: CircuitState;
+  previousState: CircuitState;
+  blockRate: number | null;
+  retryAt?: string; // when checks are tried again, while paused
+  products: number; // the user's monitored products on the platform
+}
+
+export type MonitoringEvent = PriceDropEvent | StockChangeEvent | CheckFailedEvent | AntiBotDetectedEvent | LowConfidenceParseEvent | CircuitBreakerEvent;
+
+export type MonitoringEventType = MonitoringEvent['type'];
+
+// Omit that keeps each member of a union separate
+export type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+// Event as published by the scheduler; id and timestamp are assigned by the stream
+export type MonitoringEventInput = DistributiveOmit<MonitoringEvent, 'id' | 'timestamp'>;
+
+export const MONITORING_EVENT_TYPES: MonitoringEventType[] = ['price_drop', 'stock_change', 'check_failed', 'antibot_detected', 'low_confidence_parse', 'circuit_breaker'];
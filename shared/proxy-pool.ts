@@ -0,0 +1,53 @@
+import type { RetailerId } from './retailers';
+
+// Proxy pool state as rendered by the Settings page (GET /api/proxy-pool)
+
+export const PROXY_PROTOCOLS = ["http", "https", "socks5"] as const;
+
+export type ProxyProtocol = (typeof PROXY_PROTOCOLS)[number];
+
+// unchecked: not probed yet; unhealthy: the last probe (with no recent successful request)
+// or several requests in a row failed, until a trial request after the cool-down succeeds;
+// quarantined: blocked by retailers too often, rested until quarantinedUntil
+export type ProxyStatus = 'unchecked' | 'healthy' | 'unhealthy' | 'quarantined';
+
+export interface ProxyPlatformStats {
+  platform: RetailerId;
+  successes: number;
+  blocks: number;
+  failures: number;          // network errors and timeouts
+  averageLatency: number | null; // ms
+}
+
+export interface ProxyState {
+  id: string;
+  label: string;             // URL with the password masked
+  protocol: ProxyProtocol;
+  host: string;
+  port: number;
+  hasAuth: boolean;
+  status: ProxyStatus;
+  lastCheckedAt?: string;    // ISO 8601
+  lastCheckLatency?: number; // ms
+  lastCheckError?: string;
+  retryAt?: string;          // while unhealthy, when its next trial request may go out
+  consecutiveBlocks: number;
+  quarantinedUntil?: string;
+  quarantineCount: number;
+  stickyProducts: number;    // products currently assigned to this proxy
+  stats: ProxyPlatformStats[];
+}
+
+// An entry of the proxy list that couldn't be used
+export interface InvalidProxyEntry {
+  index: number;
+  entry: string; // with any password masked
+  error: string;
+}
+
+export interface ProxyPoolState {
+  enabled: boolean;          // the user's enableProxyRotation setting
+  healthCheckTarget: string | null; // PROXY_HEALTH_CHECK_URL; null when proxies aren't probed
+  proxies: ProxyState[];
+  invalidEntries: InvalidProxyEntry[];
+}
@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+// Retailers the monitor supports. Each id has a matching adapter in
+// server/retailers/adapters.ts that knows how to match, fetch and parse that
+// store's pages, and check interval and workaround columns in the settings table.
+export const RETAILER_IDS = ["amazon", "walmart"] as const;
+
+export type RetailerId = (typeof RETAILER_IDS)[number];
+
+export const retailerIdSchema = z.enum(RETAILER_IDS);
+
+// Settings column holding the user's check interval (minutes) for a retailer
+export type RetailerIntervalSetting = `${RetailerId}CheckInterval`;
+
+export function retailerIntervalSetting(id: RetailerId): RetailerIntervalSetting {
+  return `${id}CheckInterval`;
+}
+
+// Settings column switching a retailer's workarounds (cookie sessions) on
+export type RetailerWorkaroundSetting = `enable${Capitalize<RetailerId>}Workarounds`;
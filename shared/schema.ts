@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, jsonb, index, uniqueIndex, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, bigint, boolean, timestamp, jsonb, index, uniqueIndex, decimal } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { retailerIdSchema } from "./retailers";
 
 // Plan tier enum for subscription management
 export const PlanTier = {
@@ -66,6 +67,16 @@ export const adminUsers = pgTable("admin_users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// What a subscription plan includes; entitlements read the limits
+export interface PlanFeatures {
+  itemLimit?: number;
+  checkInterval?: number; // minimum minutes between checks
+  emailNotifications?: boolean;
+  soundAlerts?: boolean;
+  prioritySupport?: boolean;
+  advancedFilters?: boolean;
+}
+
 // Subscription plans table
 export const subscriptionPlans = pgTable("subscription_plans", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -73,7 +84,7 @@ export const subscriptionPlans = pgTable("subscription_plans", {
   description: text("description"),
   stripePriceId: varchar("stripe_price_id").notNull(),
   monthlyPrice: decimal("monthly_price", { precision: 10, scale: 2 }),
-  features: jsonb("features").default(sql`'{}'::jsonb`),
+  features: jsonb("features").$type<PlanFeatures>().default(sql`'{}'::jsonb`),
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -126,6 +137,7 @@ export const settings = pgTable("settings", {
   
   // Application Behavior Settings  
   enableTaskTray: boolean("enable_task_tray").notNull().default(false),
+  enableWorkerThreads: boolean("enable_worker_threads").notNull().default(false), // Scrape in the worker pool instead of the main thread
   
   // Proxy Settings
   enableProxy: boolean("enable_proxy").notNull().default(false),
@@ -150,6 +162,7 @@ export const settings = pgTable("settings", {
   maxRequestDelay: integer("max_request_delay").notNull().default(5000), // 5 seconds
   enableExponentialBackoff: boolean("enable_exponential_backoff").notNull().default(true),
   maxBackoffDelay: integer("max_backoff_delay").notNull().default(300000), // 5 minutes
+  requestBudgetRpm: integer("request_budget_rpm").notNull().default(30), // retailer requests per minute, per host and proxy
   
   // Header Randomization Settings
   enableHeaderRandomization: boolean("enable_header_randomization").notNull().default(true),
@@ -187,7 +200,9 @@ export const settings = pgTable("settings", {
   // Timestamps
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("settings_user_id_unique").on(table.userId),
+]);
 
 // User access table for beta testing
 export const userAccess = pgTable("user_access", {
@@ -217,6 +232,167 @@ export const refreshTokens = pgTable("refresh_tokens", {
   index("refresh_tokens_expires_at_idx").on(table.expiresAt),
 ]);
 
+// Monitored products table - server-side source of truth for what each user tracks
+export const products = pgTable("products", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  url: text("url").notNull(),
+  platform: varchar("platform").notNull(), // amazon, walmart
+  asin: varchar("asin"),
+  
+  // Latest observed state from the monitoring scheduler
+  currentPrice: decimal("current_price", { precision: 10, scale: 2 }),
+  previousPrice: decimal("previous_price", { precision: 10, scale: 2 }),
+  currency: varchar("currency"),
+  status: varchar("status").notNull().default("unknown"), // in-stock, out-of-stock, low-stock, unknown
+  seller: text("seller"),
+  lastChecked: timestamp("last_checked"),
+  
+  // Notification preferences
+  notifyForStock: boolean("notify_for_stock").notNull().default(true),
+  notifyForPrice: boolean("notify_for_price").notNull().default(true),
+  alertRules: jsonb("alert_rules").$type<AlertRules>().notNull().default({}),
+  lastAlertedAt: timestamp("last_alerted_at"), // for the alert rules' cooldown window
+  
+  // Whether the scheduler should be checking this product
+  isMonitoring: boolean("is_monitoring").notNull().default(true),
+  
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("products_user_id_idx").on(table.userId),
+  uniqueIndex("products_user_id_url_unique").on(table.userId, table.url),
+]);
+
+// Scheduler state of each monitored product, so schedules survive a restart
+export const productSchedules = pgTable("product_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  interval: integer("interval").notNull(), // ms, the owner's plan-clamped base interval
+  backoffDelay: integer("backoff_delay").notNull(), // ms
+  consecutiveErrors: integer("consecutive_errors").notNull().default(0),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("product_schedules_product_id_unique").on(table.productId),
+]);
+
+// Scraper cookie jars - one per user, retailer and identity (proxy + fingerprint profile)
+export const scraperCookieJars = pgTable("scraper_cookie_jars", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  platform: varchar("platform").notNull(),
+  identity: varchar("identity").notNull(), // hash of the proxy id and profile id
+  proxyId: varchar("proxy_id"), // null for direct requests
+  profileId: varchar("profile_id").notNull(), // fingerprint profile the retailer saw
+  cookies: text("cookies").notNull(), // JSON cookie list, encrypted with CryptoService
+  expiresAt: timestamp("expires_at").notNull(), // when the last cookie in the jar expires
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("scraper_cookie_jars_identity_unique").on(table.userId, table.platform, table.identity),
+  index("scraper_cookie_jars_expires_at_idx").on(table.expiresAt),
+]);
+
+// Price/stock history - one row per scheduler check
+export const priceHistory = pgTable("price_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  price: decimal("price", { precision: 10, scale: 2 }),
+  currency: varchar("currency"),
+  status: varchar("status").notNull().default("unknown"), // in-stock, out-of-stock, low-stock, unknown
+  seller: text("seller"),
+  success: boolean("success").notNull().default(true),
+  errorMessage: text("error_message"),
+  checkedAt: timestamp("checked_at").notNull().defaultNow(),
+}, (table) => [
+  index("price_history_product_checked_at_idx").on(table.productId, table.checkedAt),
+]);
+
+// User-facing alerts (price drops, restocks), persisted so read state syncs across devices
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "set null" }),
+  type: varchar("type").notNull(), // price_drop, stock_alert
+  productName: text("product_name").notNull(),
+  platform: varchar("platform").notNull(),
+  data: jsonb("data").notNull().default({}), // prices, savings, productUrl
+  read: boolean("read").notNull().default(false),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("notifications_user_created_at_idx").on(table.userId, table.createdAt),
+]);
+
+// Alert emails; one row per message (single alert or digest) with its delivery status
+export const emailDeliveries = pgTable("email_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  notificationIds: jsonb("notification_ids").$type<string[]>().notNull().default([]),
+  recipient: text("recipient").notNull(),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  text: text("text").notNull(),
+  status: varchar("status").notNull().default("pending"), // pending, sent, failed
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("email_deliveries_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+  index("email_deliveries_user_created_at_idx").on(table.userId, table.createdAt),
+]);
+
+// Outcome counts for each user's anti-bot solutions, per detection type and platform
+export const solutionEffectiveness = pgTable("solution_effectiveness", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  solutionId: varchar("solution_id").notNull(),
+  detectionType: varchar("detection_type").notNull(),
+  platform: varchar("platform").notNull(),
+  successCount: integer("success_count").notNull().default(0),
+  failureCount: integer("failure_count").notNull().default(0),
+  responseTimeTotal: bigint("response_time_total", { mode: "number" }).notNull().default(0), // ms, over responseTimeSamples
+  responseTimeSamples: integer("response_time_samples").notNull().default(0),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("solution_effectiveness_user_solution_unique").on(table.userId, table.solutionId, table.detectionType, table.platform),
+]);
+
+// Daily buckets of the same counts, for trends over weeks
+export const solutionEffectivenessHistory = pgTable("solution_effectiveness_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  solutionId: varchar("solution_id").notNull(),
+  detectionType: varchar("detection_type").notNull(),
+  platform: varchar("platform").notNull(),
+  bucketStart: timestamp("bucket_start").notNull(), // UTC midnight
+  successCount: integer("success_count").notNull().default(0),
+  failureCount: integer("failure_count").notNull().default(0),
+}, (table) => [
+  uniqueIndex("solution_effectiveness_history_bucket_unique").on(table.userId, table.solutionId, table.detectionType, table.platform, table.bucketStart),
+  index("solution_effectiveness_history_bucket_start_idx").on(table.bucketStart),
+]);
+
+// Each user's solution configuration: parameters and application state
+export const solutionConfigs = pgTable("solution_configs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  solutionId: varchar("solution_id").notNull(),
+  enabled: boolean("enabled").notNull(),
+  autoApply: boolean("auto_apply").notNull(),
+  parameters: jsonb("parameters").$type<Record<string, any>>().notNull().default({}),
+  lastAppliedAt: timestamp("last_applied_at"),
+  successCount: integer("success_count").notNull().default(0),
+  failureCount: integer("failure_count").notNull().default(0),
+  effectiveness: integer("effectiveness").notNull(), // percentage
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("solution_configs_user_solution_unique").on(table.userId, table.solutionId),
+]);
+
 // Legacy user schema for backward compatibility
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -244,7 +420,9 @@ export const insertSettingsSchema = createInsertSchema(settings).omit({
   updatedAt: true,
 });
 
-export const updateSettingsSchema = createInsertSchema(settings).omit({
+export const updateSettingsSchema = createInsertSchema(settings, {
+  requestBudgetRpm: (schema) => schema.min(1).max(120),
+}).omit({
   id: true,
   userId: true,
   createdAt: true,
@@ -296,6 +474,73 @@ export const insertRefreshTokenSchema = createInsertSchema(refreshTokens).omit({
   createdAt: true,
 });
 
+// Product schemas
+
+// Conditions a price drop or restock must meet before the user is alerted.
+// Unset conditions don't filter; an empty object alerts on every drop/restock.
+export const alertRulesSchema = z.object({
+  targetPrice: z.number().positive().optional(),             // alert only when price <= targetPrice
+  minDropPercent: z.number().min(1).max(100).optional(),      // alert only when price is this far below the 30-day low
+  restockSellerOnly: z.boolean().optional(),                 // restocks count only when sold by the retailer itself
+  cooldownMinutes: z.number().int().min(0).max(7 * 24 * 60).optional(), // minimum time between alerts
+});
+
+export const insertProductSchema = z.object({
+  name: z.string().min(1, "Product name is required").max(500),
+  url: z.string().url("Must be a valid product URL"),
+  platform: retailerIdSchema,
+  asin: z.string().max(20).optional(),
+  notifyForStock: z.boolean().optional(),
+  notifyForPrice: z.boolean().optional(),
+  alertRules: alertRulesSchema.optional(),
+});
+
+export const updateProductSchema = insertProductSchema.partial().extend({
+  isMonitoring: z.boolean().optional(),
+});
+
+// Price history schemas
+export const insertPriceHistorySchema = createInsertSchema(priceHistory).omit({
+  id: true,
+  checkedAt: true,
+});
+
+export const productHistoryQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  bucket: z.enum(["hour", "day"]).optional(),
+});
+
+// Notification schemas
+export const NOTIFICATION_TYPES = ["price_drop", "stock_alert"] as const;
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  read: true,
+  readAt: true,
+  createdAt: true,
+});
+
+export const EMAIL_DELIVERY_STATUSES = ["pending", "sent", "failed"] as const;
+
+export const insertEmailDeliverySchema = createInsertSchema(emailDeliveries).omit({
+  id: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  sentAt: true,
+  createdAt: true,
+});
+
+export const notificationQuerySchema = z.object({
+  type: z.enum(NOTIFICATION_TYPES).optional(),
+  platform: retailerIdSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
 // Type exports
 export type User = typeof users.$inferSelect;
 export type UpsertUser = z.infer<typeof upsertUserSchema & z.ZodType>;
@@ -327,6 +572,70 @@ export type InsertUserAccess = z.infer<typeof insertUserAccessSchema & z.ZodType
 export type RefreshToken = typeof refreshTokens.$inferSelect;
 export type InsertRefreshToken = z.infer<typeof insertRefreshTokenSchema & z.ZodType>;
 
+export type Product = typeof products.$inferSelect;
+export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type UpdateProduct = z.infer<typeof updateProductSchema>;
+
+export type ProductSchedule = typeof productSchedules.$inferSelect;
+export type ScraperCookieJar = typeof scraperCookieJars.$inferSelect;
+
+export type PriceHistory = typeof priceHistory.$inferSelect;
+export type InsertPriceHistory = z.infer<typeof insertPriceHistorySchema & z.ZodType>;
+export type AlertRules = z.infer<typeof alertRulesSchema>;
+export type ProductHistoryQuery = z.infer<typeof productHistoryQuerySchema>;
+export type HistoryBucket = NonNullable<ProductHistoryQuery["bucket"]>;
+
+export type UserNotification = typeof notifications.$inferSelect;
+export type InsertUserNotification = z.infer<typeof insertNotificationSchema & z.ZodType>;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+export type NotificationQuery = z.infer<typeof notificationQuerySchema>;
+
+export type EmailDelivery = typeof emailDeliveries.$inferSelect;
+export type InsertEmailDelivery = z.infer<typeof insertEmailDeliverySchema & z.ZodType>;
+export type EmailDeliveryStatus = (typeof EMAIL_DELIVERY_STATUSES)[number];
+
+export type SolutionEffectivenessRecord = typeof solutionEffectiveness.$inferSelect;
+export type SolutionEffectivenessHistoryRecord = typeof solutionEffectivenessHistory.$inferSelect;
+export type SolutionConfigRecord = typeof solutionConfigs.$inferSelect;
+
+// Response body of GET /api/notifications
+export interface NotificationListResponse {
+  notifications: UserNotification[];
+  total: number;
+  unreadCount: number;
+  page: number;
+  limit: number;
+}
+
+// Aggregated price/stock statistics for one hour or day
+export interface PriceHistoryBucket {
+  bucketStart: Date;
+  minPrice: number | null;
+  maxPrice: number | null;
+  avgPrice: number | null;
+  checks: number;
+  inStockChecks: number;
+  failedChecks: number;
+}
+
+// Response body of GET /api/products/:id/history
+export interface ProductHistoryResponse {
+  productId: string;
+  from: string;
+  to: string;
+  bucket: HistoryBucket;
+  buckets: PriceHistoryBucket[];
+  entries: Array<{
+    id: string;
+    timestamp: Date;
+    price: number | null;
+    currency: string | null;
+    status: string;
+    success: boolean;
+    errorMessage: string | null;
+  }>;
+}
+
 // Authentication request/response schemas
 export const signupSchema = z.object({
   email: z.string().email('Invalid email address'),
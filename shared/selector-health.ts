@@ -0,0 +1,74 @@
+import type { RetailerId } from './retailers';
+
+// Extraction health reported to admins: how often each selector and extraction
+// strategy still finds its field, and alerts when parsing breaks
+
+// Independent ways of reading a product page; their results are combined by voting
+export type ExtractionStrategy = 'json-ld' | 'embedded-state' | 'selectors' | 'opengraph';
+
+export type VotedField = 'name' | 'price' | 'availability';
+
+// Retailer selector lists whose hits are tracked
+export type SelectorField = 'title' | 'price' | 'stockText' | 'seller';
+
+// Rates are shares of checks that got a normal (HTTP 200, not blocked) page
+export interface SelectorHitRate {
+  field: SelectorField;
+  selector: string;
+  hits: number;
+  rate: number;
+  previousRate: number | null; // same selector over the baseline window
+}
+
+export interface FieldMissRate {
+  field: SelectorField;
+  misses: number; // pages where no selector in the list matched
+  rate: number;
+}
+
+export interface StrategyHitRate {
+  strategy: ExtractionStrategy;
+  field: VotedField;
+  hits: number;
+  rate: number;
+}
+
+export interface ParseRatePoint {
+  bucketStart: string;  // ISO 8601
+  okResponses: number;
+  parsed: number;
+  rate: number | null;  // null without any normal responses in the bucket
+}
+
+export interface SelectorBreakageAlert {
+  id: string;
+  platform: RetailerId;
+  raisedAt: string;
+  resolvedAt?: string;
+  recentRate: number;
+  baselineRate: number;
+  okResponses: number;
+  failingSelectors: string[]; // "field: selector" whose hit rate collapsed
+  message: string;
+}
+
+export interface PlatformSelectorHealth {
+  platform: RetailerId;
+  status: 'healthy' | 'degraded' | 'broken' | 'no_data';
+  recentParseRate: number | null;
+  baselineParseRate: number | null;
+  okResponses: number;   // normal responses in the report window
+  checks: number;        // all checks in the report window
+  lowConfidence: number; // parses rejected for low confidence
+  selectors: SelectorHitRate[];
+  fieldMisses: FieldMissRate[];
+  strategies: StrategyHitRate[];
+  history: ParseRatePoint[];
+}
+
+export interface SelectorHealthReport {
+  generatedAt: string;
+  windowHours: number;
+  platforms: PlatformSelectorHealth[];
+  alerts: SelectorBreakageAlert[]; // active first, then recently resolved
+}
@@ -1,4 +1,5 @@
 import { SolutionDefinition, DetectionType, SolutionCategory } from './solution-types';
+import type { RetailerId } from './retailers';
 
 // Comprehensive solution definitions
 export const SOLUTION_DEFINITIONS: SolutionDefinition[] = [
@@ -378,7 +379,7 @@ export const CONFIDENCE_MULTIPLIERS: Record<string, number> = {
 };
 
 // Platform-specific solution filters
-export const PLATFORM_SOLUTIONS: Record<'amazon' | 'walmart', string[]> = {
+export const PLATFORM_SOLUTIONS: Partial<Record<RetailerId, string[]>> = {
   amazon: [
     'amazon_cookie_management',
     'rotate_user_agents',
@@ -429,7 +430,7 @@ export function getSolutionsForDetection(detectionType: DetectionType): Solution
 }
 
 // Helper function to check if solution is platform compatible
-export function isSolutionPlatformCompatible(solution: SolutionDefinition, platform: 'amazon' | 'walmart'): boolean {
+export function isSolutionPlatformCompatible(solution: SolutionDefinition, platform: RetailerId): boolean {
   return solution.platforms.includes('both') || solution.platforms.includes(platform);
 }
 
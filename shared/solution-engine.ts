@@ -22,15 +22,52 @@ import {
   filterSolutionsByEnvironment
 } from './solution-definitions';
 import { Settings } from './schema';
+import type { RetailerId } from './retailers';
+
+/**
+ * Persistence hooks; the engine writes every effectiveness update and
+ * configuration change through to the store
+ */
+export interface SolutionEngineStore {
+  recordOutcome(outcome: {
+    solutionId: string;
+    detectionType: DetectionType;
+    platform: RetailerId;
+    success: boolean;
+    responseTime?: number;
+  }): void;
+  saveConfig(solutionId: string, config: SolutionConfig): void;
+}
 
 export class SolutionSuggestionEngine {
   private effectivenessData: Map<string, SolutionEffectiveness> = new Map();
   private userConfigs: Map<string, SolutionConfig> = new Map();
   
-  constructor() {
+  constructor(private store?: SolutionEngineStore) {
     this.initializeDefaultConfigs();
   }
 
+  /**
+   * Restore persisted effectiveness data and configurations. Settings-driven
+   * fields are re-applied by the next updateFromSettings call.
+   */
+  load(effectiveness: SolutionEffectiveness[], configs: Record<string, Partial<SolutionConfig>>): void {
+    effectiveness.forEach(entry => {
+      this.effectivenessData.set(`${entry.solutionId}_${entry.detectionType}_${entry.platform}`, { ...entry });
+    });
+
+    Object.entries(configs).forEach(([solutionId, config]) => {
+      const existing = this.userConfigs.get(solutionId);
+      if (existing) {
+        this.userConfigs.set(solutionId, {
+          ...existing,
+          ...config,
+          parameters: { ...existing.parameters, ...config.parameters },
+        });
+      }
+    });
+  }
+
   /**
    * Initialize default configurations for all solutions
    */
@@ -536,6 +573,7 @@ export class SolutionSuggestionEngine {
       // Update configuration
       config.lastApplied = Date.now();
       config.parameters = appliedParams;
+      this.store?.saveConfig(solutionId, config);
       
       return {
         solutionId,
@@ -565,7 +603,7 @@ export class SolutionSuggestionEngine {
   updateEffectiveness(
     solutionId: string,
     detectionType: DetectionType,
-    platform: 'amazon' | 'walmart',
+    platform: RetailerId,
     success: boolean,
     responseTime?: number
   ): void {
@@ -629,6 +667,11 @@ export class SolutionSuggestionEngine {
         config.failureCount++;
       }
     }
+
+    this.store?.recordOutcome({ solutionId, detectionType, platform, success, responseTime });
+    if (config) {
+      this.store?.saveConfig(solutionId, config);
+    }
   }
 
   /**
@@ -651,7 +694,9 @@ export class SolutionSuggestionEngine {
   updateSolutionConfig(solutionId: string, config: Partial<SolutionConfig>): void {
     const existing = this.userConfigs.get(solutionId);
     if (existing) {
-      this.userConfigs.set(solutionId, { ...existing, ...config });
+      const updated = { ...existing, ...config };
+      this.userConfigs.set(solutionId, updated);
+      this.store?.saveConfig(solutionId, updated);
     }
   }
 }
@@ -1,11 +1,12 @@
 import { z } from "zod";
+import type { RetailerId } from './retailers';
 
 // Anti-bot detection result interface (imported from scraping-worker.ts)
 export interface AntiBotDetectionResult {
   isBlocked: boolean;
   detectionType: 'cloudflare' | 'aws_waf' | 'rate_limit' | 'ip_block' | 'captcha' | 'js_challenge' | 'redirect_loop' | 'platform_specific' | 'none';
   confidence: number; // 0-1 scale
-  platform: 'amazon' | 'walmart';
+  platform: RetailerId;
   responseCode: number;
   responseTime: number;
   rawResponse?: string;
@@ -57,7 +58,7 @@ export interface SolutionDefinition {
   riskLevel: 'low' | 'medium' | 'high';
   dependencies?: string[]; // IDs of other solutions that must be enabled
   conflicts?: string[]; // IDs of solutions that conflict with this one
-  platforms: ('amazon' | 'walmart' | 'both')[];
+  platforms: (RetailerId | 'both')[];
   desktopOnly?: boolean;
   webOnly?: boolean;
 }
@@ -94,6 +95,49 @@ export interface GroupedSuggestions {
   advanced: SolutionSuggestion[];
 }
 
+// Suggestions generated for the latest block on a platform
+export interface SolutionSuggestionSnapshot {
+  platform: RetailerId;
+  productId?: string;
+  detection: Omit<AntiBotDetectionResult, 'rawResponse'>;
+  suggestions: GroupedSuggestions;
+  createdAt: number;
+}
+
+// Response body of GET /api/solutions/suggestions
+export interface SolutionSuggestionsResponse {
+  enabled: boolean; // the user's enableSolutionSuggestions setting
+  suggestions: SolutionSuggestionSnapshot[];
+}
+
+// Entry in the log of worker configuration changes made by solutions
+export interface SolutionConfigChange {
+  solutionId: string;
+  platform: RetailerId;
+  detectionType: DetectionType;
+  action: 'applied' | 'kept' | 'rolled_back' | 'awaiting_confirmation';
+  source: 'auto' | 'manual';
+  config: Record<string, any>; // worker settings written by this change
+  checks?: number; // checks measured before the kept/rolled_back decision
+  successRate?: number;
+  message: string;
+  timestamp: number;
+}
+
+// Response body of GET /api/solutions/auto-apply
+export interface SolutionAutoApplyStatus {
+  activeTrial: {
+    solutionId: string;
+    platform: RetailerId;
+    checks: number;
+    successes: number;
+    requiredChecks: number;
+    threshold: number;
+  } | null;
+  disabledSolutions: string[]; // rolled back with autoDisableIneffectiveSolutions on
+  changes: SolutionConfigChange[]; // newest first
+}
+
 // Solution application result
 export interface SolutionApplicationResult {
   solutionId: string;
@@ -109,7 +153,7 @@ export interface SolutionApplicationResult {
 export interface SolutionEffectiveness {
   solutionId: string;
   detectionType: DetectionType;
-  platform: 'amazon' | 'walmart';
+  platform: RetailerId;
   successCount: number;
   failureCount: number;
   totalAttempts: number;
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractProductPage, parsePrice } from '../server/product-extractor';
+
+// A product page carrying only OpenGraph product tags
+function openGraphPage(amount: string, currency: string): string {
+  return `<html><head>
+    <meta property="og:title" content="Espresso Machine">
+    <meta property="product:price:amount" content="${amount}">
+    <meta property="product:price:currency" content="${currency}">
+  </head><body></body></html>`;
+}
+
+test('parsePrice reads US, European and plain notations', () => {
+  assert.deepEqual(parsePrice('$1,299.99'), { price: 1299.99, currency: 'USD' });
+  assert.deepEqual(parsePrice('1.299,00 €'), { price: 1299, currency: 'EUR' });
+  assert.deepEqual(parsePrice('1 299,50 €'), { price: 1299.5, currency: 'EUR' });
+  assert.deepEqual(parsePrice('12,99 €'), { price: 12.99, currency: 'EUR' });
+  assert.deepEqual(parsePrice('1.299.000 €'), { price: 1299000, currency: 'EUR' });
+  assert.deepEqual(parsePrice('£1,299,000'), { price: 1299000, currency: 'GBP' });
+  assert.deepEqual(parsePrice('1299.99'), { price: 1299.99, currency: 'USD' });
+  assert.deepEqual(parsePrice('$1,299'), { price: 1299, currency: 'USD' });
+  assert.deepEqual(parsePrice('$10.99 - $15.99'), { price: 10.99, currency: 'USD' });
+});
+
+test('parsePrice leaves out ambiguous and malformed prices', () => {
+  assert.deepEqual(parsePrice('1.299'), {});
+  assert.deepEqual(parsePrice('1.299,999 €'), {});
+  assert.deepEqual(parsePrice('1,2,3.00'), {});
+  assert.deepEqual(parsePrice('$0.00'), {});
+  assert.deepEqual(parsePrice('Currently unavailable'), {});
+});
+
+test('a decimal-comma price on a product page is extracted', () => {
+  const { details } = extractProductPage(openGraphPage('1.299,00', 'EUR'), 'amazon');
+
+  assert.equal(details?.price, 1299);
+  assert.equal(details?.currency, 'EUR');
+});
+
+test('an ambiguous price on a product page is not extracted', () => {
+  const { details } = extractProductPage(openGraphPage('1.299', 'EUR'), 'amazon');
+
+  assert.equal(details?.name, 'Espresso Machine');
+  assert.equal(details?.price, undefined);
+});
@@ -0,0 +1,57 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProxyPoolService } from '../server/proxy-pool';
+
+const PROXY_LIST = 'http://127.0.0.1:8001';
+
+function failThreeTimes(pool: ProxyPoolService, proxyId: string): void {
+  for (let i = 0; i < 3; i++) {
+    pool.recordResult('user-1', proxyId, 'amazon', 'failed');
+  }
+}
+
+test('an unhealthy proxy gets a trial request after the cool-down and recovers when it succeeds', () => {
+  mock.timers.enable({ apis: ['Date'], now: Date.now() });
+  const pool = new ProxyPoolService();
+  try {
+    const proxy = pool.acquire('user-1', PROXY_LIST, 'product-1', 'amazon');
+    assert.ok(proxy);
+    failThreeTimes(pool, proxy.id);
+
+    assert.equal(pool.acquire('user-1', PROXY_LIST, 'product-1', 'amazon'), null);
+    assert.equal(pool.getState('user-1', PROXY_LIST, true).proxies[0].status, 'unhealthy');
+
+    mock.timers.tick(10 * 60 * 1000);
+    // One trial request per cool-down
+    assert.equal(pool.acquire('user-1', PROXY_LIST, 'product-1', 'amazon')?.id, proxy.id);
+    assert.equal(pool.acquire('user-1', PROXY_LIST, 'product-2', 'amazon'), null);
+
+    pool.recordResult('user-1', proxy.id, 'amazon', 'success');
+    assert.equal(pool.getState('user-1', PROXY_LIST, true).proxies[0].status, 'healthy');
+    assert.equal(pool.acquire('user-1', PROXY_LIST, 'product-2', 'amazon')?.id, proxy.id);
+  } finally {
+    pool.destroy();
+    mock.timers.reset();
+  }
+});
+
+test('a failed trial request keeps the proxy out until the next cool-down', () => {
+  mock.timers.enable({ apis: ['Date'], now: Date.now() });
+  const pool = new ProxyPoolService();
+  try {
+    const proxy = pool.acquire('user-1', PROXY_LIST, 'product-1', 'amazon')!;
+    failThreeTimes(pool, proxy.id);
+
+    mock.timers.tick(10 * 60 * 1000);
+    assert.equal(pool.acquire('user-1', PROXY_LIST, 'product-1', 'amazon')?.id, proxy.id);
+    pool.recordResult('user-1', proxy.id, 'amazon', 'failed');
+
+    mock.timers.tick(5 * 60 * 1000);
+    assert.equal(pool.acquire('user-1', PROXY_LIST, 'product-1', 'amazon'), null);
+    mock.timers.tick(5 * 60 * 1000);
+    assert.equal(pool.acquire('user-1', PROXY_LIST, 'product-1', 'amazon')?.id, proxy.id);
+  } finally {
+    pool.destroy();
+    mock.timers.reset();
+  }
+});
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RequestBudget } from '../server/request-budget';
+
+const PRODUCT_URL = 'https://www.amazon.com/dp/B0D1XD1ZV3';
+const OWNER = { userId: 'user-1', requestsPerMinute: 60 }; // a burst of 10, then one a second
+
+test("a user's requests use their own buckets at their rate", async () => {
+  const budget = new RequestBudget(30);
+  try {
+    for (let i = 0; i < 10; i++) {
+      assert.deepEqual(await budget.acquire(PRODUCT_URL, 'background', { owner: OWNER }), { granted: true, waitedMs: 0 });
+    }
+
+    // The user's bucket is empty, the anonymous one isn't
+    assert.deepEqual(await budget.acquire(PRODUCT_URL, 'interactive'), { granted: true, waitedMs: 0 });
+
+    const buckets = budget.getStats().buckets;
+    assert.deepEqual(buckets.map(bucket => bucket.requestsPerMinute).sort(), [30, 60]);
+  } finally {
+    budget.destroy();
+  }
+});
+
+test('a waiting request reports when it starts and stops waiting', async () => {
+  const budget = new RequestBudget(30);
+  try {
+    for (let i = 0; i < 10; i++) {
+      await budget.acquire(PRODUCT_URL, 'background', { owner: OWNER });
+    }
+
+    const events: string[] = [];
+    const pending = budget.acquire(PRODUCT_URL, 'background', {
+      owner: OWNER,
+      onWait: () => {
+        events.push('waiting');
+        return () => events.push('done');
+      }
+    });
+    assert.deepEqual(events, ['waiting']);
+
+    const permit = await pending;
+    assert.equal(permit.granted, true);
+    assert.deepEqual(events, ['waiting', 'done']);
+  } finally {
+    budget.destroy();
+  }
+});
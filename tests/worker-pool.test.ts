@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { WorkerPool } from '../server/worker-pool';
+import { readCassette } from '../server/http-cassettes';
+
+const productPage = readCassette(path.resolve('tests/fixtures/cassettes/amazon-dp-B0D1XD1ZV3-81409f0efc.json'));
+
+test('a worker starts and scrapes a product page', async () => {
+  const pool = new WorkerPool({ poolSize: 1, taskTimeoutMs: 60000 });
+  try {
+    const result = await pool.runTask(productPage.request.url, 'amazon', 1, productPage.response.body);
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.details?.price, 189.99);
+    assert.equal(pool.getStats().healthyWorkers, 1);
+  } finally {
+    await pool.destroy();
+  }
+});
+
+test('tasks queued behind a worker that dies are settled', async () => {
+  const pool = new WorkerPool({ poolSize: 1, taskTimeoutMs: 60000 });
+  try {
+    const tasks = [
+      pool.runTask(productPage.request.url, 'amazon', 1, productPage.response.body),
+      pool.runTask(productPage.request.url, 'amazon', 1, productPage.response.body)
+    ];
+    assert.equal(pool.getStats().queuedTasks, 1);
+
+    // Dies right after spawning, so the pool doesn't replace it
+    await (pool as any).workers[0].worker.terminate();
+    const results = await Promise.allSettled(tasks);
+
+    assert.ok(results.every(result => result.status === 'rejected'));
+    assert.equal(pool.getStats().queuedTasks, 0);
+    assert.equal(pool.getStats().pendingTasks, 0);
+    await assert.rejects(pool.runTask(productPage.request.url, 'amazon'), /No workers available/);
+  } finally {
+    await pool.destroy();
+  }
+});
+
+test('a queued task times out when no worker frees up', async () => {
+  const pool = new WorkerPool({ poolSize: 1, taskTimeoutMs: 1000 });
+  try {
+    const worker = (pool as any).workers[0];
+    worker.healthy = false; // keeps the task in the queue
+
+    const started = Date.now();
+    await assert.rejects(pool.runTask(productPage.request.url, 'amazon', 1, productPage.response.body), /timed out in the queue/);
+    assert.ok(Date.now() - started < 5000);
+    assert.equal(pool.getStats().queuedTasks, 0);
+  } finally {
+    await pool.destroy();
+  }
+});